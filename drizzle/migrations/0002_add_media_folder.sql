@@ -0,0 +1,4 @@
+-- Add folder column to media table, used as schedule inputs
+ALTER TABLE media ADD COLUMN IF NOT EXISTS folder TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_media_folder ON media(folder);
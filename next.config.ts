@@ -1,7 +1,15 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // FFmpeg video steps run these packages' binaries, which bundling would
+  // lose. Keep them external and trace the binaries into the execute route.
+  serverExternalPackages: ["ffmpeg-static", "ffprobe-static"],
+  outputFileTracingIncludes: {
+    "/api/runs/[id]/execute": [
+      "./node_modules/ffmpeg-static/ffmpeg",
+      "./node_modules/ffprobe-static/bin/linux/x64/ffprobe",
+    ],
+  },
 };
 
 export default nextConfig;
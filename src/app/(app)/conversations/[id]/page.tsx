@@ -0,0 +1,44 @@
+import { notFound } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { Header } from '@/components/layout/header';
+import { ConversationThread } from '@/components/conversations/conversation-thread';
+
+export default async function ConversationPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: conversation, error } = await supabase
+    .from('conversations')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error || !conversation) {
+    notFound();
+  }
+
+  const { data: runs } = await supabase
+    .from('runs')
+    .select(
+      `
+      *,
+      flow:flows(id, name)
+    `
+    )
+    .eq('conversation_id', id)
+    .order('created_at', { ascending: true });
+
+  return (
+    <div className="flex flex-col min-w-0 overflow-hidden">
+      <Header title={conversation.title} />
+      <div className="flex-1 p-6 overflow-x-hidden">
+        <p className="mb-6 font-mono text-xs text-muted-foreground">{conversation.id}</p>
+        <ConversationThread runs={runs || []} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { createClient } from '@/lib/supabase/server';
+import { Header } from '@/components/layout/header';
+import { ConversationsTable } from '@/components/conversations/conversations-table';
+
+export const dynamic = 'force-dynamic';
+
+export default async function ConversationsPage() {
+  const supabase = await createClient();
+
+  const { data: conversations } = await supabase
+    .from('conversations')
+    .select('*, runs(count)')
+    .order('created_at', { ascending: false });
+
+  const transformed = (conversations || []).map(({ runs, ...conversation }) => ({
+    id: conversation.id as string,
+    title: conversation.title as string,
+    created_at: conversation.created_at as string,
+    run_count: (runs as Array<{ count: number }>)?.[0]?.count || 0,
+  }));
+
+  return (
+    <div className="flex flex-col">
+      <Header title="Conversations" />
+      <div className="flex-1 p-6">
+        <div className="mb-6">
+          <p className="text-muted-foreground">
+            Runs that share a conversation replay its earlier turns in Chat steps
+          </p>
+        </div>
+
+        <ConversationsTable conversations={transformed} />
+      </div>
+    </div>
+  );
+}
@@ -3,13 +3,13 @@
 import { useState, useCallback, useEffect } from 'react';
 import Link from 'next/link';
 import { useDropzone } from 'react-dropzone';
-import { Upload, Image as ImageIcon, Film, Loader2 } from 'lucide-react';
+import { Upload, Image as ImageIcon, Film, Music, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 
 interface MediaItem {
   id: string;
-  type: 'image' | 'video';
+  type: 'image' | 'video' | 'audio';
   filename: string;
   url: string;
   mimeType: string | null;
@@ -75,6 +75,7 @@ export default function LibraryPage() {
     accept: {
       'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.webp'],
       'video/*': ['.mp4', '.mov', '.webm'],
+      'audio/*': ['.mp3', '.wav', '.m4a', '.ogg', '.flac'],
     },
   });
 
@@ -84,7 +85,7 @@ export default function LibraryPage() {
       <div className="border-b border-border px-6 py-4">
         <h1 className="text-2xl font-bold">Library</h1>
         <p className="text-sm text-muted-foreground">
-          Upload and manage your images and videos
+          Upload and manage your images, videos and audio
         </p>
       </div>
 
@@ -124,7 +125,7 @@ export default function LibraryPage() {
                 or click to browse
               </p>
               <p className="mt-3 text-xs text-muted-foreground">
-                Supports images (PNG, JPG, GIF, WebP) and videos (MP4, MOV, WebM)
+                Supports images (PNG, JPG, GIF, WebP), videos (MP4, MOV, WebM) and audio (MP3, WAV, M4A, OGG, FLAC)
               </p>
             </>
           )}
@@ -157,6 +158,11 @@ export default function LibraryPage() {
                     alt={item.filename}
                     className="max-h-full max-w-full object-contain rounded shadow-md transition-transform group-hover:scale-105"
                   />
+                ) : item.type === 'audio' ? (
+                  <div className="flex flex-col items-center gap-2 text-muted-foreground">
+                    <Music className="h-10 w-10" />
+                    <span className="max-w-full truncate text-xs">{item.filename}</span>
+                  </div>
                 ) : (
                   <div className="relative max-h-full max-w-full">
                     <video
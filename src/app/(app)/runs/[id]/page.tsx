@@ -4,6 +4,7 @@ import { Header } from '@/components/layout/header';
 import { RunDetail } from '@/components/runs/run-detail';
 import { db, media } from '@/lib/db';
 import { inArray } from 'drizzle-orm';
+import { getQueuePosition } from '@/lib/execution/queue';
 
 export default async function RunPage({
   params,
@@ -21,6 +22,7 @@ export default async function RunPage({
       flow:flows(id, name, description),
       prompt_runs(
         *,
+        responses(*, outputs(*)),
         prompt:prompts(
           id,
           endpoint_type,
@@ -72,6 +74,7 @@ export default async function RunPage({
   // Attach media objects to run
   const runWithMedia = {
     ...run,
+    queue_position: await getQueuePosition(supabase, run),
     input_media: inputMediaIds.map(id => mediaMap[id]).filter(Boolean),
     prompt_runs: promptRuns.map((pr: Record<string, unknown>) => ({
       ...pr,
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/conversations/[id] - Get a conversation with its runs, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServiceClient();
+
+  const { data: conversation } = await supabase
+    .from('conversations')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (!conversation) {
+    return NextResponse.json(
+      { error: 'Conversation not found' },
+      { status: 404, headers: corsHeaders }
+    );
+  }
+
+  const { data: runs, error } = await supabase
+    .from('runs')
+    .select('id, flow_id, status, message, data, created_at, completed_at, flow:flows(id, name)')
+    .eq('conversation_id', id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  return NextResponse.json({ ...conversation, runs: runs || [] }, { headers: corsHeaders });
+}
+
+// DELETE /api/conversations/[id] - Delete a conversation. Its runs are kept.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServiceClient();
+
+  const { error } = await supabase.from('conversations').delete().eq('id', id);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  return NextResponse.json({ success: true }, { headers: corsHeaders });
+}
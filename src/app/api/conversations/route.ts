@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { CreateConversationRequest } from '@/types/database';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/conversations - List conversations, newest first, with their run counts
+export async function GET() {
+  const supabase = createServiceClient();
+
+  const { data: conversations, error } = await supabase
+    .from('conversations')
+    .select('*, runs(count)')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  const transformed = conversations.map(({ runs, ...conversation }) => ({
+    ...conversation,
+    run_count: (runs as Array<{ count: number }>)?.[0]?.count || 0,
+  }));
+
+  return NextResponse.json(transformed, { headers: corsHeaders });
+}
+
+// POST /api/conversations - Create a conversation to pass as a run's conversation_id
+export async function POST(request: NextRequest) {
+  const supabase = createServiceClient();
+
+  let body: CreateConversationRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  const title = body.conversation?.title?.trim() || 'Untitled conversation';
+
+  const { data: conversation, error } = await supabase
+    .from('conversations')
+    .insert({ title })
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  return NextResponse.json(conversation, { status: 201, headers: corsHeaders });
+}
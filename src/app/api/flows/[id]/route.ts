@@ -103,6 +103,9 @@ async function updateFlow(
   if (updates.description !== undefined) {
     updateData.description = updates.description;
   }
+  if (updates.timeout_seconds !== undefined) {
+    updateData.timeout_seconds = updates.timeout_seconds;
+  }
 
   if (updates.slug !== undefined) {
     if (updates.slug === null || updates.slug === '') {
@@ -96,6 +96,7 @@ export async function POST(request: NextRequest) {
       name: flow.name,
       description: flow.description || null,
       slug: slug,
+      timeout_seconds: flow.timeout_seconds ?? null,
     })
     .select()
     .single();
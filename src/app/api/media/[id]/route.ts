@@ -27,6 +27,42 @@ export async function GET(
   }
 }
 
+// PATCH /api/media/[id] - Move a media item to a folder (null for none)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (body.folder === undefined) {
+    return NextResponse.json({ error: 'folder is required' }, { status: 400 });
+  }
+
+  try {
+    const [item] = await db
+      .update(media)
+      .set({ folder: body.folder?.trim() || null, updatedAt: new Date() })
+      .where(eq(media.id, id))
+      .returning();
+
+    if (!item) {
+      return NextResponse.json({ error: 'Media not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(item);
+  } catch (error) {
+    console.error('Error updating media:', error);
+    return NextResponse.json({ error: 'Failed to update media' }, { status: 500 });
+  }
+}
+
 // DELETE /api/media/[id] - Delete media item
 export async function DELETE(
   request: NextRequest,
@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
 import { db, media } from '@/lib/db';
-import { desc } from 'drizzle-orm';
+import { desc, eq } from 'drizzle-orm';
 
-// Generate custom ID: img_xxxxxxxx or vdo_xxxxxxxx
-function generateMediaId(type: 'image' | 'video'): string {
-  const prefix = type === 'image' ? 'img' : 'vdo';
+// Generate custom ID: img_xxxxxxxx, vdo_xxxxxxxx or aud_xxxxxxxx
+function generateMediaId(type: 'image' | 'video' | 'audio'): string {
+  const prefix = type === 'image' ? 'img' : type === 'video' ? 'vdo' : 'aud';
   const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
   let id = '';
   for (let i = 0; i < 8; i++) {
@@ -14,12 +14,14 @@ function generateMediaId(type: 'image' | 'video'): string {
   return `${prefix}_${id}`;
 }
 
-// GET /api/media - List all media
-export async function GET() {
+// GET /api/media - List all media, or one folder's (?folder=)
+export async function GET(request: NextRequest) {
   try {
+    const folder = request.nextUrl.searchParams.get('folder');
     const items = await db
       .select()
       .from(media)
+      .where(folder ? eq(media.folder, folder) : undefined)
       .orderBy(desc(media.createdAt));
 
     return NextResponse.json(items);
@@ -34,6 +36,7 @@ export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
+    const folder = (formData.get('folder') as string | null)?.trim() || null;
 
     if (!file) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
@@ -43,19 +46,20 @@ export async function POST(request: NextRequest) {
     const mimeType = file.type;
     const isVideo = mimeType.startsWith('video/');
     const isImage = mimeType.startsWith('image/');
+    const isAudio = mimeType.startsWith('audio/');
 
-    if (!isVideo && !isImage) {
+    if (!isVideo && !isImage && !isAudio) {
       return NextResponse.json(
-        { error: 'File must be an image or video' },
+        { error: 'File must be an image, video or audio' },
         { status: 400 }
       );
     }
 
-    const type = isVideo ? 'video' : 'image';
+    const type = isVideo ? 'video' : isAudio ? 'audio' : 'image';
     const id = generateMediaId(type);
 
     // Get file extension
-    const ext = file.name.split('.').pop() || (isVideo ? 'mp4' : 'png');
+    const ext = file.name.split('.').pop() || (isVideo ? 'mp4' : isAudio ? 'mp3' : 'png');
     const filename = `${id}.${ext}`;
 
     // Upload to Supabase Storage
@@ -94,6 +98,7 @@ export async function POST(request: NextRequest) {
         url,
         mimeType,
         size: file.size,
+        folder,
       })
       .returning();
 
@@ -1,5 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
+import { validateStepKey } from '@/lib/template';
+import {
+  PROMPT_TEMPLATE_FIELDS,
+  validatePromptInFlow,
+  validatePromptRemoval,
+  validateVideoOptions,
+} from '@/lib/prompts';
+import { validateImageOperations } from '@/lib/runners/image/transform';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -83,6 +91,9 @@ async function updatePrompt(
     'selected_model',
     'system_prompt',
     'tools',
+    'response_schema',
+    'max_tool_iterations',
+    'history_token_budget',
     'background_prompt',
     'foreground_prompt',
     'negative_prompt',
@@ -96,10 +107,21 @@ async function updatePrompt(
     'size',
     'quality',
     'video_duration',
+    'router_rules',
+    'map_over_attachments',
+    'map_concurrency',
+    'retry_policy',
+    'cache_results',
+    'mock_options',
+    'video_options',
+    'image_operations',
+    'voice',
     'subject_image_url',
     'background_reference_url',
     'attachment_urls',
     'position',
+    'depends_on',
+    'step_key',
   ];
 
   for (const field of allowedFields) {
@@ -108,6 +130,93 @@ async function updatePrompt(
     }
   }
 
+  if (updateData.step_key === '') {
+    updateData.step_key = null;
+  }
+
+  try {
+    validateVideoOptions(updateData.video_options);
+    validateImageOperations(updateData.image_operations);
+  } catch (error) {
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  if (updateData.step_key) {
+    const validation = validateStepKey(updateData.step_key as string);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const { data: current } = await supabase
+      .from('prompts')
+      .select('flow_id')
+      .eq('id', id)
+      .single();
+
+    const { data: existing } = await supabase
+      .from('prompts')
+      .select('id')
+      .eq('flow_id', current?.flow_id)
+      .eq('step_key', updateData.step_key)
+      .neq('id', id)
+      .maybeSingle();
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A step with this key already exists in the flow' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+  }
+
+  // Dependencies, routing rules, the response schema and step references in
+  // templates are checked against the rest of the flow as it will be saved
+  const flowFields = [
+    'depends_on', 'position', 'endpoint_type', 'router_rules', 'image_operations', 'response_schema',
+    ...PROMPT_TEMPLATE_FIELDS,
+  ];
+  if (flowFields.some((field) => updateData[field] !== undefined)) {
+    const { data: current, error: currentError } = await supabase
+      .from('prompts')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (currentError) {
+      return NextResponse.json(
+        { error: currentError.message },
+        { status: currentError.code === 'PGRST116' ? 404 : 500, headers: corsHeaders }
+      );
+    }
+
+    const { data: flowPrompts, error: flowPromptsError } = await supabase
+      .from('prompts')
+      .select('*')
+      .eq('flow_id', current.flow_id);
+
+    if (flowPromptsError) {
+      return NextResponse.json(
+        { error: flowPromptsError.message },
+        { status: 500, headers: corsHeaders }
+      );
+    }
+
+    try {
+      validatePromptInFlow(flowPrompts || [], { ...current, ...updateData });
+    } catch (error) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+  }
+
   const { data: prompt, error } = await supabase
     .from('prompts')
     .update(updateData)
@@ -133,6 +242,36 @@ export async function DELETE(
   const { id } = await params;
   const supabase = createServiceClient();
 
+  // Routers in the flow must still point only at prompts downstream of them
+  const { data: current } = await supabase
+    .from('prompts')
+    .select('flow_id')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (current) {
+    const { data: flowPrompts, error: flowPromptsError } = await supabase
+      .from('prompts')
+      .select('*')
+      .eq('flow_id', current.flow_id);
+
+    if (flowPromptsError) {
+      return NextResponse.json(
+        { error: flowPromptsError.message },
+        { status: 500, headers: corsHeaders }
+      );
+    }
+
+    try {
+      validatePromptRemoval(flowPrompts || [], id);
+    } catch (error) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+  }
+
   const { error } = await supabase.from('prompts').delete().eq('id', id);
 
   if (error) {
@@ -142,5 +281,32 @@ export async function DELETE(
     );
   }
 
+  // Prompts that waited for this one keep their other dependencies
+  const { data: dependents, error: dependentsError } = await supabase
+    .from('prompts')
+    .select('id, depends_on')
+    .contains('depends_on', [id]);
+
+  if (dependentsError) {
+    return NextResponse.json(
+      { error: dependentsError.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  for (const dependent of dependents || []) {
+    const { error: updateError } = await supabase
+      .from('prompts')
+      .update({ depends_on: (dependent.depends_on as string[]).filter((dependencyId) => dependencyId !== id) })
+      .eq('id', dependent.id);
+
+    if (updateError) {
+      return NextResponse.json(
+        { error: updateError.message },
+        { status: 500, headers: corsHeaders }
+      );
+    }
+  }
+
   return NextResponse.json({ success: true }, { headers: corsHeaders });
 }
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
+import { validateStepKey } from '@/lib/template';
+import { validatePromptInFlow, validateVideoOptions, NEW_PROMPT_ID } from '@/lib/prompts';
+import { validateImageOperations } from '@/lib/runners/image/transform';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -65,6 +68,40 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  try {
+    validateVideoOptions(prompt.video_options);
+    validateImageOperations(prompt.image_operations);
+  } catch (error) {
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  if (prompt.step_key) {
+    const validation = validateStepKey(prompt.step_key);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const { data: existing } = await supabase
+      .from('prompts')
+      .select('id')
+      .eq('flow_id', prompt.flow_id)
+      .eq('step_key', prompt.step_key)
+      .maybeSingle();
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A step with this key already exists in the flow' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+  }
+
   // Get the next position for this flow
   const { data: existingPrompts } = await supabase
     .from('prompts')
@@ -77,6 +114,32 @@ export async function POST(request: NextRequest) {
     ? ((existingPrompts[0].position as number) || 0) + 1
     : 0;
 
+  const { data: flowPrompts, error: flowPromptsError } = await supabase
+    .from('prompts')
+    .select('*')
+    .eq('flow_id', prompt.flow_id);
+
+  if (flowPromptsError) {
+    return NextResponse.json(
+      { error: flowPromptsError.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  try {
+    validatePromptInFlow(flowPrompts || [], {
+      ...prompt,
+      id: NEW_PROMPT_ID,
+      position: nextPosition,
+      depends_on: prompt.depends_on ?? null,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
   const { data: newPrompt, error } = await supabase
     .from('prompts')
     .insert({
@@ -88,6 +151,9 @@ export async function POST(request: NextRequest) {
       selected_model: prompt.selected_model || 'gpt-4o',
       system_prompt: prompt.system_prompt || null,
       tools: prompt.tools || [],
+      response_schema: prompt.response_schema ?? null,
+      max_tool_iterations: prompt.max_tool_iterations ?? null,
+      history_token_budget: prompt.history_token_budget ?? null,
       background_prompt: prompt.background_prompt || null,
       foreground_prompt: prompt.foreground_prompt || null,
       negative_prompt: prompt.negative_prompt || null,
@@ -100,10 +166,21 @@ export async function POST(request: NextRequest) {
       output_format: prompt.output_format || null,
       size: prompt.size || null,
       quality: prompt.quality || null,
+      router_rules: prompt.router_rules ?? null,
+      map_over_attachments: prompt.map_over_attachments || false,
+      map_concurrency: prompt.map_concurrency ?? null,
+      retry_policy: prompt.retry_policy ?? null,
+      cache_results: prompt.cache_results || false,
+      mock_options: prompt.mock_options ?? null,
+      video_options: prompt.video_options ?? null,
+      image_operations: prompt.image_operations ?? null,
+      voice: prompt.voice || null,
       subject_image_url: prompt.subject_image_url || null,
       background_reference_url: prompt.background_reference_url || null,
       attachment_urls: prompt.attachment_urls || [],
       position: nextPosition,
+      step_key: prompt.step_key || null,
+      depends_on: prompt.depends_on ?? null,
     })
     .select()
     .single();
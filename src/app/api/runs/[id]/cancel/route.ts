@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { deliverRunWebhook } from '@/lib/webhooks';
+import { dispatchQueuedRuns } from '@/lib/execution/queue';
+import { completeBatchIfDone } from '@/lib/batches';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// POST /api/runs/[id]/cancel - Cancel a pending run
+// Execution stops cooperatively: before the next step and inside provider polling loops
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServiceClient();
+  const runId = id.replace(/\.json$/, '');
+
+  const { data: run, error: fetchError } = await supabase
+    .from('runs')
+    .select('id, status')
+    .eq('id', runId)
+    .single();
+
+  if (fetchError || !run) {
+    return NextResponse.json(
+      { error: 'Run not found' },
+      { status: 404, headers: corsHeaders }
+    );
+  }
+
+  if (run.status !== 'pending') {
+    return NextResponse.json(
+      { error: `Run is already ${run.status}` },
+      { status: 409, headers: corsHeaders }
+    );
+  }
+
+  // Only cancel if the run is still pending so we don't race a completing run
+  const { data: cancelledRun, error: updateError } = await supabase
+    .from('runs')
+    .update({
+      status: 'cancelled',
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', runId)
+    .eq('status', 'pending')
+    .select()
+    .single();
+
+  if (updateError || !cancelledRun) {
+    return NextResponse.json(
+      { error: 'Run finished before it could be cancelled' },
+      { status: 409, headers: corsHeaders }
+    );
+  }
+
+  await supabase
+    .from('prompt_runs')
+    .update({
+      status: 'cancelled',
+      completed_at: new Date().toISOString(),
+    })
+    .eq('run_id', runId)
+    .eq('status', 'pending');
+
+  await deliverRunWebhook(cancelledRun, 'run.cancelled');
+
+  await completeBatchIfDone(supabase, cancelledRun.batch_id);
+
+  // A cancelled run frees its providers' slots for queued runs
+  after(() => dispatchQueuedRuns(supabase, request.nextUrl.origin));
+
+  return NextResponse.json(
+    {
+      id: cancelledRun.id,
+      status: cancelledRun.status,
+      completed_at: cancelledRun.completed_at,
+    },
+    { headers: corsHeaders }
+  );
+}
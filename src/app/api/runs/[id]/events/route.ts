@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { formatRunResponse, getBaseUrl } from '@/lib/runs';
+import { RUN_EVENTS_PAGE_SIZE, createEventCursor, formatServerSentEvent, listRunEvents } from '@/lib/execution/events';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization, Last-Event-ID',
+};
+
+const POLL_INTERVAL_MS = 500;
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 15000;
+// Close before the function's time limit; EventSource reconnects with Last-Event-ID
+const MAX_STREAM_MS = 280000;
+
+export const dynamic = 'force-dynamic';
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/runs/[id]/events - Stream a run's progress as server-sent events
+// Replays recorded step events after Last-Event-ID (or ?last_event_id=), then
+// streams new ones. Ends with a run.completed, run.failed, run.cancelled or
+// run.timed_out event carrying the finished run.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: runId } = await params;
+  const supabase = createServiceClient();
+
+  const { data: run } = await supabase
+    .from('runs')
+    .select('id')
+    .eq('id', runId)
+    .maybeSingle();
+
+  if (!run) {
+    return NextResponse.json(
+      { error: 'Run not found' },
+      { status: 404, headers: corsHeaders }
+    );
+  }
+
+  const lastEventId = Number(
+    request.headers.get('last-event-id') || request.nextUrl.searchParams.get('last_event_id') || 0
+  ) || 0;
+  const baseUrl = getBaseUrl(request);
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+      const deadline = Date.now() + MAX_STREAM_MS;
+      const cursor = createEventCursor(lastEventId);
+      let lastSentAt = Date.now();
+
+      try {
+        while (!closed && !request.signal.aborted && Date.now() < deadline) {
+          // Read the run before its events so nothing recorded before it finished is missed
+          const { data: current } = await supabase
+            .from('runs')
+            .select('*')
+            .eq('id', runId)
+            .single();
+
+          const events = await listRunEvents(supabase, runId, cursor.afterId());
+          for (const event of cursor.take(events)) {
+            send(formatServerSentEvent(event.event_type, event.data, event.id));
+            lastSentAt = Date.now();
+          }
+
+          if (current && current.status !== 'pending' && events.length < RUN_EVENTS_PAGE_SIZE) {
+            const eventType = `run.${(current.status as string).replace('-', '_')}`;
+            send(formatServerSentEvent(eventType, formatRunResponse(current, baseUrl)));
+            break;
+          }
+
+          if (Date.now() - lastSentAt >= HEARTBEAT_MS) {
+            send(': ping\n\n');
+            lastSentAt = Date.now();
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        send(formatServerSentEvent('error', { error: error instanceof Error ? error.message : 'Stream failed' }));
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    // The client disconnected
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
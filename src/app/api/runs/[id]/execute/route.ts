@@ -1,6 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
-import { runPrompt } from '@/lib/runners';
+import { runPrompt, RunPromptParams, RunPromptResult, StepTemplateOutput } from '@/lib/runners';
+import { buildFlowGraph, getReadySteps, isStepSkipped, FlowStep } from '@/lib/execution/graph';
+import { mapWithConcurrency } from '@/lib/execution/map';
+import { classifyError, getBackoffDelay, resolveRetryPolicy, shouldRetry } from '@/lib/execution/retry';
+import { PromptRunAttempt, PromptRunOutput, RetryPolicy } from '@/types/database';
+import { deliverRunWebhook } from '@/lib/webhooks';
+import { dispatchQueuedRuns } from '@/lib/execution/queue';
+import { completeBatchIfDone } from '@/lib/batches';
+import { assertRunNotStopped, getStoppedStatus, RUN_STOPPED_MESSAGE } from '@/lib/execution/cancellation';
+import { createTokenRecorder, recordRunEvent } from '@/lib/execution/events';
+import { findCachedResult, getResultCacheKey, isCacheable, storeCachedResult } from '@/lib/execution/cache';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,6 +18,39 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
 };
 
+// Map steps run at most this many items at once unless the prompt sets map_concurrency
+const DEFAULT_MAP_CONCURRENCY = 4;
+
+interface ItemOutcome {
+  promptRunId: string;
+  result: RunPromptResult;
+  // Image URL and text handed to dependent steps
+  imageUrl: string | null;
+  text: string | null;
+}
+
+interface StepInput {
+  imageUrl: string | null;
+  text: string | null;
+  // Every media URL the step receives, for steps that combine them
+  urls: string[];
+  // Text of AudioToText dependencies, which Chat steps send with the message
+  transcript: string | null;
+  parentPromptRunIds: string[];
+}
+
+interface StepOutcome {
+  promptRunIds: string[];
+  skipped: boolean;
+  // Map steps have one item per input; other steps have exactly one
+  mapped: boolean;
+  items: ItemOutcome[];
+  // Set by router steps: the dependent prompt IDs chosen to run
+  selectedPromptIds?: string[];
+}
+
+type OutputData = { image_url?: string; video_url?: string; audio_url?: string; text?: string; json?: unknown };
+
 export async function OPTIONS() {
   return NextResponse.json({}, { headers: corsHeaders });
 }
@@ -32,13 +75,28 @@ export async function POST(
     );
   }
 
-  if (run.status === 'completed' || run.status === 'failed') {
+  if (run.status !== 'pending') {
     return NextResponse.json(
       { message: 'Run already processed', status: run.status },
       { headers: corsHeaders }
     );
   }
 
+  // Runs start through the queue so provider concurrency limits hold
+  if (!run.dispatched_at) {
+    return NextResponse.json(
+      { error: 'Run is waiting in the queue' },
+      { status: 409, headers: corsHeaders }
+    );
+  }
+
+  // However this run ends, its batch may be done and its slots free up for queued runs
+  after(async () => {
+    const supabase = createServiceClient();
+    await completeBatchIfDone(supabase, run.batch_id);
+    await dispatchQueuedRuns(supabase, request.nextUrl.origin);
+  });
+
   const flow = run.flow as { id: string; name: string; prompts: Array<Record<string, unknown>> } | null;
   if (!flow || !flow.prompts || flow.prompts.length === 0) {
     await markRunFailedStep(runId, 'No prompts found in flow');
@@ -48,42 +106,193 @@ export async function POST(
     );
   }
 
-  // Sort prompts by position
-  const prompts = flow.prompts.sort(
-    (a: Record<string, unknown>, b: Record<string, unknown>) =>
-      ((a.position as number) || 0) - ((b.position as number) || 0)
-  );
+  let steps: FlowStep[];
+  try {
+    steps = buildFlowGraph(flow.prompts);
+  } catch (graphError) {
+    const message = graphError instanceof Error ? graphError.message : 'Invalid flow graph';
+    await markRunFailedStep(runId, message);
+    return NextResponse.json(
+      { error: message },
+      { status: 400, headers: corsHeaders }
+    );
+  }
 
-  // Step 2: Execute each prompt in sequence
-  let lastOutput: { image_url?: string; video_url?: string; text?: string } = {};
+  // Step 2: Execute prompts as a DAG - every step whose dependencies have
+  // finished runs in parallel with the other ready steps
   const attachmentUrls = run.attachment_urls as string[] | undefined;
-  // Use first attachment as the primary input image
-  let inputImageUrl = attachmentUrls?.[0] || null;
+  // Use first attachment as the primary input image for root steps
+  const runInputImageUrl = attachmentUrls?.[0] || null;
+  const results = new Map<string, StepOutcome>();
+
+  // Resumed runs start with the source run's completed steps already copied in
+  const reusedPromptRuns = await fetchReusedPromptRunsStep(runId);
+  for (const step of steps) {
+    const promptRuns = reusedPromptRuns
+      .filter((promptRun) => promptRun.prompt_id === step.id)
+      .sort((a, b) => (a.map_index ?? 0) - (b.map_index ?? 0));
+    if (promptRuns.length === 0) continue;
+
+    const items = promptRuns.map((promptRun): ItemOutcome => ({
+      promptRunId: promptRun.id,
+      result: {
+        response: promptRun.response,
+        outputUrl: promptRun.output.output_url || undefined,
+        outputType: promptRun.output.output_type || undefined,
+        text: promptRun.output.text || undefined,
+        json: promptRun.output.json,
+        selectedPromptIds: promptRun.output.selected_prompt_ids || undefined,
+      },
+      imageUrl: promptRun.output.forwarded_image_url,
+      text: promptRun.output.forwarded_text,
+    }));
+
+    results.set(step.id, {
+      promptRunIds: items.map((item) => item.promptRunId),
+      skipped: false,
+      mapped: promptRuns[0].map_index !== null,
+      items,
+      selectedPromptIds: items[0].result.selectedPromptIds,
+    });
+  }
 
-  for (const prompt of prompts) {
-    try {
-      const result = await executePromptStep({
-        prompt,
-        run,
-        runId,
-        inputImageUrl,
-        attachmentUrls,
-      });
+  while (results.size < steps.length) {
+    // Cancellation is cooperative - stop before starting the next batch
+    const stoppedStatus = await getStoppedStatusStep(runId);
+    if (stoppedStatus) {
+      return runStoppedResponse(stoppedStatus);
+    }
+
+    const ready = getReadySteps(steps, new Set(results.keys()));
+
+    const settled = await Promise.allSettled(
+      ready.map(async (step): Promise<StepOutcome> => {
+        const parents = step.dependsOn.map((id) => results.get(id)!);
+        const parentPromptRunIds = parents.flatMap((parent) => parent.promptRunIds);
+
+        // Branches not selected by a router are recorded but never executed
+        if (isStepSkipped(step, results)) {
+          const promptRunId = await markPromptSkippedStep({
+            prompt: step.prompt,
+            runId,
+            parentPromptRunIds,
+          });
+          return { promptRunIds: [promptRunId], skipped: true, mapped: false, items: [] };
+        }
+
+        const activeItems = parents
+          .filter((parent) => !parent.skipped)
+          .flatMap((parent) => parent.items);
+        // Joins take their input from the first dependency that carries media
+        const inputImageUrl = parents.length > 0
+          ? activeItems.find((item) => item.imageUrl)?.imageUrl || null
+          : runInputImageUrl;
+        const inputText = activeItems.find((item) => item.text)?.text || null;
+        const inputUrls = parents.length > 0
+          ? activeItems.map((item) => item.imageUrl).filter((url): url is string => !!url)
+          : attachmentUrls || [];
+        const isTranscriber = (id: string) =>
+          steps.find((s) => s.id === id)?.prompt.endpoint_type === 'AudioToText';
+        const transcript = step.dependsOn
+          .filter((id) => isTranscriber(id) && !results.get(id)!.skipped)
+          .flatMap((id) => results.get(id)!.items.map((item) => item.result.text))
+          .filter(Boolean)
+          .join('\n\n') || null;
+
+        const runItem = (input: StepInput, mapIndex: number | null) =>
+          executePromptStep({
+            prompt: step.prompt,
+            run,
+            runId,
+            inputImageUrl: input.imageUrl,
+            inputText: input.text,
+            inputUrls: input.urls,
+            inputTranscript: input.transcript,
+            attachmentUrls,
+            parentPromptRunIds: input.parentPromptRunIds,
+            mapIndex,
+            stepOutputs: buildStepOutputs(steps, results, mapIndex),
+            baseUrl: request.nextUrl.origin,
+          }).then(({ promptRunId, forwardedImageUrl, forwardedText, ...result }): ItemOutcome => ({
+            promptRunId,
+            result,
+            imageUrl: forwardedImageUrl,
+            text: forwardedText,
+          }));
+
+        if (!step.prompt.map_over_attachments) {
+          const item = await runItem(
+            { imageUrl: inputImageUrl, text: inputText, urls: inputUrls, transcript, parentPromptRunIds },
+            null
+          );
+          return {
+            promptRunIds: [item.promptRunId],
+            skipped: false,
+            mapped: false,
+            items: [item],
+            selectedPromptIds: item.result.selectedPromptIds,
+          };
+        }
 
-      // Use output as input for next prompt
-      if (result.outputUrl) {
-        inputImageUrl = result.outputUrl;
-        if (result.outputType === 'image') {
-          lastOutput.image_url = result.outputUrl;
-        } else if (result.outputType === 'video') {
-          lastOutput.video_url = result.outputUrl;
+        // Map steps run once per item: a mapped parent's items continue as a
+        // sub-chain, otherwise each of the run's attachments is an item
+        const mappedParentIndex = parents.findIndex((parent) => parent.mapped && !parent.skipped);
+        const mappedParent = parents[mappedParentIndex];
+        const inputs: StepInput[] = mappedParent
+          ? mappedParent.items.map((item) => ({
+              imageUrl: item.imageUrl,
+              text: item.text,
+              urls: item.imageUrl ? [item.imageUrl] : [],
+              transcript: isTranscriber(step.dependsOn[mappedParentIndex]) ? item.result.text || null : null,
+              parentPromptRunIds: [item.promptRunId],
+            }))
+          : (attachmentUrls || []).map((url) => ({
+              imageUrl: url,
+              text: inputText,
+              urls: [url],
+              transcript,
+              parentPromptRunIds,
+            }));
+
+        if (inputs.length === 0) {
+          throw new Error('Map step has no attachments to run over');
         }
+
+        const items = await mapWithConcurrency(
+          inputs,
+          (step.prompt.map_concurrency as number | null) || DEFAULT_MAP_CONCURRENCY,
+          runItem
+        );
+        const selections = items.filter((item) => item.result.selectedPromptIds);
+
+        return {
+          promptRunIds: items.map((item) => item.promptRunId),
+          skipped: false,
+          mapped: true,
+          items,
+          selectedPromptIds: selections.length > 0
+            ? [...new Set(selections.flatMap((item) => item.result.selectedPromptIds!))]
+            : undefined,
+        };
+      })
+    );
+
+    const rejected = settled.find(
+      (outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected'
+    );
+    if (rejected) {
+      // A step stopped because the run was cancelled or timed out - the cancel
+      // endpoint or sweeper already updated the run and sent its webhook
+      const stoppedStatus = await getStoppedStatusStep(runId);
+      if (stoppedStatus) {
+        return runStoppedResponse(stoppedStatus);
       }
-      if (result.text) {
-        lastOutput.text = result.text;
+
+      const promptError = rejected.reason;
+      const failed = await markRunFailedStep(runId, promptError instanceof Error ? promptError.message : 'Unknown error');
+      if (!failed) {
+        return runStoppedResponse((await getStoppedStatusStep(runId)) || 'already finished');
       }
-    } catch (promptError) {
-      await markRunFailedStep(runId, promptError instanceof Error ? promptError.message : 'Unknown error');
       await triggerWebhookStep(run, 'run.failed');
 
       return NextResponse.json(
@@ -91,10 +300,33 @@ export async function POST(
         { status: 500, headers: corsHeaders }
       );
     }
+
+    ready.forEach((step, index) => {
+      results.set(step.id, (settled[index] as PromiseFulfilledResult<StepOutcome>).value);
+    });
   }
 
-  // Step 3: Mark run as completed
-  await markRunCompletedStep(runId, lastOutput);
+  // Merge step outputs in position order so later steps take precedence.
+  // The last map step's items are also returned as an array of outputs.
+  const lastOutput: OutputData & { outputs?: OutputData[] } = {};
+  for (const step of steps) {
+    const outcome = results.get(step.id)!;
+    const outputs = outcome.items.map((item) => toOutputData(item.result));
+
+    for (const output of outputs) {
+      Object.assign(lastOutput, output);
+    }
+    if (outcome.mapped) {
+      lastOutput.outputs = outputs;
+    }
+  }
+
+  // Step 3: Mark run as completed. Nothing is updated when the run was
+  // cancelled or timed out during its last wave - that webhook was already sent
+  const completed = await markRunCompletedStep(runId, lastOutput);
+  if (!completed) {
+    return runStoppedResponse((await getStoppedStatusStep(runId)) || 'already finished');
+  }
   await triggerWebhookStep({ ...run, status: 'completed', data: lastOutput }, 'run.completed');
 
   return NextResponse.json(
@@ -103,6 +335,64 @@ export async function POST(
   );
 }
 
+function runStoppedResponse(status: string) {
+  return NextResponse.json(
+    { message: `Run was ${status}`, status },
+    { headers: corsHeaders }
+  );
+}
+
+// Template context of finished steps, addressable by position ({{steps[0].text}})
+// and by step_key ({{steps.caption.text}}). Map steps expose the item matching
+// the current map index, plus every item under `items`.
+function buildStepOutputs(
+  steps: FlowStep[],
+  results: Map<string, StepOutcome>,
+  mapIndex: number | null
+): Record<string, StepTemplateOutput> {
+  const outputs: Record<string, StepTemplateOutput> = {};
+
+  steps.forEach((step, index) => {
+    const outcome = results.get(step.id);
+    if (!outcome) return;
+
+    const items = outcome.items.map((item) => toOutputData(item.result));
+    const current = outcome.mapped && mapIndex !== null && items[mapIndex] ? items[mapIndex] : items[0];
+    const output: StepTemplateOutput = {
+      ...current,
+      skipped: outcome.skipped,
+      ...(outcome.mapped ? { items } : {}),
+    };
+
+    outputs[index] = output;
+    if (step.prompt.step_key) {
+      outputs[step.prompt.step_key as string] = output;
+    }
+  });
+
+  return outputs;
+}
+
+function toOutputData(result: RunPromptResult): OutputData {
+  const output: OutputData = {};
+  if (result.outputUrl) {
+    if (result.outputType === 'image') {
+      output.image_url = result.outputUrl;
+    } else if (result.outputType === 'video') {
+      output.video_url = result.outputUrl;
+    } else if (result.outputType === 'audio') {
+      output.audio_url = result.outputUrl;
+    }
+  }
+  // Structured output is returned parsed instead of as a JSON string
+  if (result.json !== undefined) {
+    output.json = result.json;
+  } else if (result.text) {
+    output.text = result.text;
+  }
+  return output;
+}
+
 // Step: Fetch run with flow and prompts
 async function fetchRunStep(runId: string) {
   'use step';
@@ -130,19 +420,67 @@ async function fetchRunStep(runId: string) {
   return run;
 }
 
-// Step: Execute a single prompt (with automatic retries)
+// Step: Fetch prompt runs copied from the source run when resuming
+async function fetchReusedPromptRunsStep(runId: string) {
+  'use step';
+
+  const supabase = createServiceClient();
+
+  const { data: promptRuns, error } = await supabase
+    .from('prompt_runs')
+    .select('id, prompt_id, response, map_index, output')
+    .eq('run_id', runId)
+    .eq('status', 'completed')
+    .not('reused_from_prompt_run_id', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to fetch reused prompt runs: ${error.message}`);
+  }
+
+  return (promptRuns || []) as Array<{
+    id: string;
+    prompt_id: string;
+    response: Record<string, unknown>;
+    map_index: number | null;
+    output: PromptRunOutput;
+  }>;
+}
+
+// Step: Execute a single prompt, retrying per the prompt's retry policy
 async function executePromptStep(params: {
   prompt: Record<string, unknown>;
   run: Record<string, unknown>;
   runId: string;
   inputImageUrl: string | null;
+  inputText: string | null;
+  inputUrls: string[];
+  inputTranscript: string | null;
   attachmentUrls?: string[];
-}) {
+  parentPromptRunIds: string[];
+  mapIndex: number | null;
+  stepOutputs: Record<string, StepTemplateOutput>;
+  baseUrl: string;
+}): Promise<RunPromptResult & { promptRunId: string; forwardedImageUrl: string | null; forwardedText: string | null }> {
   'use step';
 
-  const { prompt, run, runId, inputImageUrl, attachmentUrls } = params;
+  const {
+    prompt,
+    run,
+    runId,
+    inputImageUrl,
+    inputText,
+    inputUrls,
+    inputTranscript,
+    attachmentUrls,
+    parentPromptRunIds,
+    mapIndex,
+    stepOutputs,
+    baseUrl,
+  } = params;
   const supabase = createServiceClient();
 
+  await assertRunNotStopped(supabase, runId);
+
   // Get input media IDs from run if available
   const inputMediaIds = (run.input_media_ids as string[]) || [];
 
@@ -156,6 +494,9 @@ async function executePromptStep(params: {
       selected_provider: prompt.selected_provider,
       model: prompt.selected_model,
       input_media_ids: inputMediaIds,
+      parent_prompt_run_ids: parentPromptRunIds,
+      map_index: mapIndex,
+      source_attachment_urls: inputImageUrl ? [inputImageUrl] : [],
       started_at: new Date().toISOString(),
     })
     .select()
@@ -165,144 +506,263 @@ async function executePromptStep(params: {
     throw new Error(`Failed to create prompt run: ${promptRunError.message}`);
   }
 
-  try {
-    // Execute the prompt
-    const result = await runPrompt({
-      prompt,
-      promptRun,
-      run,
-      inputImageUrl,
-      attachmentUrls,
-      supabase,
-    });
+  const promptParams: RunPromptParams = {
+    prompt,
+    promptRun,
+    run,
+    inputImageUrl,
+    inputText,
+    inputUrls,
+    inputTranscript,
+    attachmentUrls,
+    steps: stepOutputs,
+    baseUrl,
+    supabase,
+  };
+
+  // Steps that opt in reuse the result of an identical earlier request
+  let cacheKey: string | null = null;
+  if (isCacheable(prompt, run)) {
+    try {
+      cacheKey = await getResultCacheKey(promptParams);
+    } catch (error) {
+      console.error(`Skipping result cache for prompt run ${promptRun.id}:`, error);
+    }
+  }
+  const cachedResult = cacheKey ? await findCachedResult(supabase, cacheKey) : null;
+
+  // Identifies the step in every progress event
+  const stepEvent = {
+    prompt_run_id: promptRun.id,
+    prompt_id: prompt.id,
+    step_key: prompt.step_key || null,
+    endpoint_type: prompt.endpoint_type,
+    map_index: mapIndex,
+  };
+  await recordRunEvent(supabase, runId, 'step.started', stepEvent);
+
+  const policy = resolveRetryPolicy(prompt.retry_policy as RetryPolicy | null);
+  const attempts: PromptRunAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const attemptStartedAt = new Date().toISOString();
+    const tokenRecorder = createTokenRecorder(supabase, runId, promptRun.id);
 
-    // Update prompt run with results
-    await supabase
-      .from('prompt_runs')
-      .update({
+    try {
+      // Execute the prompt, unless its result is cached
+      const result = cachedResult || await runPrompt({ ...promptParams, onToken: tokenRecorder.push });
+      await tokenRecorder.flush();
+
+      if (cacheKey && !cachedResult) {
+        await storeCachedResult(supabase, cacheKey, promptRun.id, result);
+      }
+
+      attempts.push({
+        attempt,
         status: 'completed',
-        response: result.response,
-        input_tokens: result.tokens?.input || null,
-        output_tokens: result.tokens?.output || null,
-        total_tokens: result.tokens?.total || null,
-        attachment_urls: result.attachmentUrls || [],
-        output_media_ids: result.outputMediaIds || [],
+        error: null,
+        error_class: null,
+        started_at: attemptStartedAt,
         completed_at: new Date().toISOString(),
-      })
-      .eq('id', promptRun.id);
-
-    return result;
-  } catch (error) {
-    // Update prompt run as failed
-    await supabase
-      .from('prompt_runs')
-      .update({
+      });
+
+      // Steps without media or text output pass their input through
+      const output: PromptRunOutput = {
+        output_url: result.outputUrl || null,
+        output_type: result.outputType || null,
+        text: result.text || null,
+        json: result.json,
+        selected_prompt_ids: result.selectedPromptIds || null,
+        forwarded_image_url: result.outputUrl || inputImageUrl,
+        forwarded_text: result.text || inputText,
+      };
+
+      // Update prompt run with results
+      await supabase
+        .from('prompt_runs')
+        .update({
+          status: 'completed',
+          response: result.response,
+          input_tokens: result.tokens?.input || null,
+          output_tokens: result.tokens?.output || null,
+          total_tokens: result.tokens?.total || null,
+          attachment_urls: result.attachmentUrls || [],
+          output_media_ids: result.outputMediaIds || [],
+          attempt_count: attempt,
+          attempts,
+          output,
+          cache_key: cacheKey,
+          cache_hit: !!cachedResult,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', promptRun.id)
+        .eq('status', 'pending');
+
+      await recordRunEvent(supabase, runId, 'step.completed', { ...stepEvent, output, cache_hit: !!cachedResult });
+
+      return {
+        ...result,
+        promptRunId: promptRun.id,
+        forwardedImageUrl: output.forwarded_image_url,
+        forwardedText: output.forwarded_text,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const errorClass = classifyError(error);
+      await tokenRecorder.flush();
+
+      attempts.push({
+        attempt,
         status: 'failed',
-        response: { error: error instanceof Error ? error.message : 'Unknown error' },
+        error: errorMessage,
+        error_class: errorClass,
+        started_at: attemptStartedAt,
         completed_at: new Date().toISOString(),
-      })
-      .eq('id', promptRun.id);
+      });
+
+      // The cancel endpoint or sweeper has already set this prompt run's status
+      if (errorMessage === RUN_STOPPED_MESSAGE) {
+        await supabase
+          .from('prompt_runs')
+          .update({ attempt_count: attempt, attempts })
+          .eq('id', promptRun.id);
+
+        throw error;
+      }
+
+      if (!shouldRetry(policy, errorClass, attempt)) {
+        // Update prompt run as failed
+        await supabase
+          .from('prompt_runs')
+          .update({
+            status: 'failed',
+            response: { error: errorMessage, error_class: errorClass },
+            attempt_count: attempt,
+            attempts,
+            completed_at: new Date().toISOString(),
+          })
+          .eq('id', promptRun.id)
+          .eq('status', 'pending');
+
+        await recordRunEvent(supabase, runId, 'step.failed', { ...stepEvent, error: errorMessage, error_class: errorClass });
+
+        throw error;
+      }
+
+      // Clients drop the text streamed by the failed attempt
+      await recordRunEvent(supabase, runId, 'step.retrying', {
+        ...stepEvent,
+        attempt,
+        error: errorMessage,
+        error_class: errorClass,
+      });
+
+      // Record the failed attempt so progress is visible while we back off
+      await supabase
+        .from('prompt_runs')
+        .update({ attempt_count: attempt, attempts })
+        .eq('id', promptRun.id);
+
+      await new Promise((resolve) => setTimeout(resolve, getBackoffDelay(policy, attempt)));
+      await assertRunNotStopped(supabase, runId);
+    }
+  }
+}
+
+// Step: Record a prompt that was skipped by a router branch
+async function markPromptSkippedStep(params: {
+  prompt: Record<string, unknown>;
+  runId: string;
+  parentPromptRunIds: string[];
+}): Promise<string> {
+  'use step';
+
+  const { prompt, runId, parentPromptRunIds } = params;
+  const supabase = createServiceClient();
+  const now = new Date().toISOString();
 
-    throw error;
+  const { data: promptRun, error } = await supabase
+    .from('prompt_runs')
+    .insert({
+      prompt_id: prompt.id,
+      run_id: runId,
+      status: 'skipped',
+      selected_provider: prompt.selected_provider,
+      model: prompt.selected_model,
+      parent_prompt_run_ids: parentPromptRunIds,
+      response: { skipped: 'Not selected by router' },
+      started_at: now,
+      completed_at: now,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create prompt run: ${error.message}`);
   }
+
+  await recordRunEvent(supabase, runId, 'step.skipped', {
+    prompt_run_id: promptRun.id,
+    prompt_id: prompt.id,
+    step_key: prompt.step_key || null,
+    endpoint_type: prompt.endpoint_type,
+  });
+
+  return promptRun.id;
 }
 
-// Step: Mark run as failed
+// Step: Check whether the run has been cancelled or timed out
+async function getStoppedStatusStep(runId: string) {
+  'use step';
+
+  return getStoppedStatus(createServiceClient(), runId);
+}
+
+// Step: Mark run as failed, returning null if it was already stopped
 async function markRunFailedStep(runId: string, errorMessage: string) {
   'use step';
 
   const supabase = createServiceClient();
 
-  await supabase
+  const { data: updated } = await supabase
     .from('runs')
     .update({
       status: 'failed',
       data: { error: errorMessage },
       completed_at: new Date().toISOString(),
     })
-    .eq('id', runId);
+    .eq('id', runId)
+    .eq('status', 'pending')
+    .select('id')
+    .maybeSingle();
+
+  return updated;
 }
 
-// Step: Mark run as completed
+// Step: Mark run as completed, returning null if it was already stopped
 async function markRunCompletedStep(runId: string, data: Record<string, unknown>) {
   'use step';
 
   const supabase = createServiceClient();
 
-  await supabase
+  const { data: updated } = await supabase
     .from('runs')
     .update({
       status: 'completed',
       data,
       completed_at: new Date().toISOString(),
     })
-    .eq('id', runId);
+    .eq('id', runId)
+    .eq('status', 'pending')
+    .select('id')
+    .maybeSingle();
+
+  return updated;
 }
 
 // Step: Trigger webhook
 async function triggerWebhookStep(run: Record<string, unknown>, eventType: string) {
   'use step';
 
-  if (!run.webhook_url) return;
-
-  const supabase = createServiceClient();
-
-  const payload = {
-    type: eventType,
-    data: {
-      object: {
-        id: run.id,
-        flow_id: run.flow_id,
-        status: run.status,
-        started_at: run.started_at,
-        completed_at: run.completed_at,
-        created_at: run.created_at,
-        updated_at: run.updated_at,
-        data: run.data,
-        url: `/runs/${run.id}.json`,
-      },
-    },
-    created: Math.floor(Date.now() / 1000),
-  };
-
-  // Create webhook record
-  await supabase.from('run_webhooks').insert({
-    run_id: run.id as string,
-    event_type: eventType,
-    payload,
-    status: 'pending',
-    endpoint_url: run.webhook_url as string,
-    attempt_count: 0,
-  });
-
-  // Deliver webhook
-  try {
-    const response = await fetch(run.webhook_url as string, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
-    });
-
-    await supabase
-      .from('run_webhooks')
-      .update({
-        status: response.ok ? 'delivered' : 'failed',
-        attempt_count: 1,
-        last_attempted_at: new Date().toISOString(),
-        error_message: response.ok ? null : `HTTP ${response.status}`,
-      })
-      .eq('run_id', run.id as string)
-      .eq('event_type', eventType);
-  } catch (error) {
-    await supabase
-      .from('run_webhooks')
-      .update({
-        status: 'failed',
-        attempt_count: 1,
-        last_attempted_at: new Date().toISOString(),
-        error_message: error instanceof Error ? error.message : 'Unknown error',
-      })
-      .eq('run_id', run.id as string)
-      .eq('event_type', eventType);
-  }
+  await deliverRunWebhook(run, eventType);
 }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse, after } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
+import { dispatchQueuedRuns } from '@/lib/execution/queue';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,6 +13,8 @@ export async function OPTIONS() {
 }
 
 // POST /api/runs/[id]/rerun - Create a new run based on an existing run
+// With { "resume": true }, completed steps are copied from the source run and
+// execution restarts at the first step that didn't complete
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -36,16 +39,39 @@ export async function POST(
 
   // Check if a different flow_id was provided in the request body
   let flowId = sourceRun.flow_id;
+  let resume = false;
+  let bypassCache = sourceRun.bypass_cache;
   try {
     const body = await request.json();
     if (body.flow_id) {
       flowId = body.flow_id;
     }
+    resume = body.resume === true;
+    if (typeof body.bypass_cache === 'boolean') {
+      bypassCache = body.bypass_cache;
+    }
   } catch {
     // No body or invalid JSON - use source run's flow_id
   }
 
-  // Create a new run with the same inputs
+  if (resume) {
+    if (flowId !== sourceRun.flow_id) {
+      return NextResponse.json(
+        { error: 'Cannot resume a run with a different flow' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+    if (sourceRun.status === 'pending' || sourceRun.status === 'completed') {
+      return NextResponse.json(
+        { error: `Cannot resume a ${sourceRun.status} run` },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+  }
+
+  // Create a new run with the same inputs. A resumed run is held out of the
+  // queue (marked dispatched) until its completed steps have been copied, so
+  // the dispatcher can't start it from the first step.
   const { data: newRun, error: createError } = await supabase
     .from('runs')
     .insert({
@@ -54,8 +80,11 @@ export async function POST(
       variables: sourceRun.variables,
       webhook_url: sourceRun.webhook_url,
       source_run_id: sourceRunId,
+      priority: sourceRun.priority,
+      bypass_cache: bypassCache,
       status: 'pending',
       started_at: new Date().toISOString(),
+      dispatched_at: resume ? new Date().toISOString() : null,
     })
     .select()
     .single();
@@ -67,29 +96,109 @@ export async function POST(
     );
   }
 
-  // Trigger execution using after() to ensure the fetch completes
-  const baseUrl = request.nextUrl.origin;
-  after(async () => {
-    try {
-      const response = await fetch(`${baseUrl}/api/runs/${newRun.id}/execute`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      if (!response.ok) {
-        console.error(`Execute trigger failed for rerun ${newRun.id}: ${response.status}`);
-      }
-    } catch (err) {
-      console.error(`Error triggering rerun execution for ${newRun.id}:`, err);
+  if (resume) {
+    let copyError = await copyCompletedPromptRuns(supabase, sourceRunId, newRun.id);
+    if (!copyError) {
+      const { error: releaseError } = await supabase
+        .from('runs')
+        .update({ dispatched_at: null })
+        .eq('id', newRun.id);
+      copyError = releaseError ? `Failed to queue resumed run: ${releaseError.message}` : null;
+    }
+    if (copyError) {
+      await supabase.from('runs').delete().eq('id', newRun.id);
+      return NextResponse.json(
+        { error: copyError },
+        { status: 500, headers: corsHeaders }
+      );
     }
-  });
+  }
+
+  // The new run joins the queue. Dispatch using after() to ensure the fetch completes
+  const baseUrl = request.nextUrl.origin;
+  after(() => dispatchQueuedRuns(supabase, baseUrl));
 
   return NextResponse.json(
     {
       id: newRun.id,
       source_run_id: sourceRunId,
       status: 'pending',
+      resumed: resume,
       redirect_url: `/runs/${newRun.id}`,
     },
     { status: 201, headers: corsHeaders }
   );
 }
+
+// Copy the source run's completed prompt runs into the new run so the execute
+// workflow can reuse their outputs. Returns an error message on failure.
+async function copyCompletedPromptRuns(
+  supabase: ReturnType<typeof createServiceClient>,
+  sourceRunId: string,
+  runId: string
+): Promise<string | null> {
+  const { data: promptRuns, error } = await supabase
+    .from('prompt_runs')
+    .select('*')
+    .eq('run_id', sourceRunId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return `Failed to load completed steps: ${error.message}`;
+  }
+
+  // A step is reusable only if every prompt run for it (every item of a map
+  // step) completed and recorded its output
+  const incompletePromptIds = new Set(
+    (promptRuns || [])
+      .filter((promptRun) => promptRun.status !== 'completed' || !promptRun.output)
+      .map((promptRun) => promptRun.prompt_id)
+  );
+  const reusable = (promptRuns || []).filter(
+    (promptRun) => !incompletePromptIds.has(promptRun.prompt_id)
+  );
+
+  // Parents always complete before their children, so copying in creation
+  // order lets us point parent_prompt_run_ids at the copies
+  const copiedIds = new Map<string, string>();
+
+  for (const promptRun of reusable) {
+    const { data: copy, error: insertError } = await supabase
+      .from('prompt_runs')
+      .insert({
+        prompt_id: promptRun.prompt_id,
+        run_id: runId,
+        status: 'completed',
+        response: promptRun.response,
+        input_tokens: promptRun.input_tokens,
+        output_tokens: promptRun.output_tokens,
+        total_tokens: promptRun.total_tokens,
+        selected_provider: promptRun.selected_provider,
+        model: promptRun.model,
+        source_attachment_urls: promptRun.source_attachment_urls,
+        attachment_urls: promptRun.attachment_urls,
+        input_media_ids: promptRun.input_media_ids,
+        output_media_ids: promptRun.output_media_ids,
+        parent_prompt_run_ids: ((promptRun.parent_prompt_run_ids as string[]) || []).map(
+          (parentId) => copiedIds.get(parentId) || parentId
+        ),
+        map_index: promptRun.map_index,
+        attempt_count: promptRun.attempt_count,
+        attempts: promptRun.attempts,
+        output: promptRun.output,
+        reused_from_prompt_run_id: promptRun.reused_from_prompt_run_id || promptRun.id,
+        started_at: promptRun.started_at,
+        completed_at: promptRun.completed_at,
+      })
+      .select('id')
+      .single();
+
+    if (insertError || !copy) {
+      return `Failed to copy completed step: ${insertError?.message}`;
+    }
+
+    copiedIds.set(promptRun.id, copy.id);
+  }
+
+  return null;
+}
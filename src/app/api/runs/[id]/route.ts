@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
-import { RunResponse, RunStatus } from '@/types/database';
+import { formatRunResponse, getBaseUrl } from '@/lib/runs';
+import { getQueuePosition } from '@/lib/execution/queue';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -41,6 +42,13 @@ export async function GET(
         response,
         attachment_urls,
         source_attachment_urls,
+        parent_prompt_run_ids,
+        map_index,
+        attempt_count,
+        attempts,
+        reused_from_prompt_run_id,
+        cache_hit,
+        responses(role, response_type, status, call_id, name, arguments, created_at, outputs(text, content_type)),
         prompt:prompts(
           id,
           system_prompt,
@@ -65,6 +73,7 @@ export async function GET(
 
   const baseUrl = getBaseUrl(request);
   const response = formatRunResponse(run, baseUrl);
+  response.queue_position = await getQueuePosition(supabase, run);
 
   return NextResponse.json(response, { headers: corsHeaders });
 }
@@ -153,23 +162,3 @@ export async function DELETE(
     { status: 200, headers: corsHeaders }
   );
 }
-
-function formatRunResponse(run: Record<string, unknown>, baseUrl: string): RunResponse {
-  return {
-    id: run.id as string,
-    flow_id: run.flow_id as string,
-    status: run.status as RunStatus,
-    started_at: run.started_at as string | null,
-    completed_at: run.completed_at as string | null,
-    created_at: run.created_at as string,
-    updated_at: run.updated_at as string,
-    data: (run.data as RunResponse['data']) || {},
-    url: `${baseUrl}/api/runs/${run.id}.json`,
-  };
-}
-
-function getBaseUrl(request: NextRequest): string {
-  const host = request.headers.get('host') || 'localhost:3000';
-  const protocol = host.includes('localhost') ? 'http' : 'https';
-  return `${protocol}://${host}`;
-}
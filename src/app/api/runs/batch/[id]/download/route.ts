@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import JSZip from 'jszip';
+import { createServiceClient } from '@/lib/supabase/server';
+import { mapWithConcurrency } from '@/lib/execution/map';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+};
+
+const DOWNLOAD_CONCURRENCY = 4;
+// The archive is built in memory, so stop adding media past this size
+const MAX_ARCHIVE_BYTES = 250 * 1024 * 1024;
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/runs/batch/[id]/download - Download every output of a batch as a ZIP
+// Media files are named by row, and results.json lists each run's status and data.
+// Files that would take the archive past MAX_ARCHIVE_BYTES are left out and
+// listed under download_errors.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServiceClient();
+
+  const { data: batch } = await supabase
+    .from('batches')
+    .select('id')
+    .eq('id', id)
+    .single();
+
+  if (!batch) {
+    return NextResponse.json(
+      { error: 'Batch not found' },
+      { status: 404, headers: corsHeaders }
+    );
+  }
+
+  const { data: runs, error } = await supabase
+    .from('runs')
+    .select('id, batch_index, status, variables, attachment_urls, data')
+    .eq('batch_id', id)
+    .order('batch_index', { ascending: true });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  // One file per output URL: every map item, or the run's final image/video
+  const files: Array<{ name: string; url: string }> = [];
+  for (const run of runs || []) {
+    if (run.status !== 'completed') continue;
+
+    const data = (run.data || {}) as {
+      image_url?: string;
+      video_url?: string;
+      audio_url?: string;
+      outputs?: Array<{ image_url?: string; video_url?: string; audio_url?: string }>;
+    };
+    const urls = data.outputs?.length
+      ? data.outputs.map((output) => output.video_url || output.audio_url || output.image_url)
+      : [data.video_url || data.audio_url || data.image_url];
+    const row = String((run.batch_index ?? 0) + 1).padStart(4, '0');
+
+    urls.forEach((url, index) => {
+      if (!url) return;
+      const extension = url.split('?')[0].match(/\.(\w+)$/)?.[1] || 'bin';
+      const suffix = urls.length > 1 ? `-${index + 1}` : '';
+      files.push({ name: `${row}${suffix}.${extension}`, url });
+    });
+  }
+
+  const zip = new JSZip();
+  const downloadErrors: Record<string, string> = {};
+  let totalBytes = 0;
+
+  await mapWithConcurrency(files, DOWNLOAD_CONCURRENCY, async (file) => {
+    try {
+      if (totalBytes >= MAX_ARCHIVE_BYTES) {
+        throw new Error('Archive size limit reached');
+      }
+      const response = await fetch(file.url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const contentLength = Number(response.headers.get('content-length'));
+      if (contentLength && totalBytes + contentLength > MAX_ARCHIVE_BYTES) {
+        await response.body?.cancel();
+        throw new Error('Archive size limit reached');
+      }
+      const content = await response.arrayBuffer();
+      if (totalBytes + content.byteLength > MAX_ARCHIVE_BYTES) {
+        throw new Error('Archive size limit reached');
+      }
+      totalBytes += content.byteLength;
+      zip.file(file.name, content);
+    } catch (err) {
+      downloadErrors[file.name] = err instanceof Error ? err.message : 'Download failed';
+    }
+  });
+
+  zip.file(
+    'results.json',
+    JSON.stringify(
+      {
+        batch_id: id,
+        runs: runs || [],
+        download_errors: downloadErrors,
+      },
+      null,
+      2
+    )
+  );
+
+  const archive = await zip.generateAsync({ type: 'arraybuffer' });
+
+  return new NextResponse(archive, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="batch-${id}.zip"`,
+    },
+  });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { formatBatchResponse, getBatchProgress } from '@/lib/batches';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/runs/batch/[id] - Get a batch with the aggregate progress of its runs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServiceClient();
+
+  const { data: batch, error } = await supabase
+    .from('batches')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error || !batch) {
+    return NextResponse.json(
+      { error: 'Batch not found' },
+      { status: 404, headers: corsHeaders }
+    );
+  }
+
+  const { data: runs } = await supabase
+    .from('runs')
+    .select('id, batch_index, status')
+    .eq('batch_id', id)
+    .order('batch_index', { ascending: true });
+
+  const progress = await getBatchProgress(supabase, id);
+
+  return NextResponse.json(
+    { ...formatBatchResponse(batch, progress), runs: runs || [] },
+    { headers: corsHeaders }
+  );
+}
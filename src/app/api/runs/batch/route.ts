@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { BatchRow, CreateBatchRequest } from '@/types/database';
+import { resolveFlowByIdentifier, resolveLegacyFlowId } from '@/lib/slug';
+import { dispatchQueuedRuns } from '@/lib/execution/queue';
+import {
+  DEFAULT_BATCH_PRIORITY,
+  MAX_BATCH_ROWS,
+  formatBatchResponse,
+  getBatchProgress,
+  parseBatchCsv,
+  validateBatchRows,
+} from '@/lib/batches';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// POST /api/runs/batch - Create one run per row against a flow
+// Accepts JSON ({ batch: { flow_id, rows | csv, column_mapping } }) or a
+// multipart form with a CSV `file` and the same fields
+export async function POST(request: NextRequest) {
+  const supabase = createServiceClient();
+
+  let batchData: CreateBatchRequest['batch'];
+  try {
+    batchData = await readBatchRequest(request);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid request body' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  if (!batchData?.flow_id) {
+    return NextResponse.json(
+      { error: 'Flow ID is required' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  if (batchData.priority !== undefined && !Number.isInteger(batchData.priority)) {
+    return NextResponse.json(
+      { error: 'priority must be an integer' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  let rows: BatchRow[];
+  try {
+    rows = batchData.csv !== undefined
+      ? parseBatchCsv(batchData.csv, batchData.column_mapping)
+      : batchData.rows || [];
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid CSV' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return NextResponse.json(
+      { error: 'At least one row is required' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  if (rows.length > MAX_BATCH_ROWS) {
+    return NextResponse.json(
+      { error: `A batch can have at most ${MAX_BATCH_ROWS} rows` },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  const rowError = validateBatchRows(rows);
+  if (rowError) {
+    return NextResponse.json(
+      { error: rowError },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  const flow = await resolveFlowByIdentifier(supabase, resolveLegacyFlowId(batchData.flow_id));
+  if (!flow) {
+    return NextResponse.json(
+      { error: 'Flow not found' },
+      { status: 404, headers: corsHeaders }
+    );
+  }
+
+  const priority = batchData.priority ?? DEFAULT_BATCH_PRIORITY;
+
+  const { data: batch, error: batchError } = await supabase
+    .from('batches')
+    .insert({
+      flow_id: flow.id,
+      webhook_url: batchData.webhook_url || null,
+      priority,
+      status: 'pending',
+    })
+    .select()
+    .single();
+
+  if (batchError || !batch) {
+    return NextResponse.json(
+      { error: batchError?.message || 'Failed to create batch' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  const startedAt = new Date().toISOString();
+  const { error: runsError } = await supabase.from('runs').insert(
+    rows.map((row, index) => ({
+      flow_id: flow.id,
+      batch_id: batch.id,
+      batch_index: index,
+      message: row.message || null,
+      variables: row.variables || {},
+      attachment_urls: row.attachment_urls || [],
+      priority,
+      status: 'pending',
+      started_at: startedAt,
+      data: {},
+    }))
+  );
+
+  if (runsError) {
+    await supabase.from('batches').delete().eq('id', batch.id);
+    return NextResponse.json(
+      { error: `Failed to create runs: ${runsError.message}` },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  // The runs join the queue. Dispatch using after() to ensure the execute
+  // fetches complete before the serverless function terminates
+  const baseUrl = request.nextUrl.origin;
+  after(() => dispatchQueuedRuns(supabase, baseUrl));
+
+  const progress = await getBatchProgress(supabase, batch.id);
+  return NextResponse.json(formatBatchResponse(batch, progress), { status: 201, headers: corsHeaders });
+}
+
+async function readBatchRequest(request: NextRequest): Promise<CreateBatchRequest['batch']> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      throw new Error('CSV file is required');
+    }
+
+    const mapping = formData.get('column_mapping');
+    const priority = formData.get('priority');
+    return {
+      flow_id: String(formData.get('flow_id') || ''),
+      webhook_url: (formData.get('webhook_url') as string | null) || undefined,
+      priority: priority ? Number(priority) : undefined,
+      csv: await file.text(),
+      column_mapping: mapping ? (parseJson(String(mapping), 'column_mapping must be a JSON object') as Record<string, string>) : undefined,
+    };
+  }
+
+  const body = parseJson(await request.text(), 'Invalid JSON body') as CreateBatchRequest;
+  return body.batch;
+}
+
+function parseJson(text: string, errorMessage: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { CreateRunRequest } from '@/types/database';
+import { resolveFlowByIdentifier, resolveLegacyFlowId } from '@/lib/slug';
+import { estimateRun } from '@/lib/execution/estimate';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// POST /api/runs/estimate - Estimate a run's tokens and cost without executing it
+// Takes the same body as POST /api/runs
+export async function POST(request: NextRequest) {
+  const supabase = createServiceClient();
+
+  let body: CreateRunRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  const { run: runData } = body;
+
+  if (!runData?.flow_id) {
+    return NextResponse.json(
+      { error: 'Flow ID is required' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  const flow = await resolveFlowByIdentifier(supabase, resolveLegacyFlowId(runData.flow_id));
+  if (!flow) {
+    return NextResponse.json(
+      { error: 'Flow not found' },
+      { status: 404, headers: corsHeaders }
+    );
+  }
+
+  const { data: prompts, error: promptsError } = await supabase
+    .from('prompts')
+    .select('*')
+    .eq('flow_id', flow.id);
+
+  if (promptsError) {
+    return NextResponse.json(
+      { error: promptsError.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  const { data: models, error: modelsError } = await supabase
+    .from('models')
+    .select('model_id, input_price, output_price, image_price, video_second_price, provider:providers(name, slug)')
+    .in('model_id', [...new Set((prompts || []).map((prompt) => prompt.selected_model))]);
+
+  if (modelsError) {
+    return NextResponse.json(
+      { error: modelsError.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  try {
+    const estimate = estimateRun(
+      flow.id,
+      prompts || [],
+      (models || []).map((model) => ({
+        ...model,
+        provider: Array.isArray(model.provider) ? model.provider[0] || null : model.provider,
+      })),
+      {
+        message: runData.message,
+        variables: runData.variables,
+        attachment_urls: runData.attachment_urls,
+      }
+    );
+
+    return NextResponse.json(estimate, { headers: corsHeaders });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to estimate run' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+}
@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse, after } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
-import { CreateRunRequest, RunResponse } from '@/types/database';
-import { isUUID, resolveFlowByIdentifier } from '@/lib/slug';
+import { CreateRunRequest } from '@/types/database';
+import { isUUID, resolveFlowByIdentifier, resolveLegacyFlowId } from '@/lib/slug';
+import { DEFAULT_RUN_PRIORITY, dispatchQueuedRuns, getQueuePosition } from '@/lib/execution/queue';
+import { UNIQUE_VIOLATION, findIdempotentRun, getIdempotencyKey } from '@/lib/idempotency';
+import { parseWaitSeconds, waitForRun } from '@/lib/execution/wait';
+import { formatRunResponse, getBaseUrl } from '@/lib/runs';
 
 // CORS headers for external API access
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization, Idempotency-Key',
   'Access-Control-Allow-Credentials': 'true',
   'Access-Control-Max-Age': '3600',
 };
@@ -25,6 +29,7 @@ export async function GET(request: NextRequest) {
   const limit = parseInt(searchParams.get('limit') || '20');
   const flowId = searchParams.get('flow_id');
   const status = searchParams.get('status');
+  const externalId = searchParams.get('external_id');
   const sortBy = searchParams.get('sort_by') || 'created_at';
   const sortOrder = searchParams.get('sort_order') || 'desc';
 
@@ -54,6 +59,9 @@ export async function GET(request: NextRequest) {
   if (status) {
     query = query.eq('status', status);
   }
+  if (externalId) {
+    query = query.eq('external_id', externalId);
+  }
   if (cursor) {
     query = query.lt('created_at', cursor);
   }
@@ -68,15 +76,27 @@ export async function GET(request: NextRequest) {
   }
 
   // Transform to match Rails API response format
-  const transformedRuns = runs.map((run) => formatRunResponse(run, request));
+  const baseUrl = getBaseUrl(request);
+  const transformedRuns = runs.map((run) => formatRunResponse(run, baseUrl));
 
   return NextResponse.json(transformedRuns, { headers: corsHeaders });
 }
 
 // POST /api/runs - Create a new run
+// ?wait=<seconds> blocks until the run finishes, or returns it pending once the time is up
 export async function POST(request: NextRequest) {
   const supabase = createServiceClient();
 
+  let waitSeconds: number | null;
+  try {
+    waitSeconds = parseWaitSeconds(request.nextUrl.searchParams.get('wait'));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid wait' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
   let body: CreateRunRequest;
   try {
     body = await request.json();
@@ -96,19 +116,18 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  // Convert flow_id to UUID format if it's a number (backwards compatibility)
-  let flowId = runData.flow_id;
-  if (typeof flowId === 'number') {
-    const legacyFlowMap: Record<number, string> = {
-      1: '00000000-0000-0000-0000-000000000001',
-      2: '00000000-0000-0000-0000-000000000002',
-      3: '00000000-0000-0000-0000-000000000003',
-    };
-    flowId = legacyFlowMap[flowId] || flowId.toString();
+  if (runData.priority !== undefined && !Number.isInteger(runData.priority)) {
+    return NextResponse.json(
+      { error: 'priority must be an integer' },
+      { status: 400, headers: corsHeaders }
+    );
   }
 
+  // Convert flow_id to UUID format if it's a number (backwards compatibility)
+  let flowId = resolveLegacyFlowId(runData.flow_id);
+
   // Resolve flow by slug if not a UUID
-  if (typeof flowId === 'string' && !isUUID(flowId)) {
+  if (!isUUID(flowId)) {
     const resolved = await resolveFlowByIdentifier(supabase, flowId);
     if (!resolved) {
       return NextResponse.json(
@@ -119,6 +138,30 @@ export async function POST(request: NextRequest) {
     flowId = resolved.id;
   }
 
+  // A retried request gets the original run back instead of a duplicate
+  const idempotencyKey = getIdempotencyKey(request.headers.get('idempotency-key'), runData.external_id);
+  if (idempotencyKey) {
+    const existing = await findIdempotentRun(supabase, idempotencyKey);
+    if (existing) {
+      return replayRun(supabase, existing, flowId, request, waitSeconds);
+    }
+  }
+
+  if (runData.conversation_id) {
+    const { data: conversation } = await supabase
+      .from('conversations')
+      .select('id')
+      .eq('id', runData.conversation_id)
+      .maybeSingle();
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+  }
+
   // Build attachment_urls - support legacy input_image_url by prepending it
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const legacyInputImageUrl = (runData as any).input_image_url;
@@ -142,6 +185,10 @@ export async function POST(request: NextRequest) {
       attachment_urls: attachmentUrls,
       input_media_ids: inputMediaIds,
       conversation_id: runData.conversation_id || null,
+      priority: runData.priority ?? DEFAULT_RUN_PRIORITY,
+      idempotency_key: idempotencyKey,
+      external_id: runData.external_id || null,
+      bypass_cache: runData.bypass_cache === true,
       status: 'pending',
       started_at: new Date().toISOString(),
       data: {},
@@ -149,6 +196,14 @@ export async function POST(request: NextRequest) {
     .select()
     .single();
 
+  // Another request with the same key created the run first
+  if (createError?.code === UNIQUE_VIOLATION && idempotencyKey) {
+    const existing = await findIdempotentRun(supabase, idempotencyKey);
+    if (existing) {
+      return replayRun(supabase, existing, flowId, request, waitSeconds);
+    }
+  }
+
   if (createError) {
     console.error('Error creating run:', createError);
     return NextResponse.json(
@@ -157,48 +212,50 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  // Trigger the run execution using after() to ensure the fetch completes
-  // before the serverless function terminates
+  // The run joins the queue. Dispatch using after() to ensure the execute
+  // fetches complete before the serverless function terminates
   const baseUrl = getBaseUrl(request);
-  after(async () => {
-    try {
-      const response = await fetch(`${baseUrl}/api/runs/${run.id}/execute`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      if (!response.ok) {
-        console.error(`Execute trigger failed for run ${run.id}: ${response.status}`);
-      }
-    } catch (err) {
-      console.error(`Error triggering run execution for ${run.id}:`, err);
-    }
-  });
+  let result = run;
+  if (waitSeconds) {
+    // Start dispatching now rather than after the response, so the run can
+    // finish while this request waits for it
+    const dispatch = dispatchQueuedRuns(supabase, baseUrl);
+    after(() => dispatch);
+    result = await waitForRun(supabase, run, waitSeconds * 1000);
+  } else {
+    after(() => dispatchQueuedRuns(supabase, baseUrl));
+  }
 
   // Return the run in Rails API format
-  const response = formatRunResponse(run, request);
+  const response = formatRunResponse(result, getBaseUrl(request));
+  response.queue_position = await getQueuePosition(supabase, result);
 
   return NextResponse.json(response, { status: 201, headers: corsHeaders });
 }
 
-// Helper to format run response to match Rails API
-function formatRunResponse(run: Record<string, unknown>, request: NextRequest): RunResponse {
-  const baseUrl = getBaseUrl(request);
+// Return the run created by an earlier request with the same idempotency key
+async function replayRun(
+  supabase: ReturnType<typeof createServiceClient>,
+  run: Record<string, unknown>,
+  flowId: string,
+  request: NextRequest,
+  waitSeconds: number | null
+) {
+  if (run.flow_id !== flowId) {
+    return NextResponse.json(
+      { error: 'Idempotency key was already used for a different flow' },
+      { status: 409, headers: corsHeaders }
+    );
+  }
 
-  return {
-    id: run.id as string,
-    flow_id: run.flow_id as string,
-    status: run.status as RunResponse['status'],
-    started_at: run.started_at as string | null,
-    completed_at: run.completed_at as string | null,
-    created_at: run.created_at as string,
-    updated_at: run.updated_at as string,
-    data: (run.data as RunResponse['data']) || {},
-    url: `${baseUrl}/api/runs/${run.id}.json`,
-  };
-}
+  // The original request is executing the run, so only wait for it
+  const result = waitSeconds ? await waitForRun(supabase, run, waitSeconds * 1000) : run;
 
-function getBaseUrl(request: NextRequest): string {
-  const host = request.headers.get('host') || 'localhost:3000';
-  const protocol = host.includes('localhost') ? 'http' : 'https';
-  return `${protocol}://${host}`;
+  const response = formatRunResponse(result, getBaseUrl(request));
+  response.queue_position = await getQueuePosition(supabase, result);
+
+  return NextResponse.json(response, {
+    status: 200,
+    headers: { ...corsHeaders, 'Idempotent-Replayed': 'true' },
+  });
 }
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { sweepStuckRuns } from '@/lib/execution/sweeper';
+import { claimQueuedRuns, triggerRunExecution } from '@/lib/execution/queue';
+import { isCronRequestAuthorized } from '@/lib/cron-auth';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/runs/sweep - Time out stuck runs and dispatch queued ones (called by the Vercel cron)
+export async function GET(request: NextRequest) {
+  return handleSweep(request);
+}
+
+// POST /api/runs/sweep - Time out stuck runs and dispatch queued ones on demand
+export async function POST(request: NextRequest) {
+  return handleSweep(request);
+}
+
+async function handleSweep(request: NextRequest) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401, headers: corsHeaders }
+    );
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const result = await sweepStuckRuns(supabase);
+
+    // Timed-out runs free their slots, and this also recovers runs whose
+    // dispatch never happened
+    const dispatched = await claimQueuedRuns(supabase);
+    after(() => Promise.all(dispatched.map((runId) => triggerRunExecution(request.nextUrl.origin, runId))));
+
+    return NextResponse.json({ ...result, dispatched }, { headers: corsHeaders });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Sweep failed' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
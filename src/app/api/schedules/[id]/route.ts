@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { SCHEDULE_HISTORY_LIMIT, getNextRunAt, getScheduleFields } from '@/lib/schedules';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/schedules/[id] - Get a schedule with the runs it triggered, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServiceClient();
+
+  const { data: schedule } = await supabase
+    .from('schedules')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (!schedule) {
+    return NextResponse.json(
+      { error: 'Schedule not found' },
+      { status: 404, headers: corsHeaders }
+    );
+  }
+
+  const { data: runs, error } = await supabase
+    .from('runs')
+    .select('id, status, created_at, completed_at')
+    .eq('schedule_id', id)
+    .order('created_at', { ascending: false })
+    .limit(SCHEDULE_HISTORY_LIMIT);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  return NextResponse.json({ ...schedule, runs: runs || [] }, { headers: corsHeaders });
+}
+
+// PUT/PATCH /api/schedules/[id] - Update a schedule, or pause/resume it with status
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return updateSchedule(request, params);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return updateSchedule(request, params);
+}
+
+async function updateSchedule(
+  request: NextRequest,
+  params: Promise<{ id: string }>
+) {
+  const { id } = await params;
+  const supabase = createServiceClient();
+
+  const { data: existing } = await supabase
+    .from('schedules')
+    .select('id, cron, status')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (!existing) {
+    return NextResponse.json(
+      { error: 'Schedule not found' },
+      { status: 404, headers: corsHeaders }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  let updateData: Record<string, unknown>;
+  try {
+    updateData = getScheduleFields(body.schedule || {});
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid schedule' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  // A resumed schedule picks up from now rather than running the times it missed
+  if (updateData.status === 'active' && existing.status === 'paused' && !updateData.next_run_at) {
+    updateData.next_run_at = getNextRunAt(existing.cron);
+  }
+
+  const { data: schedule, error } = await supabase
+    .from('schedules')
+    .update(updateData)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  return NextResponse.json(schedule, { headers: corsHeaders });
+}
+
+// DELETE /api/schedules/[id] - Delete a schedule. Its runs are kept.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServiceClient();
+
+  const { error } = await supabase.from('schedules').delete().eq('id', id);
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  return NextResponse.json({ success: true }, { headers: corsHeaders });
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { CreateScheduleRequest } from '@/types/database';
+import { resolveFlowByIdentifier, resolveLegacyFlowId } from '@/lib/slug';
+import { DEFAULT_SCHEDULE_PRIORITY, getScheduleFields } from '@/lib/schedules';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/schedules - List schedules, optionally for one flow (?flow_id=)
+export async function GET(request: NextRequest) {
+  const supabase = createServiceClient();
+
+  let query = supabase
+    .from('schedules')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  const flowIdParam = request.nextUrl.searchParams.get('flow_id');
+  if (flowIdParam) {
+    const flow = await resolveFlowByIdentifier(supabase, resolveLegacyFlowId(flowIdParam));
+    if (!flow) {
+      return NextResponse.json(
+        { error: 'Flow not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+    query = query.eq('flow_id', flow.id);
+  }
+
+  const { data: schedules, error } = await query;
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  return NextResponse.json(schedules, { headers: corsHeaders });
+}
+
+// POST /api/schedules - Create a schedule for a flow
+export async function POST(request: NextRequest) {
+  const supabase = createServiceClient();
+
+  let body: CreateScheduleRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  const { schedule: scheduleData } = body;
+
+  if (!scheduleData?.flow_id) {
+    return NextResponse.json(
+      { error: 'Flow ID is required' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  if (!scheduleData.cron) {
+    return NextResponse.json(
+      { error: 'cron is required' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  let fields: Record<string, unknown>;
+  try {
+    fields = getScheduleFields({ ...scheduleData, status: 'active' });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid schedule' },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  const flow = await resolveFlowByIdentifier(supabase, resolveLegacyFlowId(scheduleData.flow_id));
+  if (!flow) {
+    return NextResponse.json(
+      { error: 'Flow not found' },
+      { status: 404, headers: corsHeaders }
+    );
+  }
+
+  const { data: schedule, error } = await supabase
+    .from('schedules')
+    .insert({
+      priority: DEFAULT_SCHEDULE_PRIORITY,
+      ...fields,
+      flow_id: flow.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+
+  return NextResponse.json(schedule, { status: 201, headers: corsHeaders });
+}
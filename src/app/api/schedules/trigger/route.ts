@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { triggerDueSchedules } from '@/lib/schedules';
+import { dispatchQueuedRuns } from '@/lib/execution/queue';
+import { isCronRequestAuthorized } from '@/lib/cron-auth';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization',
+};
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+// GET /api/schedules/trigger - Create runs for due schedules (called by the Vercel cron)
+export async function GET(request: NextRequest) {
+  return handleTrigger(request);
+}
+
+// POST /api/schedules/trigger - Create runs for due schedules on demand
+export async function POST(request: NextRequest) {
+  return handleTrigger(request);
+}
+
+async function handleTrigger(request: NextRequest) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401, headers: corsHeaders }
+    );
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const runIds = await triggerDueSchedules(supabase);
+
+    // The new runs join the queue
+    if (runIds.length > 0) {
+      after(() => dispatchQueuedRuns(supabase, request.nextUrl.origin));
+    }
+
+    return NextResponse.json({ triggered: runIds }, { headers: corsHeaders });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Trigger failed' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -15,6 +15,8 @@ const VALID_ENDPOINT_TYPES = [
   'VideoToVideo',
   'AudioToText',
   'TextToAudio',
+  'Router',
+  'ImageTransform',
 ];
 
 export async function OPTIONS() {
@@ -112,6 +114,8 @@ export async function PATCH(
     'default_params',
     'input_price',
     'output_price',
+    'image_price',
+    'video_second_price',
   ];
   const updateData: Record<string, unknown> = {};
 
@@ -15,6 +15,8 @@ const VALID_ENDPOINT_TYPES = [
   'VideoToVideo',
   'AudioToText',
   'TextToAudio',
+  'Router',
+  'ImageTransform',
 ];
 
 export async function OPTIONS() {
@@ -170,6 +172,8 @@ export async function POST(request: NextRequest) {
       default_params: model.default_params ?? {},
       input_price: model.input_price ?? null,
       output_price: model.output_price ?? null,
+      image_price: model.image_price ?? null,
+      video_second_price: model.video_second_price ?? null,
     })
     .select(`
       *,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
 import { auth } from '@/lib/auth';
+import { validateAdapterConfig } from '@/lib/providers';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -69,7 +70,7 @@ export async function PATCH(
 
   const { data: existing } = await supabase
     .from('providers')
-    .select('id')
+    .select('id, adapter, base_url, api_key_env')
     .eq('id', id)
     .single();
 
@@ -91,9 +92,31 @@ export async function PATCH(
   }
 
   const { provider: updates } = body;
-  const allowedFields = ['name', 'slug', 'enabled', 'display_order'];
+  const allowedFields = [
+    'name',
+    'slug',
+    'enabled',
+    'display_order',
+    'max_concurrency',
+    'adapter',
+    'base_url',
+    'api_key_env',
+  ];
   const updateData: Record<string, unknown> = {};
 
+  // Validate the adapter settings as they will be after the update
+  const adapterError = validateAdapterConfig({
+    adapter: updates.adapter !== undefined ? updates.adapter : existing.adapter,
+    base_url: updates.base_url !== undefined ? updates.base_url : existing.base_url,
+    api_key_env: updates.api_key_env !== undefined ? updates.api_key_env : existing.api_key_env,
+  });
+  if (adapterError) {
+    return NextResponse.json(
+      { error: adapterError },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
   for (const field of allowedFields) {
     if (updates[field] !== undefined) {
       if (field === 'slug') {
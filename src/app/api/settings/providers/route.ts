@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
 import { auth } from '@/lib/auth';
+import { validateAdapterConfig } from '@/lib/providers';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -88,6 +89,14 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const adapterError = validateAdapterConfig(provider);
+  if (adapterError) {
+    return NextResponse.json(
+      { error: adapterError },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
   const slug = provider.slug.toLowerCase();
 
   const { data: existing } = await supabase
@@ -110,6 +119,10 @@ export async function POST(request: NextRequest) {
       slug: slug,
       enabled: provider.enabled ?? true,
       display_order: provider.display_order ?? 0,
+      max_concurrency: provider.max_concurrency ?? null,
+      adapter: provider.adapter || null,
+      base_url: provider.base_url || null,
+      api_key_env: provider.api_key_env || null,
     })
     .select()
     .single();
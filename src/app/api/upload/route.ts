@@ -2,9 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
 import { db, media } from '@/lib/db';
 
-// Generate custom ID: img_xxxxxxxx or vdo_xxxxxxxx
-function generateMediaId(type: 'image' | 'video'): string {
-  const prefix = type === 'image' ? 'img' : 'vdo';
+// Generate custom ID: img_xxxxxxxx, vdo_xxxxxxxx or aud_xxxxxxxx
+function generateMediaId(type: 'image' | 'video' | 'audio'): string {
+  const prefix = type === 'image' ? 'img' : type === 'video' ? 'vdo' : 'aud';
   const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
   let id = '';
   for (let i = 0; i < 8; i++) {
@@ -28,28 +28,29 @@ export async function POST(request: NextRequest) {
     const mimeType = file.type;
     const isVideo = mimeType.startsWith('video/');
     const isImage = mimeType.startsWith('image/');
+    const isAudio = mimeType.startsWith('audio/');
 
-    if (!isVideo && !isImage) {
+    if (!isVideo && !isImage && !isAudio) {
       return NextResponse.json(
-        { error: 'File must be an image or video' },
+        { error: 'File must be an image, video or audio' },
         { status: 400 }
       );
     }
 
-    // Validate file size (max 50MB for videos, 10MB for images)
-    const maxSize = isVideo ? 50 * 1024 * 1024 : 10 * 1024 * 1024;
-    if (file.size > maxSize) {
+    // Validate file size (max 50MB for videos, 25MB for audio, 10MB for images)
+    const maxSizeMb = isVideo ? 50 : isAudio ? 25 : 10;
+    if (file.size > maxSizeMb * 1024 * 1024) {
       return NextResponse.json(
-        { error: `File too large. Maximum size is ${isVideo ? '50MB' : '10MB'}` },
+        { error: `File too large. Maximum size is ${maxSizeMb}MB` },
         { status: 400 }
       );
     }
 
-    const type = isVideo ? 'video' : 'image';
+    const type = isVideo ? 'video' : isAudio ? 'audio' : 'image';
     const id = generateMediaId(type);
 
     // Get file extension and generate filename
-    const ext = file.name.split('.').pop() || (isVideo ? 'mp4' : 'png');
+    const ext = file.name.split('.').pop() || (isVideo ? 'mp4' : isAudio ? 'mp3' : 'png');
     const storageName = `${id}.${ext}`;
     const path = `library/${storageName}`;
 
@@ -0,0 +1,82 @@
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { RunStatus } from '@/types/database';
+
+interface ThreadRun {
+  id: string;
+  status: RunStatus;
+  message: string | null;
+  data: { text?: string; json?: unknown; image_url?: string; video_url?: string; audio_url?: string; error?: string } | null;
+  created_at: string;
+  flow: { id: string; name: string } | null;
+}
+
+interface ConversationThreadProps {
+  runs: ThreadRun[];
+}
+
+const statusColors: Record<RunStatus, string> = {
+  pending: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  completed: 'bg-green-500/10 text-green-500 border-green-500/20',
+  failed: 'bg-red-500/10 text-red-500 border-red-500/20',
+  'timed-out': 'bg-orange-500/10 text-orange-500 border-orange-500/20',
+  cancelled: 'bg-muted text-muted-foreground border-muted',
+};
+
+// Each run is one exchange: its message, then the flow's reply
+export function ConversationThread({ runs }: ConversationThreadProps) {
+  if (runs.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No runs yet. Create a run with this conversation_id to start the thread.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {runs.map((run) => {
+        const data = run.data || {};
+        return (
+          <div key={run.id} className="space-y-2">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Link href={`/runs/${run.id}`} className="font-mono hover:underline">
+                {run.id.slice(0, 8)}
+              </Link>
+              {run.flow && <span>{run.flow.name}</span>}
+              <span>{formatDistanceToNow(new Date(run.created_at), { addSuffix: true })}</span>
+              <Badge variant="outline" className={statusColors[run.status]}>
+                {run.status}
+              </Badge>
+            </div>
+
+            {run.message && (
+              <div className="ml-auto max-w-[80%] rounded-lg bg-primary px-4 py-2 text-sm text-primary-foreground whitespace-pre-wrap">
+                {run.message}
+              </div>
+            )}
+
+            {run.status === 'completed' ? (
+              <div className="max-w-[80%] space-y-2 rounded-lg bg-muted px-4 py-2 text-sm">
+                {data.text && <p className="whitespace-pre-wrap">{data.text}</p>}
+                {data.json !== undefined && (
+                  <pre className="overflow-x-auto text-xs">{JSON.stringify(data.json, null, 2)}</pre>
+                )}
+                {data.image_url && (
+                  <img src={data.image_url} alt="Output" className="max-h-64 rounded" />
+                )}
+                {data.video_url && (
+                  <video src={data.video_url} controls className="max-h-64 rounded" />
+                )}
+                {data.audio_url && <audio src={data.audio_url} controls className="w-full" />}
+              </div>
+            ) : data.error ? (
+              <p className="text-sm text-destructive">{data.error}</p>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { MessageSquare, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ConversationRow {
+  id: string;
+  title: string;
+  created_at: string;
+  run_count: number;
+}
+
+interface ConversationsTableProps {
+  conversations: ConversationRow[];
+}
+
+export function ConversationsTable({ conversations }: ConversationsTableProps) {
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this conversation? Its runs are kept.')) {
+      return;
+    }
+
+    setDeletingId(id);
+    try {
+      const response = await fetch(`/api/conversations/${id}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Conversation deleted');
+        window.location.reload();
+      } else {
+        toast.error('Failed to delete conversation');
+      }
+    } catch {
+      toast.error('Failed to delete conversation');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (conversations.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border border-dashed p-12">
+        <MessageSquare className="mb-4 h-12 w-12 text-muted-foreground" />
+        <p className="text-lg font-medium">No conversations found</p>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Create one with POST /api/conversations and pass its ID as a run&apos;s conversation_id
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Title</TableHead>
+            <TableHead className="text-center">Runs</TableHead>
+            <TableHead>Created</TableHead>
+            <TableHead className="w-12"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {conversations.map((conversation) => (
+            <TableRow key={conversation.id}>
+              <TableCell>
+                <Link
+                  href={`/conversations/${conversation.id}`}
+                  className="font-medium hover:underline"
+                >
+                  {conversation.title}
+                </Link>
+              </TableCell>
+              <TableCell className="text-center">{conversation.run_count}</TableCell>
+              <TableCell className="text-muted-foreground">
+                {formatDistanceToNow(new Date(conversation.created_at), {
+                  addSuffix: true,
+                })}
+              </TableCell>
+              <TableCell>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleDelete(conversation.id)}
+                  disabled={deletingId === conversation.id}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
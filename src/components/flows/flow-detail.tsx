@@ -24,6 +24,7 @@ import {
 import { Flow, Prompt, EndpointType, Provider } from '@/types/database';
 import { PromptCard } from './prompt-card';
 import { NewPromptDialog } from './new-prompt-dialog';
+import { FlowSchedules } from './flow-schedules';
 import { toast } from 'sonner';
 
 interface FlowDetailProps {
@@ -35,6 +36,7 @@ export function FlowDetail({ flow }: FlowDetailProps) {
   const [name, setName] = useState(flow.name);
   const [description, setDescription] = useState(flow.description || '');
   const [slug, setSlug] = useState(flow.slug || '');
+  const [timeoutSeconds, setTimeoutSeconds] = useState(flow.timeout_seconds ? String(flow.timeout_seconds) : '');
   const [showSlugWarning, setShowSlugWarning] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [showNewPrompt, setShowNewPrompt] = useState(false);
@@ -45,7 +47,14 @@ export function FlowDetail({ flow }: FlowDetailProps) {
       const response = await fetch(`/api/flows/${flow.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ flow: { name, description, slug: slug.trim() || null } }),
+        body: JSON.stringify({
+          flow: {
+            name,
+            description,
+            slug: slug.trim() || null,
+            timeout_seconds: timeoutSeconds ? parseInt(timeoutSeconds, 10) : null,
+          },
+        }),
       });
 
       if (response.ok) {
@@ -132,6 +141,18 @@ export function FlowDetail({ flow }: FlowDetailProps) {
                     </p>
                   )}
                 </div>
+                <div>
+                  <Label htmlFor="timeout" className="text-sm font-medium">Timeout in seconds (optional)</Label>
+                  <Input
+                    id="timeout"
+                    type="number"
+                    min={1}
+                    value={timeoutSeconds}
+                    onChange={(e) => setTimeoutSeconds(e.target.value)}
+                    placeholder="330"
+                    className="mt-1 w-[160px]"
+                  />
+                </div>
               </div>
             ) : (
               <div>
@@ -152,6 +173,7 @@ export function FlowDetail({ flow }: FlowDetailProps) {
                     setName(flow.name);
                     setDescription(flow.description || '');
                     setSlug(flow.slug || '');
+                    setTimeoutSeconds(flow.timeout_seconds ? String(flow.timeout_seconds) : '');
                     setShowSlugWarning(false);
                     setIsEditing(false);
                   }}
@@ -200,6 +222,12 @@ export function FlowDetail({ flow }: FlowDetailProps) {
                 <span>Slug: <code className="text-xs">{flow.slug}</code></span>
               </>
             )}
+            {flow.timeout_seconds && (
+              <>
+                <Separator orientation="vertical" className="h-4" />
+                <span>Timeout: {flow.timeout_seconds}s</span>
+              </>
+            )}
             <Separator orientation="vertical" className="h-4" />
             <span>{flow.prompts?.length || 0} prompt{(flow.prompts?.length || 0) !== 1 ? 's' : ''}</span>
           </div>
@@ -223,6 +251,7 @@ export function FlowDetail({ flow }: FlowDetailProps) {
                 key={prompt.id}
                 prompt={prompt}
                 index={index}
+                flowPrompts={flow.prompts}
                 onDelete={() => handleDeletePrompt(prompt.id)}
               />
             ))}
@@ -245,6 +274,9 @@ export function FlowDetail({ flow }: FlowDetailProps) {
         )}
       </div>
 
+      {/* Schedules Section */}
+      <FlowSchedules flowId={flow.id} />
+
       {/* New Prompt Dialog */}
       <NewPromptDialog
         flowId={flow.id}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Clock, History, Pause, Play, Plus, Trash2 } from 'lucide-react';
+import { Run, RunStatus, Schedule } from '@/types/database';
+import { NewScheduleDialog } from './new-schedule-dialog';
+import { toast } from 'sonner';
+
+interface FlowSchedulesProps {
+  flowId: string;
+}
+
+type ScheduleRun = Pick<Run, 'id' | 'status' | 'created_at' | 'completed_at'>;
+
+const runStatusColors: Record<RunStatus, string> = {
+  pending: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  completed: 'bg-green-500/10 text-green-500 border-green-500/20',
+  failed: 'bg-red-500/10 text-red-500 border-red-500/20',
+  'timed-out': 'bg-orange-500/10 text-orange-500 border-orange-500/20',
+  cancelled: 'bg-muted text-muted-foreground border-muted',
+};
+
+export function FlowSchedules({ flowId }: FlowSchedulesProps) {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showNewSchedule, setShowNewSchedule] = useState(false);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [history, setHistory] = useState<ScheduleRun[]>([]);
+
+  useEffect(() => {
+    const fetchSchedules = async () => {
+      try {
+        const response = await fetch(`/api/schedules?flow_id=${flowId}`);
+        if (response.ok) {
+          setSchedules(await response.json());
+        }
+      } catch (error) {
+        console.error('Error fetching schedules:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchSchedules();
+  }, [flowId]);
+
+  const handleToggleStatus = async (schedule: Schedule) => {
+    const status = schedule.status === 'active' ? 'paused' : 'active';
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ schedule: { status } }),
+      });
+
+      if (response.ok) {
+        const updated = await response.json();
+        setSchedules((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+        toast.success(status === 'active' ? 'Schedule resumed' : 'Schedule paused');
+      } else {
+        toast.error('Failed to update schedule');
+      }
+    } catch {
+      toast.error('Failed to update schedule');
+    }
+  };
+
+  const handleDelete = async (scheduleId: string) => {
+    if (!confirm('Are you sure you want to delete this schedule?')) return;
+
+    try {
+      const response = await fetch(`/api/schedules/${scheduleId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        setSchedules((prev) => prev.filter((s) => s.id !== scheduleId));
+        toast.success('Schedule deleted');
+      } else {
+        toast.error('Failed to delete schedule');
+      }
+    } catch {
+      toast.error('Failed to delete schedule');
+    }
+  };
+
+  const handleToggleHistory = async (scheduleId: string) => {
+    if (historyId === scheduleId) {
+      setHistoryId(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/schedules/${scheduleId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setHistory(data.runs || []);
+        setHistoryId(scheduleId);
+      } else {
+        toast.error('Failed to load run history');
+      }
+    } catch {
+      toast.error('Failed to load run history');
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Schedules</h2>
+        <Button size="sm" variant="outline" onClick={() => setShowNewSchedule(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Schedule
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading schedules...</p>
+      ) : schedules.length > 0 ? (
+        <div className="space-y-2">
+          {schedules.map((schedule) => (
+            <Card key={schedule.id}>
+              <CardContent className="py-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <Clock className="h-4 w-4 text-muted-foreground" />
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{schedule.name || 'Untitled schedule'}</span>
+                        <code className="text-xs text-muted-foreground">{schedule.cron}</code>
+                        <Badge variant={schedule.status === 'active' ? 'default' : 'secondary'}>
+                          {schedule.status}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {schedule.status === 'active' && schedule.next_run_at
+                          ? `Next run ${formatDistanceToNow(new Date(schedule.next_run_at), { addSuffix: true })}`
+                          : 'Paused'}
+                        {schedule.last_run_at &&
+                          ` · Last run ${formatDistanceToNow(new Date(schedule.last_run_at), { addSuffix: true })}`}
+                        {schedule.media_folder && ` · Folder: ${schedule.media_folder}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => handleToggleHistory(schedule.id)}>
+                      <History className="mr-2 h-4 w-4" />
+                      History
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleToggleStatus(schedule)}>
+                      {schedule.status === 'active' ? (
+                        <>
+                          <Pause className="mr-2 h-4 w-4" />
+                          Pause
+                        </>
+                      ) : (
+                        <>
+                          <Play className="mr-2 h-4 w-4" />
+                          Resume
+                        </>
+                      )}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(schedule.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {historyId === schedule.id && (
+                  <div className="mt-4 border-t pt-4">
+                    {history.length > 0 ? (
+                      <ul className="space-y-1 text-sm">
+                        {history.map((run) => (
+                          <li key={run.id} className="flex items-center gap-3">
+                            <Badge variant="outline" className={runStatusColors[run.status]}>
+                              {run.status}
+                            </Badge>
+                            <Link href={`/runs/${run.id}`} className="font-mono text-xs hover:underline">
+                              {run.id}
+                            </Link>
+                            <span className="text-xs text-muted-foreground">
+                              {formatDistanceToNow(new Date(run.created_at), { addSuffix: true })}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No runs yet</p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No schedules. Add one to run this flow on a cron schedule.
+        </p>
+      )}
+
+      <NewScheduleDialog
+        flowId={flowId}
+        open={showNewSchedule}
+        onOpenChange={setShowNewSchedule}
+        onCreated={(schedule) => setSchedules((prev) => [schedule, ...prev])}
+      />
+    </div>
+  );
+}
@@ -40,7 +40,9 @@ export function NewPromptDialog({ flowId, open, onOpenChange }: NewPromptDialogP
 
   const { models, isLoading: modelsLoading } = useModels({ endpointType });
   const providers = getProvidersFromModels(models);
-  const providerModels = getModelsForProvider(models, provider.toLowerCase());
+  // Providers added in settings can have a slug that differs from their name
+  const selectedProvider = providers.find((p) => p.name === provider);
+  const providerModels = getModelsForProvider(models, selectedProvider?.slug ?? provider.toLowerCase());
 
   useEffect(() => {
     if (models.length > 0) {
@@ -134,6 +136,10 @@ export function NewPromptDialog({ flowId, open, onOpenChange }: NewPromptDialogP
                   <SelectItem value="ImageToImage">Image to Image</SelectItem>
                   <SelectItem value="ImageToVideo">Image to Video</SelectItem>
                   <SelectItem value="VideoToVideo">Video to Video</SelectItem>
+                  <SelectItem value="AudioToText">Audio to Text</SelectItem>
+                  <SelectItem value="TextToAudio">Text to Audio</SelectItem>
+                  <SelectItem value="Router">Router</SelectItem>
+                  <SelectItem value="ImageTransform">Image Transform</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -0,0 +1,173 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { Schedule } from '@/types/database';
+import { toast } from 'sonner';
+
+interface NewScheduleDialogProps {
+  flowId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (schedule: Schedule) => void;
+}
+
+export function NewScheduleDialog({ flowId, open, onOpenChange, onCreated }: NewScheduleDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [name, setName] = useState('');
+  const [cron, setCron] = useState('0 2 * * *');
+  const [message, setMessage] = useState('');
+  const [variables, setVariables] = useState('');
+  const [attachmentUrls, setAttachmentUrls] = useState('');
+  const [mediaFolder, setMediaFolder] = useState('');
+
+  const handleSubmit = async () => {
+    let parsedVariables: Record<string, unknown> = {};
+    if (variables.trim()) {
+      try {
+        parsedVariables = JSON.parse(variables);
+      } catch {
+        toast.error('Variables must be valid JSON');
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          schedule: {
+            flow_id: flowId,
+            name: name || undefined,
+            cron,
+            message: message || undefined,
+            variables: parsedVariables,
+            attachment_urls: attachmentUrls.split('\n').map((url) => url.trim()).filter(Boolean),
+            media_folder: mediaFolder || undefined,
+          },
+        }),
+      });
+
+      if (response.ok) {
+        toast.success('Schedule created');
+        onCreated(await response.json());
+        onOpenChange(false);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to create schedule');
+      }
+    } catch {
+      toast.error('Failed to create schedule');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Schedule</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">Name (optional)</Label>
+              <Input
+                id="schedule-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Nightly regeneration"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-cron">Cron (UTC)</Label>
+              <Input
+                id="schedule-cron"
+                value={cron}
+                onChange={(e) => setCron(e.target.value)}
+                placeholder="0 2 * * *"
+                className="font-mono"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-message">Message (optional)</Label>
+            <Textarea
+              id="schedule-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-variables">Variables (JSON, optional)</Label>
+            <Textarea
+              id="schedule-variables"
+              value={variables}
+              onChange={(e) => setVariables(e.target.value)}
+              rows={3}
+              placeholder='{"style": "watercolor"}'
+              className="font-mono text-sm"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-attachments">Attachment URLs (one per line, optional)</Label>
+            <Textarea
+              id="schedule-attachments"
+              value={attachmentUrls}
+              onChange={(e) => setAttachmentUrls(e.target.value)}
+              rows={2}
+              className="font-mono text-sm"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-folder">Library folder (optional)</Label>
+            <Input
+              id="schedule-folder"
+              value={mediaFolder}
+              onChange={(e) => setMediaFolder(e.target.value)}
+              placeholder="products"
+            />
+            <p className="text-xs text-muted-foreground">
+              Every item in this folder is added to each run&apos;s attachments
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !cron.trim()}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Creating...
+              </>
+            ) : (
+              'Create Schedule'
+            )}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,7 +5,9 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -27,6 +29,10 @@ import {
   MessageSquare,
   Image,
   Video,
+  GitBranch,
+  AudioLines,
+  Volume2,
+  Crop,
 } from 'lucide-react';
 import { Prompt, EndpointType, Provider } from '@/types/database';
 import { toast } from 'sonner';
@@ -35,14 +41,26 @@ import { useModels, getProvidersFromModels, getModelsForProvider } from '@/hooks
 interface PromptCardProps {
   prompt: Prompt;
   index: number;
+  flowPrompts: Prompt[];
   onDelete: () => void;
 }
 
+type DependencyMode = 'previous' | 'input' | 'custom';
+
+function getDependencyMode(dependsOn: string[] | null): DependencyMode {
+  if (dependsOn === null || dependsOn === undefined) return 'previous';
+  return dependsOn.length === 0 ? 'input' : 'custom';
+}
+
 const endpointIcons: Record<string, React.ReactNode> = {
   Chat: <MessageSquare className="h-4 w-4" />,
   ImageToImage: <Image className="h-4 w-4" />,
   ImageToVideo: <Video className="h-4 w-4" />,
   VideoToVideo: <Video className="h-4 w-4" />,
+  AudioToText: <AudioLines className="h-4 w-4" />,
+  TextToAudio: <Volume2 className="h-4 w-4" />,
+  Router: <GitBranch className="h-4 w-4" />,
+  ImageTransform: <Crop className="h-4 w-4" />,
 };
 
 const endpointColors: Record<string, string> = {
@@ -50,9 +68,13 @@ const endpointColors: Record<string, string> = {
   ImageToImage: 'bg-purple-500/10 text-purple-500 border-purple-500/20',
   ImageToVideo: 'bg-pink-500/10 text-pink-500 border-pink-500/20',
   VideoToVideo: 'bg-orange-500/10 text-orange-500 border-orange-500/20',
+  AudioToText: 'bg-amber-500/10 text-amber-500 border-amber-500/20',
+  TextToAudio: 'bg-rose-500/10 text-rose-500 border-rose-500/20',
+  Router: 'bg-teal-500/10 text-teal-500 border-teal-500/20',
+  ImageTransform: 'bg-cyan-500/10 text-cyan-500 border-cyan-500/20',
 };
 
-export function PromptCard({ prompt, index, onDelete }: PromptCardProps) {
+export function PromptCard({ prompt, index, flowPrompts, onDelete }: PromptCardProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -65,12 +87,47 @@ export function PromptCard({ prompt, index, onDelete }: PromptCardProps) {
     foreground_prompt: prompt.foreground_prompt || '',
     negative_prompt: prompt.negative_prompt || '',
     tools: JSON.stringify(prompt.tools || [], null, 2),
+    response_schema: prompt.response_schema ? JSON.stringify(prompt.response_schema, null, 2) : '',
+    max_tool_iterations: prompt.max_tool_iterations ? String(prompt.max_tool_iterations) : '',
+    history_token_budget: prompt.history_token_budget != null ? String(prompt.history_token_budget) : '',
     video_duration: prompt.video_duration || 8,
+    voice: prompt.voice || '',
+    router_rules: prompt.router_rules ? JSON.stringify(prompt.router_rules, null, 2) : '',
+    step_key: prompt.step_key || '',
+    retry_policy: prompt.retry_policy ? JSON.stringify(prompt.retry_policy, null, 2) : '',
+    mock_options: prompt.mock_options ? JSON.stringify(prompt.mock_options, null, 2) : '',
+    video_options: prompt.video_options ? JSON.stringify(prompt.video_options, null, 2) : '',
+    image_operations: prompt.image_operations ? JSON.stringify(prompt.image_operations, null, 2) : '',
+    map_over_attachments: prompt.map_over_attachments || false,
+    map_concurrency: prompt.map_concurrency ? String(prompt.map_concurrency) : '',
+    cache_results: prompt.cache_results || false,
+    dependency_mode: getDependencyMode(prompt.depends_on),
+    depends_on: prompt.depends_on || [],
   });
 
+  const otherPrompts = flowPrompts.filter((p) => p.id !== prompt.id);
+
+  const stepLabel = (promptId: string) => {
+    const stepIndex = flowPrompts.findIndex((p) => p.id === promptId);
+    if (stepIndex === -1) return 'Unknown step';
+    const step = flowPrompts[stepIndex];
+    return `Step ${stepIndex + 1} · ${step.step_key || step.endpoint_type}`;
+  };
+
+  const toggleDependency = (promptId: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      depends_on: prev.depends_on.includes(promptId)
+        ? prev.depends_on.filter((id) => id !== promptId)
+        : [...prev.depends_on, promptId],
+    }));
+  };
+
   const { models, isLoading: modelsLoading } = useModels({ endpointType: formData.endpoint_type });
   const providers = getProvidersFromModels(models);
-  const providerModels = getModelsForProvider(models, formData.selected_provider.toLowerCase());
+  // Providers added in settings can have a slug that differs from their name
+  const selectedProvider = providers.find((p) => p.name === formData.selected_provider);
+  const providerModels = getModelsForProvider(models, selectedProvider?.slug ?? formData.selected_provider.toLowerCase());
 
   useEffect(() => {
     if (models.length > 0) {
@@ -105,6 +162,72 @@ export function PromptCard({ prompt, index, onDelete }: PromptCardProps) {
         return;
       }
 
+      let responseSchema = null;
+      if (formData.endpoint_type === 'Chat' && formData.response_schema.trim()) {
+        try {
+          responseSchema = JSON.parse(formData.response_schema);
+        } catch {
+          toast.error('Invalid JSON in response schema field');
+          setIsSaving(false);
+          return;
+        }
+      }
+
+      let routerRules = null;
+      if (formData.endpoint_type === 'Router' && formData.router_rules.trim()) {
+        try {
+          routerRules = JSON.parse(formData.router_rules);
+        } catch {
+          toast.error('Invalid JSON in routing rules field');
+          setIsSaving(false);
+          return;
+        }
+      }
+
+      let retryPolicy = null;
+      if (formData.retry_policy.trim()) {
+        try {
+          retryPolicy = JSON.parse(formData.retry_policy);
+        } catch {
+          toast.error('Invalid JSON in retry policy field');
+          setIsSaving(false);
+          return;
+        }
+      }
+
+      let mockOptions = null;
+      if (formData.selected_provider === 'Mock' && formData.mock_options.trim()) {
+        try {
+          mockOptions = JSON.parse(formData.mock_options);
+        } catch {
+          toast.error('Invalid JSON in mock options field');
+          setIsSaving(false);
+          return;
+        }
+      }
+
+      let videoOptions = null;
+      if (formData.endpoint_type === 'VideoToVideo' && formData.video_options.trim()) {
+        try {
+          videoOptions = JSON.parse(formData.video_options);
+        } catch {
+          toast.error('Invalid JSON in video options field');
+          setIsSaving(false);
+          return;
+        }
+      }
+
+      let imageOperations = null;
+      if (formData.endpoint_type === 'ImageTransform' && formData.image_operations.trim()) {
+        try {
+          imageOperations = JSON.parse(formData.image_operations);
+        } catch {
+          toast.error('Invalid JSON in image operations field');
+          setIsSaving(false);
+          return;
+        }
+      }
+
       const response = await fetch(`/api/prompts/${prompt.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
@@ -118,7 +241,32 @@ export function PromptCard({ prompt, index, onDelete }: PromptCardProps) {
             foreground_prompt: formData.foreground_prompt || null,
             negative_prompt: formData.negative_prompt || null,
             tools,
+            response_schema: responseSchema,
+            max_tool_iterations: formData.endpoint_type === 'Chat' && formData.max_tool_iterations
+              ? parseInt(formData.max_tool_iterations, 10)
+              : null,
+            history_token_budget: formData.endpoint_type === 'Chat' && formData.history_token_budget !== ''
+              ? parseInt(formData.history_token_budget, 10)
+              : null,
             video_duration: formData.endpoint_type === 'ImageToVideo' ? formData.video_duration : null,
+            voice: formData.endpoint_type === 'TextToAudio' ? formData.voice.trim() || null : null,
+            router_rules: routerRules,
+            step_key: formData.step_key.trim() || null,
+            retry_policy: retryPolicy,
+            mock_options: mockOptions,
+            video_options: videoOptions,
+            image_operations: imageOperations,
+            map_over_attachments: formData.map_over_attachments,
+            map_concurrency: formData.map_over_attachments && formData.map_concurrency
+              ? parseInt(formData.map_concurrency, 10)
+              : null,
+            cache_results: formData.endpoint_type !== 'Router' && formData.cache_results,
+            depends_on:
+              formData.dependency_mode === 'previous'
+                ? null
+                : formData.dependency_mode === 'input'
+                  ? []
+                  : formData.depends_on,
           },
         }),
       });
@@ -128,7 +276,8 @@ export function PromptCard({ prompt, index, onDelete }: PromptCardProps) {
         setIsEditing(false);
         window.location.reload();
       } else {
-        toast.error('Failed to update prompt');
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to update prompt');
       }
     } catch {
       toast.error('Failed to update prompt');
@@ -155,6 +304,9 @@ export function PromptCard({ prompt, index, onDelete }: PromptCardProps) {
                 <span className="text-sm text-muted-foreground">
                   {prompt.selected_provider} / {prompt.selected_model}
                 </span>
+                {prompt.step_key && (
+                  <code className="text-xs text-muted-foreground">{prompt.step_key}</code>
+                )}
               </div>
               <ChevronDown
                 className={`ml-auto h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`}
@@ -214,6 +366,10 @@ export function PromptCard({ prompt, index, onDelete }: PromptCardProps) {
                         <SelectItem value="ImageToImage">Image to Image</SelectItem>
                         <SelectItem value="ImageToVideo">Image to Video</SelectItem>
                         <SelectItem value="VideoToVideo">Video to Video</SelectItem>
+                        <SelectItem value="AudioToText">Audio to Text</SelectItem>
+                        <SelectItem value="TextToAudio">Text to Audio</SelectItem>
+                        <SelectItem value="Router">Router</SelectItem>
+                        <SelectItem value="ImageTransform">Image Transform</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -272,6 +428,148 @@ export function PromptCard({ prompt, index, onDelete }: PromptCardProps) {
                   </div>
                 </div>
 
+                {/* Step key - lets later templates reference this step's output */}
+                <div className="space-y-2">
+                  <Label>Step Key (optional)</Label>
+                  <Input
+                    value={formData.step_key}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        step_key: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, ''),
+                      }))
+                    }
+                    placeholder="caption"
+                    className="w-[240px] font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Later prompts can use {'{{steps.'}{formData.step_key || 'key'}{'.text}}'} or {'{{steps['}{index}{'].image_url}}'}
+                  </p>
+                </div>
+
+                {/* Dependencies - steps sharing the same dependencies run in parallel */}
+                <div className="space-y-2">
+                  <Label>Runs After</Label>
+                  <Select
+                    value={formData.dependency_mode}
+                    onValueChange={(value) =>
+                      setFormData((prev) => ({ ...prev, dependency_mode: value as DependencyMode }))
+                    }
+                  >
+                    <SelectTrigger className="w-[240px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="previous">Previous step</SelectItem>
+                      <SelectItem value="input">Run input (start immediately)</SelectItem>
+                      <SelectItem value="custom">Selected steps</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {formData.dependency_mode === 'custom' && (
+                    <div className="flex flex-wrap gap-2">
+                      {otherPrompts.map((p) => (
+                        <Button
+                          key={p.id}
+                          type="button"
+                          size="sm"
+                          variant={formData.depends_on.includes(p.id) ? 'default' : 'outline'}
+                          onClick={() => toggleDependency(p.id)}
+                        >
+                          {stepLabel(p.id)}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Steps whose dependencies have finished run in parallel
+                  </p>
+                </div>
+
+                {/* Map mode - run once per attachment */}
+                <div className="space-y-2">
+                  <div className="flex items-center gap-3">
+                    <Switch
+                      checked={formData.map_over_attachments}
+                      onCheckedChange={(checked) =>
+                        setFormData((prev) => ({ ...prev, map_over_attachments: checked }))
+                      }
+                    />
+                    <Label>Run once per attachment</Label>
+                  </div>
+                  {formData.map_over_attachments && (
+                    <div className="flex items-center gap-3">
+                      <Label className="text-sm font-normal text-muted-foreground">Max in parallel</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={formData.map_concurrency}
+                        onChange={(e) =>
+                          setFormData((prev) => ({ ...prev, map_concurrency: e.target.value }))
+                        }
+                        placeholder="4"
+                        className="w-[100px]"
+                      />
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Following a step that also runs per attachment continues each item on its own
+                  </p>
+                </div>
+
+                {/* Result cache - identical requests reuse the stored output */}
+                {formData.endpoint_type !== 'Router' && (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-3">
+                      <Switch
+                        checked={formData.cache_results}
+                        onCheckedChange={(checked) =>
+                          setFormData((prev) => ({ ...prev, cache_results: checked }))
+                        }
+                      />
+                      <Label>Cache results</Label>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Reuse the output of an earlier request with the same model, rendered prompts, settings and inputs
+                    </p>
+                  </div>
+                )}
+
+                {/* Retry policy - blank uses the defaults */}
+                <div className="space-y-2">
+                  <Label>Retry Policy (JSON)</Label>
+                  <Textarea
+                    value={formData.retry_policy}
+                    onChange={(e) =>
+                      setFormData((prev) => ({ ...prev, retry_policy: e.target.value }))
+                    }
+                    rows={3}
+                    className="font-mono text-sm"
+                    placeholder={'{ "max_attempts": 3, "initial_delay_ms": 1000, "retry_on": ["rate_limit", "server_error", "timeout", "network"] }'}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Leave blank for the defaults. Content policy rejections are never retried unless listed.
+                  </p>
+                </div>
+
+                {/* Mock provider - latency and failure injection */}
+                {formData.selected_provider === 'Mock' && (
+                  <div className="space-y-2">
+                    <Label>Mock Options (JSON)</Label>
+                    <Textarea
+                      value={formData.mock_options}
+                      onChange={(e) =>
+                        setFormData((prev) => ({ ...prev, mock_options: e.target.value }))
+                      }
+                      rows={3}
+                      className="font-mono text-sm"
+                      placeholder={'{ "latency_ms": 500, "fail_attempts": 1, "failure_rate": 0.1, "error_status": 503, "text": "..." }'}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Mock steps return canned text and placeholder media without calling a provider
+                    </p>
+                  </div>
+                )}
+
                 {/* Chat endpoint - show system prompt and tools */}
                 {formData.endpoint_type === 'Chat' && (
                   <>
@@ -297,10 +595,71 @@ export function PromptCard({ prompt, index, onDelete }: PromptCardProps) {
                         className="font-mono text-sm"
                         placeholder="[]"
                       />
+                      <p className="text-xs text-muted-foreground">
+                        Add a handler to a tool to execute its calls: {'{ "type": "http", "url": "..." }'} or {'{ "type": "flow", "flow_id": "..." }'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Label className="text-sm font-normal text-muted-foreground">Max tool rounds</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={formData.max_tool_iterations}
+                        onChange={(e) =>
+                          setFormData((prev) => ({ ...prev, max_tool_iterations: e.target.value }))
+                        }
+                        placeholder="5"
+                        className="w-[100px]"
+                      />
+                      <Label className="text-sm font-normal text-muted-foreground">History tokens</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={formData.history_token_budget}
+                        onChange={(e) =>
+                          setFormData((prev) => ({ ...prev, history_token_budget: e.target.value }))
+                        }
+                        placeholder="8000"
+                        className="w-[100px]"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Response Schema (JSON)</Label>
+                      <Textarea
+                        value={formData.response_schema}
+                        onChange={(e) =>
+                          setFormData((prev) => ({ ...prev, response_schema: e.target.value }))
+                        }
+                        rows={4}
+                        className="font-mono text-sm"
+                        placeholder={'{ "type": "object", "properties": { "label": { "type": "string" } }, "required": ["label"] }'}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Optional JSON Schema. The response is validated and returned parsed as data.json.
+                      </p>
                     </div>
                   </>
                 )}
 
+                {/* Router endpoint - show routing rules */}
+                {formData.endpoint_type === 'Router' && (
+                  <div className="space-y-2">
+                    <Label>Routing Rules (JSON)</Label>
+                    <Textarea
+                      value={formData.router_rules}
+                      onChange={(e) =>
+                        setFormData((prev) => ({ ...prev, router_rules: e.target.value }))
+                      }
+                      rows={8}
+                      className="font-mono text-sm"
+                      placeholder={'{\n  "field": "category",\n  "rules": [{ "operator": "equals", "value": "product", "targets": ["<prompt id>"] }],\n  "default_targets": []\n}'}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Evaluated against the previous step&apos;s text. Dependent steps that aren&apos;t targeted are skipped.
+                    </p>
+                  </div>
+                )}
+
                 {/* OpenAI/Gemini image - show simple prompt */}
                 {(formData.endpoint_type === 'ImageToImage' ||
                   formData.endpoint_type === 'ImageToVideo') &&
@@ -343,6 +702,93 @@ export function PromptCard({ prompt, index, onDelete }: PromptCardProps) {
                   </div>
                 )}
 
+                {/* AudioToText - transcription hint */}
+                {formData.endpoint_type === 'AudioToText' && (
+                  <div className="space-y-2">
+                    <Label>Transcription Hint</Label>
+                    <Textarea
+                      value={formData.system_prompt}
+                      onChange={(e) =>
+                        setFormData((prev) => ({ ...prev, system_prompt: e.target.value }))
+                      }
+                      rows={2}
+                      placeholder="Names and terms the audio mentions..."
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Transcribes the first audio input. Chat steps that depend on this one receive the transcript after the run&apos;s message.
+                    </p>
+                  </div>
+                )}
+
+                {/* TextToAudio - voice and delivery */}
+                {formData.endpoint_type === 'TextToAudio' && (
+                  <>
+                    <div className="space-y-2">
+                      <Label>Voice</Label>
+                      <Input
+                        value={formData.voice}
+                        onChange={(e) =>
+                          setFormData((prev) => ({ ...prev, voice: e.target.value }))
+                        }
+                        placeholder="alloy"
+                        className="w-[180px]"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Voice Instructions</Label>
+                      <Textarea
+                        value={formData.system_prompt}
+                        onChange={(e) =>
+                          setFormData((prev) => ({ ...prev, system_prompt: e.target.value }))
+                        }
+                        rows={2}
+                        placeholder="Speak calmly, like a museum guide..."
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Speaks the previous step&apos;s text, or the run&apos;s message for a first step
+                      </p>
+                    </div>
+                  </>
+                )}
+
+                {/* VideoToVideo - FFmpeg trim, crossfade and scale */}
+                {formData.endpoint_type === 'VideoToVideo' && formData.selected_provider !== 'Mock' && (
+                  <div className="space-y-2">
+                    <Label>Video Options (JSON)</Label>
+                    <Textarea
+                      value={formData.video_options}
+                      onChange={(e) =>
+                        setFormData((prev) => ({ ...prev, video_options: e.target.value }))
+                      }
+                      rows={3}
+                      className="font-mono text-sm"
+                      placeholder={'{ "trim_start": 0.5, "trim_end": 0, "crossfade": 1, "width": 1280, "height": 720, "strip_audio": false }'}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Joins the outputs of the steps this one depends on, or the run&apos;s videos for a first step, in order
+                    </p>
+                  </div>
+                )}
+
+                {/* ImageTransform - resize, crop, pad, overlay and convert in order */}
+                {formData.endpoint_type === 'ImageTransform' && (
+                  <div className="space-y-2">
+                    <Label>Image Operations (JSON)</Label>
+                    <Textarea
+                      value={formData.image_operations}
+                      onChange={(e) =>
+                        setFormData((prev) => ({ ...prev, image_operations: e.target.value }))
+                      }
+                      rows={8}
+                      className="font-mono text-sm"
+                      placeholder={'[\n  { "type": "resize", "width": 2048, "height": 2048 },\n  { "type": "crop", "aspect_ratio": "4:5" },\n  { "type": "pad", "aspect_ratio": "1:1", "color": "#ffffff" },\n  { "type": "overlay", "media_id": "img_...", "position": "bottom-right", "scale": 0.2, "margin": 32 },\n  { "type": "text", "text": "{{product_name}}", "position": "bottom-left", "margin": 32 },\n  { "type": "convert", "format": "webp", "quality": 85 }\n]'}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Applied in order to the previous step&apos;s image, or the run&apos;s first attachment for a first step. Overlays use library images by ID.
+                    </p>
+                  </div>
+                )}
+
                 {/* Stability - show background/foreground/negative prompts */}
                 {(formData.endpoint_type === 'ImageToImage' ||
                   formData.endpoint_type === 'ImageToVideo') &&
@@ -450,6 +896,76 @@ export function PromptCard({ prompt, index, onDelete }: PromptCardProps) {
                   </div>
                 )}
 
+                {prompt.router_rules && (
+                  <div>
+                    <p className="mb-1 text-sm font-medium">Routing Rules</p>
+                    <div className="rounded-lg bg-muted p-2">
+                      <pre className="text-xs">
+                        {JSON.stringify(prompt.router_rules, null, 2)}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+
+                {prompt.response_schema && (
+                  <div>
+                    <p className="mb-1 text-sm font-medium">Response Schema</p>
+                    <div className="rounded-lg bg-muted p-2">
+                      <pre className="text-xs">
+                        {JSON.stringify(prompt.response_schema, null, 2)}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+
+                {prompt.retry_policy && (
+                  <div>
+                    <p className="mb-1 text-sm font-medium">Retry Policy</p>
+                    <div className="rounded-lg bg-muted p-2">
+                      <pre className="text-xs">
+                        {JSON.stringify(prompt.retry_policy, null, 2)}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+
+                {prompt.cache_results && (
+                  <div>
+                    <p className="mb-1 text-sm font-medium">Result Cache</p>
+                    <div className="rounded-lg bg-muted p-2">
+                      <p className="text-sm">Identical requests reuse the stored output</p>
+                    </div>
+                  </div>
+                )}
+
+                {prompt.map_over_attachments && (
+                  <div>
+                    <p className="mb-1 text-sm font-medium">Map</p>
+                    <div className="rounded-lg bg-muted p-2">
+                      <p className="text-sm">
+                        Once per attachment, up to {prompt.map_concurrency || 4} in parallel
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {prompt.depends_on && (
+                  <div>
+                    <p className="mb-1 text-sm font-medium">Runs After</p>
+                    <div className="flex flex-wrap gap-1">
+                      {prompt.depends_on.length > 0 ? (
+                        prompt.depends_on.map((id) => (
+                          <Badge key={id} variant="secondary">
+                            {stepLabel(id)}
+                          </Badge>
+                        ))
+                      ) : (
+                        <Badge variant="secondary">Run input</Badge>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {prompt.endpoint_type === 'ImageToVideo' && prompt.video_duration && (
                   <div>
                     <p className="mb-1 text-sm font-medium">Video Duration</p>
@@ -463,6 +979,7 @@ export function PromptCard({ prompt, index, onDelete }: PromptCardProps) {
                   !prompt.background_prompt &&
                   !prompt.foreground_prompt &&
                   !prompt.negative_prompt &&
+                  !prompt.router_rules &&
                   (!prompt.tools || prompt.tools.length === 0) && (
                     <p className="text-sm text-muted-foreground">
                       No configuration set for this prompt
@@ -14,6 +14,7 @@ import {
   LogOut,
   ChevronUp,
   Image,
+  MessageSquare,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -29,6 +30,7 @@ const navigation = [
   { name: 'Library', href: '/library', icon: Image },
   { name: 'Runs', href: '/runs', icon: Play },
   { name: 'Flows', href: '/flows', icon: Workflow },
+  { name: 'Conversations', href: '/conversations', icon: MessageSquare },
 ];
 
 export function Sidebar() {
@@ -6,6 +6,8 @@ import { useRouter } from 'next/navigation';
 import { formatDistanceToNow } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import {
   Table,
   TableBody,
@@ -14,7 +16,7 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { ArrowLeft, Trash2, Copy, Check, Download, Film, Upload, Sparkles, ExternalLink } from 'lucide-react';
+import { ArrowLeft, Trash2, Copy, Check, Download, Film, Music, Upload, Sparkles, ExternalLink } from 'lucide-react';
 import { toast } from 'sonner';
 import type { Media } from '@/lib/db/schema';
 import type { MediaUsage } from '@/app/(app)/library/[id]/page';
@@ -35,6 +37,8 @@ export function MediaDetail({ media, usage }: MediaDetailProps) {
   const router = useRouter();
   const [isDeleting, setIsDeleting] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [folder, setFolder] = useState(media.folder || '');
+  const [isSavingFolder, setIsSavingFolder] = useState(false);
 
   const handleDelete = async () => {
     if (!confirm('Are you sure you want to delete this media?')) return;
@@ -58,6 +62,28 @@ export function MediaDetail({ media, usage }: MediaDetailProps) {
     }
   };
 
+  const handleSaveFolder = async () => {
+    setIsSavingFolder(true);
+    try {
+      const response = await fetch(`/api/media/${media.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ folder: folder.trim() || null }),
+      });
+
+      if (response.ok) {
+        toast.success('Folder updated');
+        router.refresh();
+      } else {
+        toast.error('Failed to update folder');
+      }
+    } catch {
+      toast.error('Failed to update folder');
+    } finally {
+      setIsSavingFolder(false);
+    }
+  };
+
   const handleCopyId = async () => {
     await navigator.clipboard.writeText(media.id);
     setCopied(true);
@@ -132,6 +158,11 @@ export function MediaDetail({ media, usage }: MediaDetailProps) {
                 alt={media.filename}
                 className="max-h-[70vh] max-w-full object-contain rounded-lg shadow-lg"
               />
+            ) : media.type === 'audio' ? (
+              <div className="flex w-full max-w-xl flex-col items-center gap-6 py-12">
+                <Music className="h-16 w-16 text-muted-foreground" />
+                <audio src={media.url} controls className="w-full" />
+              </div>
             ) : (
               <div className="relative">
                 <video
@@ -189,6 +220,26 @@ export function MediaDetail({ media, usage }: MediaDetailProps) {
                   </dd>
                 </div>
               </dl>
+              <div className="mt-4 pt-4 border-t">
+                <Label htmlFor="folder" className="text-sm font-normal text-muted-foreground">Folder</Label>
+                <div className="mt-2 flex gap-2">
+                  <Input
+                    id="folder"
+                    value={folder}
+                    onChange={(e) => setFolder(e.target.value)}
+                    placeholder="No folder"
+                    className="h-8"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleSaveFolder}
+                    disabled={isSavingFolder || folder.trim() === (media.folder || '')}
+                  >
+                    Save
+                  </Button>
+                </div>
+              </div>
               <div className="mt-4 pt-4 border-t">
                 <dt className="text-sm text-muted-foreground mb-2">URL</dt>
                 <p className="text-xs text-muted-foreground break-all font-mono bg-muted p-2 rounded">
@@ -9,7 +9,7 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Loader2, Check, Search, Film } from 'lucide-react';
+import { Loader2, Check, Search, Film, Music } from 'lucide-react';
 import type { Media } from '@/lib/db/schema';
 
 interface MediaPickerProps {
@@ -123,6 +123,10 @@ export function MediaPicker({ open, onOpenChange, onSelect, multiple = true }: M
                     <div className="w-full h-full bg-muted flex items-center justify-center">
                       <Film className="h-8 w-8 text-muted-foreground" />
                     </div>
+                  ) : item.type === 'audio' ? (
+                    <div className="w-full h-full bg-muted flex items-center justify-center">
+                      <Music className="h-8 w-8 text-muted-foreground" />
+                    </div>
                   ) : (
                     <img
                       src={item.url}
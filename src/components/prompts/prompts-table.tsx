@@ -12,7 +12,7 @@ import {
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Prompt } from '@/types/database';
-import { MessageSquare, Image, Video } from 'lucide-react';
+import { MessageSquare, Image, Video, AudioLines, Volume2, Crop } from 'lucide-react';
 
 interface PromptsTableProps {
   prompts: Array<Prompt & { flow?: { id: string; name: string } | null }>;
@@ -23,6 +23,9 @@ const endpointIcons: Record<string, React.ReactNode> = {
   ImageToImage: <Image className="h-4 w-4" />,
   ImageToVideo: <Video className="h-4 w-4" />,
   VideoToVideo: <Video className="h-4 w-4" />,
+  AudioToText: <AudioLines className="h-4 w-4" />,
+  TextToAudio: <Volume2 className="h-4 w-4" />,
+  ImageTransform: <Crop className="h-4 w-4" />,
 };
 
 const endpointColors: Record<string, string> = {
@@ -30,6 +33,9 @@ const endpointColors: Record<string, string> = {
   ImageToImage: 'bg-purple-500/10 text-purple-500 border-purple-500/20',
   ImageToVideo: 'bg-pink-500/10 text-pink-500 border-pink-500/20',
   VideoToVideo: 'bg-orange-500/10 text-orange-500 border-orange-500/20',
+  AudioToText: 'bg-amber-500/10 text-amber-500 border-amber-500/20',
+  TextToAudio: 'bg-rose-500/10 text-rose-500 border-rose-500/20',
+  ImageTransform: 'bg-cyan-500/10 text-cyan-500 border-cyan-500/20',
 };
 
 export function PromptsTable({ prompts }: PromptsTableProps) {
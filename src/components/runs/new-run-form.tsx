@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -14,10 +15,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { ArrowLeft, Loader2, Upload, X, ImageIcon, FolderOpen } from 'lucide-react';
+import { ArrowLeft, Loader2, Upload, X, ImageIcon, FolderOpen, Music } from 'lucide-react';
 import Link from 'next/link';
 import { toast } from 'sonner';
 import { MediaPicker } from '@/components/library/media-picker';
+import type { RunEstimate, Range } from '@/lib/execution/estimate';
 
 interface Flow {
   id: string;
@@ -36,12 +38,15 @@ export function NewRunForm({ flows }: NewRunFormProps) {
   const [flowId, setFlowId] = useState<string>(searchParams.get('flow_id') || '');
   const [message, setMessage] = useState('');
   const [webhookUrl, setWebhookUrl] = useState('');
+  const [bypassCache, setBypassCache] = useState(false);
   const [variables, setVariables] = useState('{}');
   const [attachments, setAttachments] = useState<{ id: string | null; url: string }[]>([]);
   const [newAttachmentUrl, setNewAttachmentUrl] = useState('');
   const [isUploading, setIsUploading] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [showMediaPicker, setShowMediaPicker] = useState(false);
+  const [estimate, setEstimate] = useState<RunEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
 
   const uploadFile = async (file: File): Promise<{ id: string; url: string } | null> => {
     const formData = new FormData();
@@ -71,10 +76,10 @@ export function NewRunForm({ flows }: NewRunFormProps) {
     setIsDragging(false);
 
     const files = Array.from(e.dataTransfer.files).filter(f =>
-      f.type.startsWith('image/') || f.type.startsWith('video/')
+      f.type.startsWith('image/') || f.type.startsWith('video/') || f.type.startsWith('audio/')
     );
     if (files.length === 0) {
-      toast.error('Please drop image or video files');
+      toast.error('Please drop image, video or audio files');
       return;
     }
 
@@ -174,6 +179,7 @@ export function NewRunForm({ flows }: NewRunFormProps) {
             variables: parsedVariables,
             attachment_urls: attachmentUrls.length > 0 ? attachmentUrls : undefined,
             input_media_ids: inputMediaIds.length > 0 ? inputMediaIds : undefined,
+            bypass_cache: bypassCache || undefined,
           },
         }),
       });
@@ -193,6 +199,54 @@ export function NewRunForm({ flows }: NewRunFormProps) {
     }
   };
 
+  const handleEstimate = async () => {
+    if (!flowId) {
+      toast.error('Please select a flow');
+      return;
+    }
+
+    let parsedVariables = {};
+    try {
+      parsedVariables = JSON.parse(variables);
+    } catch {
+      toast.error('Invalid JSON in variables field');
+      return;
+    }
+
+    setIsEstimating(true);
+
+    try {
+      const response = await fetch('/api/runs/estimate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          run: {
+            flow_id: flowId,
+            message: message || undefined,
+            variables: parsedVariables,
+            attachment_urls: attachments.map(a => a.url),
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to estimate run');
+      }
+
+      setEstimate(await response.json());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to estimate run');
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
+  const formatCost = (cost: Range) =>
+    cost.min === cost.max
+      ? `$${cost.min.toFixed(4)}`
+      : `$${cost.min.toFixed(4)} - $${cost.max.toFixed(4)}`;
+
   const selectedFlow = flows.find((f) => f.id === flowId);
 
   return (
@@ -261,12 +315,12 @@ export function NewRunForm({ flows }: NewRunFormProps) {
                 <>
                   <ImageIcon className="mx-auto h-8 w-8 text-muted-foreground" />
                   <p className="mt-2 text-sm text-muted-foreground">
-                    Drag and drop images here, or{' '}
+                    Drag and drop images or audio here, or{' '}
                     <label className="cursor-pointer text-primary hover:underline">
                       browse
                       <input
                         type="file"
-                        accept="image/*"
+                        accept="image/*,audio/*"
                         multiple
                         className="hidden"
                         onChange={handleFileSelect}
@@ -301,14 +355,20 @@ export function NewRunForm({ flows }: NewRunFormProps) {
               <div className="mt-2 flex flex-wrap gap-2">
                 {attachments.map((attachment, index) => (
                   <div key={index} className="relative group">
-                    <img
-                      src={attachment.url}
-                      alt={`Attachment ${index + 1}`}
-                      className="h-20 w-20 rounded border object-cover"
-                      onError={(e) => {
-                        (e.target as HTMLImageElement).src = '';
-                      }}
-                    />
+                    {attachment.id?.startsWith('aud_') ? (
+                      <div className="flex h-20 w-20 items-center justify-center rounded border bg-muted">
+                        <Music className="h-8 w-8 text-muted-foreground" />
+                      </div>
+                    ) : (
+                      <img
+                        src={attachment.url}
+                        alt={`Attachment ${index + 1}`}
+                        className="h-20 w-20 rounded border object-cover"
+                        onError={(e) => {
+                          (e.target as HTMLImageElement).src = '';
+                        }}
+                      />
+                    )}
                     <button
                       type="button"
                       onClick={() => handleRemoveAttachment(index)}
@@ -375,8 +435,46 @@ export function NewRunForm({ flows }: NewRunFormProps) {
             </p>
           </div>
 
+          {/* Result cache */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <Switch id="bypassCache" checked={bypassCache} onCheckedChange={setBypassCache} />
+              <Label htmlFor="bypassCache">Skip result cache</Label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Call the provider even for steps whose output is cached
+            </p>
+          </div>
+
+          {/* Cost estimate preview */}
+          {estimate && estimate.flow_id === flowId && (
+            <div className="rounded-lg border bg-muted/50 p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">Estimated Cost</p>
+                <p className="text-sm font-mono">{formatCost(estimate.total.cost)}</p>
+              </div>
+              <div className="space-y-1">
+                {estimate.steps.map((step) => (
+                  <div key={step.prompt_id} className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      {step.step_key || step.endpoint_type} · {step.model}
+                    </span>
+                    <span className="font-mono">{step.cost ? formatCost(step.cost) : 'No pricing'}</span>
+                  </div>
+                ))}
+              </div>
+              {estimate.warnings.map((warning) => (
+                <p key={warning} className="text-xs text-yellow-600">{warning}</p>
+              ))}
+            </div>
+          )}
+
           {/* Submit Button */}
           <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={handleEstimate} disabled={isEstimating}>
+              {isEstimating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Estimate Cost
+            </Button>
             <Link href="/runs">
               <Button type="button" variant="outline">
                 Cancel
@@ -21,12 +21,19 @@ import {
   Zap,
   CheckCircle2,
   XCircle,
+  MinusCircle,
+  Ban,
+  Play,
   Loader2,
   ChevronRight,
   ChevronDown,
   ImageIcon,
+  GitBranch,
   MessageSquare,
   Video,
+  AudioLines,
+  Volume2,
+  Crop,
   Sparkles,
   DollarSign,
 } from 'lucide-react';
@@ -79,6 +86,20 @@ const statusConfig: Record<RunStatus, { color: string; icon: React.ReactNode; bg
     bg: 'bg-orange-500/10 border-orange-500/20',
     icon: <Clock className="h-4 w-4" />,
   },
+  cancelled: {
+    color: 'text-muted-foreground',
+    bg: 'bg-muted border-muted',
+    icon: <Ban className="h-4 w-4" />,
+  },
+};
+
+const stepStatusConfig: Record<string, { color: string; icon: React.ReactNode; bg: string }> = {
+  ...statusConfig,
+  skipped: {
+    color: 'text-muted-foreground',
+    bg: 'bg-muted border-muted',
+    icon: <MinusCircle className="h-4 w-4" />,
+  },
 };
 
 const endpointIcons: Record<string, React.ReactNode> = {
@@ -86,11 +107,17 @@ const endpointIcons: Record<string, React.ReactNode> = {
   ImageToImage: <ImageIcon className="h-3.5 w-3.5" />,
   ImageToVideo: <Video className="h-3.5 w-3.5" />,
   VideoToVideo: <Video className="h-3.5 w-3.5" />,
+  AudioToText: <AudioLines className="h-3.5 w-3.5" />,
+  TextToAudio: <Volume2 className="h-3.5 w-3.5" />,
+  Router: <GitBranch className="h-3.5 w-3.5" />,
+  ImageTransform: <Crop className="h-3.5 w-3.5" />,
 };
 
 export function RunDetail({ run: initialRun }: RunDetailProps) {
   const [run, setRun] = useState(initialRun);
   const [isRetrying, setIsRetrying] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isResuming, setIsResuming] = useState(false);
   const [openSteps, setOpenSteps] = useState<Record<string, boolean>>({});
 
   // Subscribe to realtime updates
@@ -103,6 +130,7 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
         .from('prompt_runs')
         .select(`
           *,
+          responses(*, outputs(*)),
           prompt:prompts(
             id,
             endpoint_type,
@@ -188,6 +216,50 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
     }
   };
 
+  const handleResume = async () => {
+    setIsResuming(true);
+    try {
+      const response = await fetch(`/api/runs/${run.id}/rerun`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resume: true }),
+      });
+      if (response.ok) {
+        const data = await response.json();
+        toast.success('Resumed run created');
+        window.location.href = data.redirect_url;
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to resume run');
+      }
+    } catch {
+      toast.error('Failed to resume run');
+    } finally {
+      setIsResuming(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      const response = await fetch(`/api/runs/${run.id}/cancel`, {
+        method: 'POST',
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setRun((prev) => ({ ...prev, status: data.status, completed_at: data.completed_at }));
+        toast.success('Run cancelled');
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to cancel run');
+      }
+    } catch {
+      toast.error('Failed to cancel run');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   const calculateTotalCost = (): number => {
     if (!run.prompt_runs) return 0;
     let total = 0;
@@ -258,6 +330,26 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              {run.status === 'pending' && (
+                <Button variant="outline" size="sm" onClick={handleCancel} disabled={isCancelling}>
+                  {isCancelling ? (
+                    <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <Ban className="mr-1.5 h-3.5 w-3.5" />
+                  )}
+                  Cancel
+                </Button>
+              )}
+              {(run.status === 'failed' || run.status === 'cancelled' || run.status === 'timed-out') && (
+                <Button variant="outline" size="sm" onClick={handleResume} disabled={isResuming}>
+                  {isResuming ? (
+                    <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <Play className="mr-1.5 h-3.5 w-3.5" />
+                  )}
+                  Resume
+                </Button>
+              )}
               <Button variant="outline" size="sm" onClick={handleRetry} disabled={isRetrying}>
                 <RefreshCw className={`mr-1.5 h-3.5 w-3.5 ${isRetrying ? 'animate-spin' : ''}`} />
                 Rerun
@@ -277,6 +369,14 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
                 </Link>
               </div>
             )}
+            {run.conversation_id && (
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">Conversation:</span>
+                <Link href={`/conversations/${run.conversation_id}`} className="font-mono text-xs hover:underline">
+                  {run.conversation_id.slice(0, 8)}
+                </Link>
+              </div>
+            )}
             <div className="flex items-center gap-1.5 text-muted-foreground">
               <Clock className="h-3.5 w-3.5" />
               <span>{formatDistanceToNow(new Date(run.created_at), { addSuffix: true })}</span>
@@ -371,9 +471,12 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
         {run.prompt_runs && run.prompt_runs.length > 0 ? (
           <div className="space-y-2">
             {run.prompt_runs.map((pr, index) => {
-              const stepStatus = statusConfig[pr.status as RunStatus] || statusConfig.pending;
+              const stepStatus = stepStatusConfig[pr.status] || stepStatusConfig.pending;
               const hasPrompt = pr.prompt?.system_prompt || pr.prompt?.background_prompt || pr.prompt?.foreground_prompt;
               const isOpen = openSteps[pr.id] || false;
+              const parentSteps = (pr.parent_prompt_run_ids || [])
+                .map((parentId) => run.prompt_runs!.findIndex((p) => p.id === parentId) + 1)
+                .filter((step) => step > 0);
 
               return (
                 <Collapsible key={pr.id} open={isOpen} onOpenChange={() => toggleStep(pr.id)}>
@@ -389,6 +492,12 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
                               <CheckCircle2 className="h-3.5 w-3.5" />
                             ) : pr.status === 'failed' ? (
                               <XCircle className="h-3.5 w-3.5" />
+                            ) : pr.status === 'skipped' ? (
+                              <MinusCircle className="h-3.5 w-3.5" />
+                            ) : pr.status === 'cancelled' ? (
+                              <Ban className="h-3.5 w-3.5" />
+                            ) : pr.status === 'timed-out' ? (
+                              <Clock className="h-3.5 w-3.5" />
                             ) : (
                               index + 1
                             )}
@@ -402,6 +511,16 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
                                 {endpointIcons[pr.prompt?.endpoint_type || '']}
                                 {pr.prompt?.selected_provider}
                               </Badge>
+                              {pr.reused_from_prompt_run_id && (
+                                <Badge variant="outline" className="text-xs h-5" title="Output reused from the source run">
+                                  Reused
+                                </Badge>
+                              )}
+                              {pr.cache_hit && (
+                                <Badge variant="outline" className="text-xs h-5" title="Output reused from the result cache">
+                                  Cached
+                                </Badge>
+                              )}
                               {run.flow?.id && pr.prompt?.id && (
                                 <Link
                                   href={`/flows/${run.flow.id}`}
@@ -413,7 +532,15 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
                                 </Link>
                               )}
                             </div>
-                            <p className="text-xs text-muted-foreground">{pr.prompt?.selected_model}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {pr.prompt?.selected_model}
+                              {pr.map_index !== null && pr.map_index !== undefined && (
+                                <span> · item {pr.map_index + 1}</span>
+                              )}
+                              {parentSteps.length > 0 && (
+                                <span> · after step {parentSteps.join(', ')}</span>
+                              )}
+                            </p>
                           </div>
                         </div>
                         <div className="flex items-center gap-3">
@@ -545,8 +672,8 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
                           </div>
                         )}
 
-                        {/* Response preview for chat */}
-                        {pr.response && pr.prompt?.endpoint_type === 'Chat' && (
+                        {/* Response preview for chat and router decisions */}
+                        {pr.response && (pr.prompt?.endpoint_type === 'Chat' || pr.prompt?.endpoint_type === 'Router') && (
                           <div>
                             <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">Response</p>
                             <div className="rounded-md bg-muted/50 border p-3">
@@ -569,6 +696,62 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
                             </p>
                           </div>
                         )}
+
+                        {/* Tool calls executed by a Chat step */}
+                        {pr.responses && pr.responses.some((r) => r.response_type === 'function_call') && (
+                          <div>
+                            <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">
+                              Tool Calls ({pr.responses.filter((r) => r.response_type === 'function_call').length})
+                            </p>
+                            <div className="space-y-1">
+                              {pr.responses
+                                .filter((r) => r.response_type === 'function_call_output')
+                                .sort((a, b) => a.created_at.localeCompare(b.created_at))
+                                .map((r) => (
+                                  <div key={r.id} className="flex items-center gap-2 text-xs">
+                                    {r.status === 'completed' ? (
+                                      <CheckCircle2 className="h-3 w-3 text-green-600" />
+                                    ) : (
+                                      <XCircle className="h-3 w-3 text-red-600" />
+                                    )}
+                                    <span className="font-mono">{r.name}</span>
+                                    {r.outputs?.[0]?.text && (
+                                      <span className="text-muted-foreground truncate">{r.outputs[0].text}</span>
+                                    )}
+                                  </div>
+                                ))}
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Attempt history - only interesting once a step was retried */}
+                        {pr.attempts && pr.attempts.length > 1 && (
+                          <div>
+                            <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">
+                              Attempts ({pr.attempts.length})
+                            </p>
+                            <div className="space-y-1">
+                              {pr.attempts.map((attempt) => (
+                                <div key={attempt.attempt} className="flex items-center gap-2 text-xs">
+                                  {attempt.status === 'completed' ? (
+                                    <CheckCircle2 className="h-3 w-3 text-green-600" />
+                                  ) : (
+                                    <XCircle className="h-3 w-3 text-red-600" />
+                                  )}
+                                  <span className="font-mono">#{attempt.attempt}</span>
+                                  {attempt.error_class && (
+                                    <Badge variant="secondary" className="text-xs h-5">
+                                      {attempt.error_class.replace('_', ' ')}
+                                    </Badge>
+                                  )}
+                                  {attempt.error && (
+                                    <span className="text-muted-foreground truncate">{attempt.error}</span>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
                     </CollapsibleContent>
                   </div>
@@ -580,7 +763,11 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
           <div className="rounded-lg border bg-card p-8 flex items-center justify-center">
             <div className="flex items-center gap-3 text-muted-foreground">
               <Loader2 className="h-5 w-5 animate-spin" />
-              <span>Waiting for pipeline to start...</span>
+              <span>
+                {!run.dispatched_at && run.queue_position
+                  ? `Queued at position ${run.queue_position}...`
+                  : 'Waiting for pipeline to start...'}
+              </span>
             </div>
           </div>
         ) : (
@@ -601,7 +788,7 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
               <Loader2 className="h-5 w-5 animate-spin" />
               <span>Processing...</span>
             </div>
-          ) : run.data?.image_url || run.data?.video_url ? (
+          ) : run.data?.image_url || run.data?.video_url || run.data?.audio_url ? (
             <div className="space-y-4">
               {/* Media Preview */}
               <div className="flex gap-6">
@@ -664,6 +851,25 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
                     </div>
                   </div>
                 )}
+                {run.data.audio_url && (
+                  <div className="space-y-3">
+                    <audio src={run.data.audio_url} controls className="w-80 max-w-md" />
+                    <div className="flex gap-2">
+                      <a href={run.data.audio_url} target="_blank" rel="noopener noreferrer">
+                        <Button variant="outline" size="sm" className="h-8">
+                          <ExternalLink className="mr-1.5 h-3.5 w-3.5" />
+                          Open
+                        </Button>
+                      </a>
+                      <a href={run.data.audio_url} download>
+                        <Button variant="outline" size="sm" className="h-8">
+                          <Download className="mr-1.5 h-3.5 w-3.5" />
+                          Download
+                        </Button>
+                      </a>
+                    </div>
+                  </div>
+                )}
               </div>
 
               <Separator />
@@ -734,6 +940,11 @@ export function RunDetail({ run: initialRun }: RunDetailProps) {
                 </div>
               </div>
             </div>
+          ) : run.status === 'cancelled' ? (
+            <div className="rounded-md bg-muted border p-4 text-center">
+              <Ban className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+              <p className="text-sm text-muted-foreground font-medium">Run Cancelled</p>
+            </div>
           ) : (
             <p className="text-muted-foreground text-center py-8">No output available</p>
           )}
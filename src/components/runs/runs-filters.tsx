@@ -69,6 +69,7 @@ export function RunsFilters({ flows = [], initialParams = {} }: RunsFiltersProps
           <SelectItem value="completed">Completed</SelectItem>
           <SelectItem value="failed">Failed</SelectItem>
           <SelectItem value="timed-out">Timed Out</SelectItem>
+          <SelectItem value="cancelled">Cancelled</SelectItem>
         </SelectContent>
       </Select>
 
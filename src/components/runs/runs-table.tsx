@@ -19,7 +19,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Eye, MoreHorizontal, RefreshCw, Trash2, Image, Video } from 'lucide-react';
+import { Eye, MoreHorizontal, RefreshCw, Trash2, Image, Video, Music } from 'lucide-react';
 import { RunStatus, TOKEN_PRICING } from '@/types/database';
 import { createClient } from '@/lib/supabase/client';
 
@@ -49,6 +49,7 @@ interface RunWithDetails {
   data: {
     image_url?: string;
     video_url?: string;
+    audio_url?: string;
     text?: string;
     [key: string]: unknown;
   };
@@ -65,6 +66,7 @@ const statusColors: Record<RunStatus, string> = {
   completed: 'bg-green-500/10 text-green-500 border-green-500/20',
   failed: 'bg-red-500/10 text-red-500 border-red-500/20',
   'timed-out': 'bg-orange-500/10 text-orange-500 border-orange-500/20',
+  cancelled: 'bg-muted text-muted-foreground border-muted',
 };
 
 export function RunsTable({ runs: initialRuns }: RunsTableProps) {
@@ -152,8 +154,9 @@ export function RunsTable({ runs: initialRuns }: RunsTableProps) {
     return promptRuns.reduce((sum, pr) => sum + (pr.total_tokens || 0), 0);
   };
 
-  const getOutputType = (data: RunWithDetails['data']): 'image' | 'video' | null => {
+  const getOutputType = (data: RunWithDetails['data']): 'image' | 'video' | 'audio' | null => {
     if (data?.video_url) return 'video';
+    if (data?.audio_url) return 'audio';
     if (data?.image_url) return 'image';
     return null;
   };
@@ -193,6 +196,8 @@ export function RunsTable({ runs: initialRuns }: RunsTableProps) {
               <TableCell>
                 {getOutputType(run.data) === 'video' ? (
                   <Video className="h-4 w-4 text-muted-foreground" />
+                ) : getOutputType(run.data) === 'audio' ? (
+                  <Music className="h-4 w-4 text-muted-foreground" />
                 ) : (
                   <Image className="h-4 w-4 text-muted-foreground" />
                 )}
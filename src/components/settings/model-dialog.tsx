@@ -23,6 +23,8 @@ const ENDPOINT_TYPES: EndpointType[] = [
   'VideoToVideo',
   'AudioToText',
   'TextToAudio',
+  'Router',
+  'ImageTransform',
 ];
 
 interface ModelDialogProps {
@@ -41,6 +43,8 @@ export function ModelDialog({ open, onOpenChange, providerId, model }: ModelDial
   const [defaultParams, setDefaultParams] = useState('{}');
   const [inputPrice, setInputPrice] = useState('');
   const [outputPrice, setOutputPrice] = useState('');
+  const [imagePrice, setImagePrice] = useState('');
+  const [videoSecondPrice, setVideoSecondPrice] = useState('');
 
   const isEditing = !!model;
 
@@ -53,6 +57,8 @@ export function ModelDialog({ open, onOpenChange, providerId, model }: ModelDial
       setDefaultParams(JSON.stringify(model.default_params || {}, null, 2));
       setInputPrice(model.input_price?.toString() || '');
       setOutputPrice(model.output_price?.toString() || '');
+      setImagePrice(model.image_price?.toString() || '');
+      setVideoSecondPrice(model.video_second_price?.toString() || '');
     } else {
       setName('');
       setModelId('');
@@ -61,6 +67,8 @@ export function ModelDialog({ open, onOpenChange, providerId, model }: ModelDial
       setDefaultParams('{}');
       setInputPrice('');
       setOutputPrice('');
+      setImagePrice('');
+      setVideoSecondPrice('');
     }
   }, [model, open]);
 
@@ -107,6 +115,8 @@ export function ModelDialog({ open, onOpenChange, providerId, model }: ModelDial
         default_params: parsedDefaultParams,
         input_price: inputPrice ? parseFloat(inputPrice) : null,
         output_price: outputPrice ? parseFloat(outputPrice) : null,
+        image_price: imagePrice ? parseFloat(imagePrice) : null,
+        video_second_price: videoSecondPrice ? parseFloat(videoSecondPrice) : null,
       };
 
       if (!isEditing) {
@@ -221,6 +231,31 @@ export function ModelDialog({ open, onOpenChange, providerId, model }: ModelDial
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="image_price">Price per Image</Label>
+              <Input
+                id="image_price"
+                type="number"
+                step="0.000001"
+                value={imagePrice}
+                onChange={(e) => setImagePrice(e.target.value)}
+                placeholder="e.g., 0.04"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="video_second_price">Price per Video Second</Label>
+              <Input
+                id="video_second_price"
+                type="number"
+                step="0.000001"
+                value={videoSecondPrice}
+                onChange={(e) => setVideoSecondPrice(e.target.value)}
+                placeholder="e.g., 0.40"
+              />
+            </div>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="default_params">Default Parameters (JSON)</Label>
             <Textarea
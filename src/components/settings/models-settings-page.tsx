@@ -203,6 +203,9 @@ export function ModelsSettingsPage({ providers: initialProviders }: ModelsSettin
                           <Badge variant={provider.enabled ? 'default' : 'secondary'}>
                             {provider.enabled ? 'Enabled' : 'Disabled'}
                           </Badge>
+                          {provider.adapter && (
+                            <Badge variant="outline">{provider.adapter}</Badge>
+                          )}
                           <span className="text-sm text-muted-foreground">
                             {provider.models?.length || 0} models
                           </span>
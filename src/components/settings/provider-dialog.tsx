@@ -10,9 +10,19 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
-import type { ProviderRecord } from '@/types/database';
+import type { ProviderAdapter, ProviderRecord } from '@/types/database';
+
+// Select value for providers that use their own runner
+const NO_ADAPTER = 'none';
 
 interface ProviderDialogProps {
   open: boolean;
@@ -25,6 +35,10 @@ export function ProviderDialog({ open, onOpenChange, provider }: ProviderDialogP
   const [name, setName] = useState('');
   const [slug, setSlug] = useState('');
   const [displayOrder, setDisplayOrder] = useState(0);
+  const [maxConcurrency, setMaxConcurrency] = useState('');
+  const [adapter, setAdapter] = useState<ProviderAdapter | typeof NO_ADAPTER>(NO_ADAPTER);
+  const [baseUrl, setBaseUrl] = useState('');
+  const [apiKeyEnv, setApiKeyEnv] = useState('');
 
   const isEditing = !!provider;
 
@@ -33,10 +47,18 @@ export function ProviderDialog({ open, onOpenChange, provider }: ProviderDialogP
       setName(provider.name);
       setSlug(provider.slug);
       setDisplayOrder(provider.display_order);
+      setMaxConcurrency(provider.max_concurrency ? String(provider.max_concurrency) : '');
+      setAdapter(provider.adapter || NO_ADAPTER);
+      setBaseUrl(provider.base_url || '');
+      setApiKeyEnv(provider.api_key_env || '');
     } else {
       setName('');
       setSlug('');
       setDisplayOrder(0);
+      setMaxConcurrency('');
+      setAdapter(NO_ADAPTER);
+      setBaseUrl('');
+      setApiKeyEnv('');
     }
   }, [provider, open]);
 
@@ -56,6 +78,10 @@ export function ProviderDialog({ open, onOpenChange, provider }: ProviderDialogP
       toast.error('Provider slug is required');
       return;
     }
+    if (adapter !== NO_ADAPTER && !baseUrl.trim()) {
+      toast.error('Base URL is required for providers with an adapter');
+      return;
+    }
 
     setIsSubmitting(true);
 
@@ -72,6 +98,10 @@ export function ProviderDialog({ open, onOpenChange, provider }: ProviderDialogP
             name: name.trim(),
             slug: slug.trim().toLowerCase(),
             display_order: displayOrder,
+            max_concurrency: parseInt(maxConcurrency) || null,
+            adapter: adapter === NO_ADAPTER ? null : adapter,
+            base_url: adapter === NO_ADAPTER ? null : baseUrl.trim(),
+            api_key_env: adapter === NO_ADAPTER ? null : apiKeyEnv.trim() || null,
           },
         }),
       });
@@ -131,6 +161,64 @@ export function ProviderDialog({ open, onOpenChange, provider }: ProviderDialogP
               Lower numbers appear first
             </p>
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="max_concurrency">Max Concurrent Runs</Label>
+            <Input
+              id="max_concurrency"
+              type="number"
+              min={1}
+              value={maxConcurrency}
+              onChange={(e) => setMaxConcurrency(e.target.value)}
+              placeholder="Unlimited"
+            />
+            <p className="text-xs text-muted-foreground">
+              Runs using this provider wait in the queue once this many are executing
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adapter">Adapter</Label>
+            <Select
+              value={adapter}
+              onValueChange={(value) => setAdapter(value as ProviderAdapter | typeof NO_ADAPTER)}
+            >
+              <SelectTrigger id="adapter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ADAPTER}>None (built-in runner)</SelectItem>
+                <SelectItem value="openai-compatible">OpenAI-compatible chat</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Route Chat steps to a self-hosted or third-party endpoint such as vLLM, Ollama or LiteLLM
+            </p>
+          </div>
+          {adapter !== NO_ADAPTER && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="base_url">Base URL</Label>
+                <Input
+                  id="base_url"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  placeholder="e.g., http://localhost:11434/v1"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="api_key_env">API Key Environment Variable</Label>
+                <Input
+                  id="api_key_env"
+                  value={apiKeyEnv}
+                  onChange={(e) => setApiKeyEnv(e.target.value)}
+                  placeholder="e.g., PROVIDER_VLLM_API_KEY"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Name of the server environment variable holding the key, in the form PROVIDER_&lt;NAME&gt;_API_KEY.
+                  Leave empty if the endpoint needs none.
+                </p>
+              </div>
+            </>
+          )}
         </div>
         <div className="flex justify-end gap-2">
           <Button variant="outline" onClick={() => onOpenChange(false)}>
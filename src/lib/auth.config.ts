@@ -87,6 +87,7 @@ export const authConfig: NextAuthConfig = {
         '/api/prompts',
         '/api/upload',
         '/api/models',
+        '/api/schedules',
       ];
 
       const isPublicRoute = publicRoutes.some(
@@ -0,0 +1,122 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { parseCsv } from '@/lib/csv';
+import { deliverBatchWebhook } from '@/lib/webhooks';
+import { BatchProgress, BatchRow } from '@/types/database';
+
+// Batch runs queue behind interactive runs, which default to priority 0
+export const DEFAULT_BATCH_PRIORITY = -1;
+export const MAX_BATCH_ROWS = 1000;
+
+// Column mapping targets that fill run inputs instead of a variable
+const ATTACHMENT_TARGET = 'attachment_urls';
+const MESSAGE_TARGET = 'message';
+
+// Turn CSV rows into batch rows. column_mapping maps a CSV column to a variable
+// name, or to `attachment_urls` / `message`. Without a mapping, every column
+// becomes a variable of the same name, except those two. Attachment cells can
+// hold several URLs separated by whitespace or `|`.
+export function parseBatchCsv(csv: string, columnMapping?: Record<string, string> | null): BatchRow[] {
+  return parseCsv(csv).map((record) => {
+    const row: BatchRow = { attachment_urls: [], variables: {} };
+
+    for (const [column, value] of Object.entries(record)) {
+      const target = columnMapping ? columnMapping[column] : column;
+      if (!target) continue;
+
+      if (target === ATTACHMENT_TARGET) {
+        row.attachment_urls!.push(...value.split(/[\s|]+/).filter(Boolean));
+      } else if (target === MESSAGE_TARGET) {
+        row.message = value || undefined;
+      } else {
+        row.variables![target] = value;
+      }
+    }
+
+    return row;
+  });
+}
+
+// Check JSON rows before runs are created from them. Returns an error message
+// for the first invalid row, or null.
+export function validateBatchRows(rows: unknown[]): string | null {
+  for (const [index, row] of rows.entries()) {
+    const label = `Row ${index + 1}`;
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      return `${label} must be an object`;
+    }
+    const { variables, attachment_urls: attachmentUrls, message } = row as Record<string, unknown>;
+    if (variables !== undefined && variables !== null && (typeof variables !== 'object' || Array.isArray(variables))) {
+      return `${label}: variables must be an object`;
+    }
+    if (
+      attachmentUrls !== undefined && attachmentUrls !== null
+      && (!Array.isArray(attachmentUrls) || attachmentUrls.some((url) => typeof url !== 'string'))
+    ) {
+      return `${label}: attachment_urls must be an array of URLs`;
+    }
+    if (message !== undefined && message !== null && typeof message !== 'string') {
+      return `${label}: message must be a string`;
+    }
+  }
+  return null;
+}
+
+export async function getBatchProgress(supabase: SupabaseClient, batchId: string): Promise<BatchProgress> {
+  const { data: runs, error } = await supabase
+    .from('runs')
+    .select('status')
+    .eq('batch_id', batchId);
+
+  if (error) {
+    throw new Error(`Failed to load batch runs: ${error.message}`);
+  }
+
+  const progress: BatchProgress = { total: 0, pending: 0, completed: 0, failed: 0, cancelled: 0, timed_out: 0 };
+  for (const run of runs || []) {
+    progress.total++;
+    if (run.status === 'timed-out') progress.timed_out++;
+    else if (run.status in progress) progress[run.status as 'pending' | 'completed' | 'failed' | 'cancelled']++;
+  }
+
+  return progress;
+}
+
+export function formatBatchResponse(batch: Record<string, unknown>, progress: BatchProgress) {
+  return {
+    id: batch.id as string,
+    flow_id: batch.flow_id as string,
+    status: batch.status as string,
+    priority: batch.priority as number,
+    progress,
+    created_at: batch.created_at as string,
+    completed_at: batch.completed_at as string | null,
+    url: `/api/runs/batch/${batch.id}`,
+    download_url: `/api/runs/batch/${batch.id}/download`,
+  };
+}
+
+// Called whenever one of a batch's runs finishes. Marks the batch completed
+// once none of its runs are pending and sends the batch.completed webhook.
+export async function completeBatchIfDone(supabase: SupabaseClient, batchId: string | null | undefined): Promise<void> {
+  if (!batchId) return;
+
+  try {
+    const progress = await getBatchProgress(supabase, batchId);
+    if (progress.pending > 0) return;
+
+    // Only the first caller to see the batch finish sends the webhook
+    const { data: batch } = await supabase
+      .from('batches')
+      .update({ status: 'completed', completed_at: new Date().toISOString() })
+      .eq('id', batchId)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (batch) {
+      await deliverBatchWebhook(batch, formatBatchResponse(batch, progress));
+    }
+  } catch (err) {
+    console.error(`Error completing batch ${batchId}:`, err);
+  }
+}
@@ -0,0 +1,11 @@
+import { NextRequest } from 'next/server';
+
+// Cron endpoints are public routes, so they rely on CRON_SECRET, which Vercel
+// cron sends as a bearer token. It can only be left unset outside production.
+export function isCronRequestAuthorized(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return process.env.NODE_ENV !== 'production';
+  }
+  return request.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
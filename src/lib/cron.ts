@@ -0,0 +1,147 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in UTC. Fields accept `*`, numbers, names (JAN, MON), ranges,
+// lists and steps such as `*/15` or `1-5`.
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// How far ahead to look before deciding an expression never matches (e.g. 30 FEB)
+const MAX_LOOKAHEAD_YEARS = 5;
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const minutes = parseField(minute, 0, 59, null, 'minute');
+  const hours = parseField(hour, 0, 23, null, 'hour');
+  const daysOfMonth = parseField(dayOfMonth, 1, 31, null, 'day of month');
+  const months = parseField(month, 1, 12, MONTH_NAMES, 'month');
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES, 'day of week');
+  // 7 is another name for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === '*',
+    anyDayOfWeek: dayOfWeek === '*',
+  };
+}
+
+function parseField(field: string, min: number, max: number, names: string[] | null, label: string): Set<number> {
+  const values = new Set<number>();
+
+  const parseValue = (value: string): number => {
+    const nameIndex = names?.indexOf(value.toUpperCase()) ?? -1;
+    // Month names start at 1, day names at 0
+    const parsed = nameIndex >= 0 ? nameIndex + min : Number(value);
+    if (!/^\w+$/.test(value) || !Number.isInteger(parsed) || parsed < min || parsed > max) {
+      throw new Error(`Invalid cron ${label} "${value}"`);
+    }
+    return parsed;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText, ...extraSteps] = part.split('/');
+    if (extraSteps.length > 0) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to, ...extraBounds] = range.split('-');
+      if (extraBounds.length > 0) {
+        throw new Error(`Invalid cron range "${part}"`);
+      }
+      start = parseValue(from);
+      // `5/10` means from 5 to the end of the range
+      end = to !== undefined ? parseValue(to) : stepText !== undefined ? max : start;
+    }
+    if (start > end) {
+      throw new Error(`Invalid cron range "${part}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+// The first time strictly after `after` that matches the expression
+export function getNextCronTime(expression: string, after: Date): Date {
+  const schedule = parseCron(expression);
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = new Date(date.getTime());
+  limit.setUTCFullYear(limit.getUTCFullYear() + MAX_LOOKAHEAD_YEARS);
+
+  while (date < limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
+
+// Like cron, when both day fields are restricted a day matching either one runs
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
@@ -1,6 +1,7 @@
 import {
   pgTable,
   uuid,
+  bigserial,
   text,
   varchar,
   timestamp,
@@ -35,6 +36,10 @@ export const providers = pgTable('providers', {
   slug: text('slug').notNull().unique(),
   enabled: boolean('enabled').notNull().default(true),
   displayOrder: integer('display_order').notNull().default(0),
+  maxConcurrency: integer('max_concurrency'), // runs in flight at once (null = unlimited)
+  adapter: text('adapter'), // 'openai-compatible' (null = built-in runner)
+  baseUrl: text('base_url'),
+  apiKeyEnv: text('api_key_env'), // environment variable holding the API key
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => [
@@ -54,6 +59,8 @@ export const models = pgTable('models', {
   defaultParams: jsonb('default_params').default({}),
   inputPrice: decimal('input_price', { precision: 10, scale: 6 }),
   outputPrice: decimal('output_price', { precision: 10, scale: 6 }),
+  imagePrice: decimal('image_price', { precision: 10, scale: 6 }), // per generated image
+  videoSecondPrice: decimal('video_second_price', { precision: 10, scale: 6 }), // per second of video
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => [
@@ -69,6 +76,7 @@ export const flows = pgTable('flows', {
   name: text('name').notNull(),
   slug: varchar('slug', { length: 50 }),
   description: text('description'),
+  timeoutSeconds: integer('timeout_seconds'), // execution deadline (null = default)
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => [
@@ -87,6 +95,9 @@ export const prompts = pgTable('prompts', {
   selectedModel: text('selected_model').default('gpt-4o').notNull(),
   systemPrompt: text('system_prompt'),
   tools: json('tools').default([]),
+  responseSchema: jsonb('response_schema'), // JSON Schema for structured Chat output
+  maxToolIterations: integer('max_tool_iterations'), // tool call rounds (null = default)
+  historyTokenBudget: integer('history_token_budget'), // conversation history tokens (null = default, 0 = none)
   backgroundPrompt: text('background_prompt'),
   foregroundPrompt: text('foreground_prompt'),
   negativePrompt: text('negative_prompt'),
@@ -97,18 +108,63 @@ export const prompts = pgTable('prompts', {
   lightSourceStrength: real('light_source_strength'),
   seed: real('seed'),
   outputFormat: text('output_format'),
+  voice: text('voice'), // TextToAudio voice
   size: text('size'),
   quality: text('quality'),
   videoDuration: integer('video_duration'), // seconds - for video generation (4, 6, or 8)
+  routerRules: jsonb('router_rules'), // Router steps - rules for choosing dependent prompts
+  mapOverAttachments: boolean('map_over_attachments').default(false), // run once per attachment
+  mapConcurrency: integer('map_concurrency'), // max items in flight (null = default)
+  retryPolicy: jsonb('retry_policy'), // null = default retry policy
+  mockOptions: jsonb('mock_options'), // Mock provider latency, failures and canned text
+  videoOptions: jsonb('video_options'), // FFmpeg trim, crossfade, scale and audio options
+  imageOperations: jsonb('image_operations'), // ImageTransform resize, crop, pad, overlay and text steps
+  cacheResults: boolean('cache_results').default(false), // reuse results of identical requests
   subjectImageUrl: text('subject_image_url'),
   backgroundReferenceUrl: text('background_reference_url'),
   attachmentUrls: json('attachment_urls').default([]),
   position: integer('position').default(0),
+  stepKey: text('step_key'), // referenced in templates as {{steps.<key>.text}}
+  dependsOn: uuid('depends_on').array(), // null = previous prompt by position, [] = root step
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => [
   index('idx_prompts_flow_id').on(table.flowId),
   index('idx_prompts_position').on(table.flowId, table.position),
+  uniqueIndex('idx_prompts_flow_step_key').on(table.flowId, table.stepKey),
+]);
+
+// Batches table (runs created together from JSON rows or a CSV)
+export const batches = pgTable('batches', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  flowId: uuid('flow_id').references(() => flows.id, { onDelete: 'cascade' }),
+  status: text('status').notNull().default('pending'), // pending, completed
+  webhookUrl: text('webhook_url'),
+  priority: integer('priority').notNull().default(-1),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+});
+
+// Schedules table (cron schedules that create runs of a flow)
+export const schedules = pgTable('schedules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  flowId: uuid('flow_id').references(() => flows.id, { onDelete: 'cascade' }).notNull(),
+  name: text('name'),
+  cron: text('cron').notNull(), // five fields, UTC
+  status: text('status').notNull().default('active'), // active, paused
+  message: text('message'),
+  variables: json('variables').default({}),
+  attachmentUrls: json('attachment_urls').default([]),
+  mediaFolder: text('media_folder'), // library folder added to each run's attachments
+  webhookUrl: text('webhook_url'),
+  priority: integer('priority').notNull().default(-1),
+  nextRunAt: timestamp('next_run_at', { withTimezone: true }),
+  lastRunAt: timestamp('last_run_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => [
+  index('idx_schedules_flow_id').on(table.flowId),
 ]);
 
 // Runs table
@@ -128,28 +184,64 @@ export const runs = pgTable('runs', {
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
   sourceRunId: uuid('source_run_id'),
+  priority: integer('priority').notNull().default(0), // higher is dispatched first
+  dispatchedAt: timestamp('dispatched_at', { withTimezone: true }), // null while queued
+  batchId: uuid('batch_id').references(() => batches.id, { onDelete: 'set null' }),
+  batchIndex: integer('batch_index'), // row within the batch
+  scheduleId: uuid('schedule_id').references(() => schedules.id, { onDelete: 'set null' }),
+  idempotencyKey: text('idempotency_key'), // unique while inside the idempotency window
+  externalId: text('external_id'),
+  bypassCache: boolean('bypass_cache').notNull().default(false), // always call the provider
+  toolCallFlowIds: uuid('tool_call_flow_ids').array().notNull().default([]), // flows that called this run as a tool
 }, (table) => [
   index('idx_runs_flow_id').on(table.flowId),
   index('idx_runs_status').on(table.status),
   index('idx_runs_created_at').on(table.createdAt),
+  index('idx_runs_batch_id').on(table.batchId),
+  index('idx_runs_schedule_id').on(table.scheduleId),
+  uniqueIndex('idx_runs_idempotency_key').on(table.idempotencyKey),
+  index('idx_runs_external_id').on(table.externalId),
 ]);
 
+// Run events table (progress streamed over SSE)
+export const runEvents = pgTable('run_events', {
+  id: bigserial('id', { mode: 'number' }).primaryKey(),
+  runId: uuid('run_id').references(() => runs.id, { onDelete: 'cascade' }).notNull(),
+  eventType: text('event_type').notNull(), // step.started, step.token, step.completed, ...
+  data: jsonb('data').default({}),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => [
+  index('idx_run_events_run_id').on(table.runId, table.id),
+]);
+
+// Result cache table (step results keyed on a hash of their inputs)
+export const resultCache = pgTable('result_cache', {
+  cacheKey: text('cache_key').primaryKey(), // sha256 of model, rendered prompts, params and input media
+  result: jsonb('result').notNull(),
+  promptRunId: uuid('prompt_run_id'), // prompt run that produced the result
+  hitCount: integer('hit_count').notNull().default(0),
+  lastHitAt: timestamp('last_hit_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+});
+
 // Media table (library)
 export const media = pgTable('media', {
-  id: text('id').primaryKey(), // img_xxxxxxxx or vdo_xxxxxxxx
-  type: text('type').notNull(), // 'image' or 'video'
+  id: text('id').primaryKey(), // img_xxxxxxxx, vdo_xxxxxxxx or aud_xxxxxxxx
+  type: text('type').notNull(), // 'image', 'video' or 'audio'
   filename: text('filename').notNull(),
   url: text('url').notNull(),
   mimeType: text('mime_type'),
   size: integer('size'), // bytes
   width: integer('width'),
   height: integer('height'),
-  duration: real('duration'), // seconds, for videos
+  duration: real('duration'), // seconds, for videos and audio
+  folder: text('folder'),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => [
   index('idx_media_type').on(table.type),
   index('idx_media_created_at').on(table.createdAt),
+  index('idx_media_folder').on(table.folder),
 ]);
 
 // Relations
@@ -193,5 +285,8 @@ export type NewModel = typeof models.$inferInsert;
 export type Flow = typeof flows.$inferSelect;
 export type Prompt = typeof prompts.$inferSelect;
 export type Run = typeof runs.$inferSelect;
+export type Batch = typeof batches.$inferSelect;
+export type Schedule = typeof schedules.$inferSelect;
+export type RunEvent = typeof runEvents.$inferSelect;
 export type Media = typeof media.$inferSelect;
 export type NewMedia = typeof media.$inferInsert;
@@ -0,0 +1,134 @@
+import { createHash } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { inArray } from 'drizzle-orm';
+import { db, media } from '@/lib/db';
+import { RunPromptParams, RunPromptResult, renderTemplate, getTemplateVariables } from '@/lib/runners';
+import { getPromptTools } from '@/lib/runners/chat/tools';
+import { renderImageOperations } from '@/lib/runners/image/transform';
+
+// Template fields, rendered before hashing so changed variables miss the cache
+const TEMPLATE_FIELDS = ['system_prompt', 'background_prompt', 'foreground_prompt', 'negative_prompt'];
+
+// Prompt settings that change what the provider returns
+const PARAM_FIELDS = [
+  'tools',
+  'response_schema',
+  'max_tool_iterations',
+  'preserve_original_subject',
+  'original_background_depth',
+  'keep_original_background',
+  'light_source_direction',
+  'light_source_strength',
+  'seed',
+  'output_format',
+  'size',
+  'quality',
+  'video_duration',
+  'video_options',
+  'image_operations',
+  'voice',
+  'mock_options',
+];
+
+// A step uses the cache when its prompt opts in and the run doesn't bypass it.
+// Router steps are free, tools with handlers have side effects, and Chat steps
+// in a conversation also send its history, so none of those are cached.
+export function isCacheable(prompt: Record<string, unknown>, run: Record<string, unknown>): boolean {
+  if (!prompt.cache_results || run.bypass_cache) return false;
+  if (prompt.endpoint_type === 'Router') return false;
+  if (getPromptTools(prompt).some((tool) => tool.handler)) return false;
+  return !(prompt.endpoint_type === 'Chat' && run.conversation_id);
+}
+
+// sha256 of the model, rendered prompts, params and the bytes of every input.
+// Inputs are hashed by content, so the same image at another URL still hits.
+export async function getResultCacheKey(params: RunPromptParams): Promise<string> {
+  const { prompt, run, inputImageUrl, inputText, inputUrls, attachmentUrls } = params;
+  const variables = getTemplateVariables(params);
+
+  const sourceUrls = [
+    inputImageUrl,
+    ...(inputUrls || []),
+    ...(attachmentUrls || []),
+    ...((run.attachment_urls as string[]) || []),
+    prompt.subject_image_url as string | null,
+    prompt.background_reference_url as string | null,
+  ].filter((url): url is string => !!url);
+
+  const inputHashes = await Promise.all([...new Set(sourceUrls)].map(hashUrlContent));
+
+  const material = {
+    endpoint_type: prompt.endpoint_type,
+    provider: prompt.selected_provider,
+    model: prompt.selected_model,
+    prompts: Object.fromEntries(
+      TEMPLATE_FIELDS.map((field) => [field, renderTemplate((prompt[field] as string) || '', variables)])
+    ),
+    message: run.message ?? null,
+    input_text: inputText ?? null,
+    input_transcript: params.inputTranscript ?? null,
+    params: Object.fromEntries(PARAM_FIELDS.map((field) => [
+      field,
+      field === 'image_operations' ? renderImageOperations(prompt[field], variables) : prompt[field] ?? null,
+    ])),
+    inputs: inputHashes,
+  };
+
+  return createHash('sha256').update(JSON.stringify(material)).digest('hex');
+}
+
+async function hashUrlContent(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch input for cache key: ${response.status}`);
+  }
+  return createHash('sha256').update(Buffer.from(await response.arrayBuffer())).digest('hex');
+}
+
+// The cached result for a key, or null on a miss. Entries whose output media
+// has been deleted from the library are treated as misses.
+export async function findCachedResult(supabase: SupabaseClient, cacheKey: string): Promise<RunPromptResult | null> {
+  const { data: entry } = await supabase
+    .from('result_cache')
+    .select('result, hit_count')
+    .eq('cache_key', cacheKey)
+    .maybeSingle();
+
+  if (!entry) return null;
+
+  const result = entry.result as RunPromptResult;
+  const mediaIds = result.outputMediaIds || [];
+  if (mediaIds.length > 0) {
+    const existing = await db
+      .select({ id: media.id })
+      .from(media)
+      .where(inArray(media.id, mediaIds));
+    if (existing.length < new Set(mediaIds).size) return null;
+  }
+
+  await supabase
+    .from('result_cache')
+    .update({ hit_count: (entry.hit_count as number) + 1, last_hit_at: new Date().toISOString() })
+    .eq('cache_key', cacheKey);
+
+  return result;
+}
+
+// Store a step's result. Token counts are dropped so hits cost nothing.
+export async function storeCachedResult(
+  supabase: SupabaseClient,
+  cacheKey: string,
+  promptRunId: string,
+  result: RunPromptResult
+): Promise<void> {
+  const { error } = await supabase
+    .from('result_cache')
+    .upsert(
+      { cache_key: cacheKey, result: { ...result, tokens: undefined }, prompt_run_id: promptRunId },
+      { onConflict: 'cache_key' }
+    );
+
+  if (error) {
+    console.error(`Failed to cache result for prompt run ${promptRunId}:`, error.message);
+  }
+}
@@ -0,0 +1,26 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RunStatus } from '@/types/database';
+
+// Statuses set from outside the execute workflow - by the cancel endpoint or
+// the stuck-run sweeper - that mean execution should stop
+const STOPPED_STATUSES: RunStatus[] = ['cancelled', 'timed-out'];
+
+export const RUN_STOPPED_MESSAGE = 'Run was cancelled or timed out';
+
+// Returns the run's status if it has been stopped, otherwise null
+export async function getStoppedStatus(supabase: SupabaseClient, runId: string): Promise<RunStatus | null> {
+  const { data } = await supabase
+    .from('runs')
+    .select('status')
+    .eq('id', runId)
+    .single();
+
+  return data && STOPPED_STATUSES.includes(data.status) ? data.status : null;
+}
+
+// Cooperative cancellation check for long-running steps and polling loops
+export async function assertRunNotStopped(supabase: SupabaseClient, runId: string): Promise<void> {
+  if (await getStoppedStatus(supabase, runId)) {
+    throw new Error(RUN_STOPPED_MESSAGE);
+  }
+}
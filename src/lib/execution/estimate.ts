@@ -0,0 +1,231 @@
+import { renderTemplate } from '@/lib/runners';
+import { MAX_OUTPUT_TOKENS as OPENAI_MAX_OUTPUT_TOKENS } from '@/lib/runners/chat/openai';
+import { MAX_OUTPUT_TOKENS as ANTHROPIC_MAX_OUTPUT_TOKENS } from '@/lib/runners/chat/anthropic';
+import { MAX_OUTPUT_TOKENS as GEMINI_MAX_OUTPUT_TOKENS } from '@/lib/runners/chat/gemini';
+import { getMaxToolIterations, getPromptTools } from '@/lib/runners/chat/tools';
+import { estimateTokens } from '@/lib/tokens';
+import { buildFlowGraph } from './graph';
+import { ModelRecord } from '@/types/database';
+
+// An image costs between a low-detail OpenAI tile and a full-size Claude image
+const IMAGE_INPUT_TOKENS = { min: 85, max: 1600 };
+// A short answer - the low end of a Chat step's output
+const MIN_OUTPUT_TOKENS = 50;
+const DEFAULT_VIDEO_SECONDS = 8;
+
+const CHAT_MAX_OUTPUT_TOKENS: Record<string, number> = {
+  OpenAI: OPENAI_MAX_OUTPUT_TOKENS,
+  Anthropic: ANTHROPIC_MAX_OUTPUT_TOKENS,
+  Gemini: GEMINI_MAX_OUTPUT_TOKENS,
+};
+
+// Template fields sent to the provider as text
+const TEMPLATE_FIELDS = ['system_prompt', 'background_prompt', 'foreground_prompt', 'negative_prompt'];
+
+export interface Range {
+  min: number;
+  max: number;
+}
+
+export interface StepEstimate {
+  prompt_id: string;
+  step_key: string | null;
+  endpoint_type: string;
+  provider: string;
+  model: string;
+  calls: Range;
+  input_tokens: Range;
+  output_tokens: Range;
+  cost: Range | null; // null when the model has no pricing
+}
+
+export interface RunEstimate {
+  flow_id: string;
+  currency: 'USD';
+  steps: StepEstimate[];
+  total: {
+    input_tokens: Range;
+    output_tokens: Range;
+    cost: Range;
+  };
+  unpriced_steps: string[];
+  warnings: string[];
+}
+
+export interface EstimateInput {
+  message?: string | null;
+  variables?: Record<string, unknown>;
+  attachment_urls?: string[];
+}
+
+type PricedModel = Pick<ModelRecord, 'model_id' | 'input_price' | 'output_price' | 'image_price' | 'video_second_price'> & {
+  provider: { name: string; slug: string } | null;
+};
+
+// Estimate what a run of the flow would cost without calling any provider.
+// Ranges cover router branches that may not run and tool call loops; retries
+// and text produced by earlier steps are not included.
+export function estimateRun(
+  flowId: string,
+  prompts: Array<Record<string, unknown>>,
+  models: PricedModel[],
+  input: EstimateInput
+): RunEstimate {
+  const steps = buildFlowGraph(prompts);
+  const attachmentCount = input.attachment_urls?.length || 0;
+  const templateVariables = {
+    ...input.variables,
+    input: {
+      message: input.message ?? null,
+      attachments: input.attachment_urls || [],
+      variables: input.variables || {},
+    },
+  };
+
+  const warnings: string[] = [];
+  const unpricedSteps: string[] = [];
+  const conditional = new Set<string>();
+  const estimates: StepEstimate[] = [];
+
+  for (const step of steps) {
+    const { prompt } = step;
+    const endpointType = prompt.endpoint_type as string;
+    const provider = prompt.selected_provider as string;
+    const modelId = prompt.selected_model as string;
+    const label = (prompt.step_key as string | null) || step.id;
+
+    // Steps behind a router only run if it selects them
+    const parents = steps.filter((s) => step.dependsOn.includes(s.id));
+    const isConditional = parents.length > 0 && (
+      parents.some((parent) => parent.prompt.endpoint_type === 'Router') ||
+      parents.every((parent) => conditional.has(parent.id))
+    );
+    if (isConditional) conditional.add(step.id);
+
+    const items = prompt.map_over_attachments ? attachmentCount : 1;
+    if (prompt.map_over_attachments && attachmentCount === 0) {
+      warnings.push(`Map step ${label} has no attachments to run over`);
+    }
+
+    let callsPerItem: Range = { min: 1, max: 1 };
+    let inputTokens: Range = { min: 0, max: 0 };
+    let outputTokens: Range = { min: 0, max: 0 };
+
+    if (endpointType === 'Chat') {
+      const text = TEMPLATE_FIELDS
+        .map((field) => renderTemplate((prompt[field] as string) || '', templateVariables))
+        .join('\n');
+      const textTokens = estimateTokens(text) + estimateTokens(input.message);
+      // The chat runners send the step's input image plus every attachment
+      const images = { min: attachmentCount, max: attachmentCount + 1 };
+      const perCall = {
+        min: textTokens + images.min * IMAGE_INPUT_TOKENS.min,
+        max: textTokens + images.max * IMAGE_INPUT_TOKENS.max,
+      };
+
+      // Each tool round sends the conversation again
+      if (getPromptTools(prompt).some((tool) => tool.handler)) {
+        callsPerItem = { min: 1, max: getMaxToolIterations(prompt) + 1 };
+      }
+
+      const maxOutput = CHAT_MAX_OUTPUT_TOKENS[provider] || OPENAI_MAX_OUTPUT_TOKENS;
+      inputTokens = { min: perCall.min * callsPerItem.min, max: perCall.max * callsPerItem.max };
+      outputTokens = { min: MIN_OUTPUT_TOKENS, max: maxOutput * callsPerItem.max };
+    }
+
+    const calls = {
+      min: isConditional ? 0 : callsPerItem.min * items,
+      max: callsPerItem.max * items,
+    };
+    const scale = (range: Range): Range => ({
+      min: isConditional ? 0 : range.min * items,
+      max: range.max * items,
+    });
+
+    const estimate: StepEstimate = {
+      prompt_id: step.id,
+      step_key: (prompt.step_key as string | null) || null,
+      endpoint_type: endpointType,
+      provider,
+      model: modelId,
+      calls,
+      input_tokens: scale(inputTokens),
+      output_tokens: scale(outputTokens),
+      cost: null,
+    };
+
+    const model = models.find(
+      (m) => m.model_id === modelId && (m.provider?.name === provider || m.provider?.slug === provider?.toLowerCase())
+    );
+    estimate.cost = estimateStepCost(estimate, prompt, model);
+    if (!estimate.cost) unpricedSteps.push(label);
+
+    estimates.push(estimate);
+  }
+
+  const sum = (pick: (step: StepEstimate) => Range | null): Range =>
+    estimates.reduce(
+      (total, step) => {
+        const range = pick(step);
+        return range ? { min: total.min + range.min, max: total.max + range.max } : total;
+      },
+      { min: 0, max: 0 }
+    );
+
+  return {
+    flow_id: flowId,
+    currency: 'USD',
+    steps: estimates,
+    total: {
+      input_tokens: sum((step) => step.input_tokens),
+      output_tokens: sum((step) => step.output_tokens),
+      cost: sum((step) => step.cost),
+    },
+    unpriced_steps: unpricedSteps,
+    warnings,
+  };
+}
+
+function estimateStepCost(
+  step: StepEstimate,
+  prompt: Record<string, unknown>,
+  model: PricedModel | undefined
+): Range | null {
+  // Router, Mock and Local (FFmpeg) steps run on this server
+  if (step.endpoint_type === 'Router' || step.provider === 'Mock' || step.provider === 'Local') {
+    return { min: 0, max: 0 };
+  }
+  if (!model) return null;
+
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+  if (step.endpoint_type === 'Chat') {
+    if (model.input_price == null || model.output_price == null) return null;
+    // Token prices are per 1K tokens
+    const cost = (tokens: 'min' | 'max') =>
+      round(
+        (step.input_tokens[tokens] / 1000) * Number(model.input_price) +
+        (step.output_tokens[tokens] / 1000) * Number(model.output_price)
+      );
+    return { min: cost('min'), max: cost('max') };
+  }
+
+  if (step.endpoint_type === 'ImageToImage') {
+    if (model.image_price == null) return null;
+    return {
+      min: round(step.calls.min * Number(model.image_price)),
+      max: round(step.calls.max * Number(model.image_price)),
+    };
+  }
+
+  if (step.endpoint_type === 'ImageToVideo') {
+    if (model.video_second_price == null) return null;
+    const seconds = (prompt.video_duration as number) || DEFAULT_VIDEO_SECONDS;
+    return {
+      min: round(step.calls.min * seconds * Number(model.video_second_price)),
+      max: round(step.calls.max * seconds * Number(model.video_second_price)),
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,107 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RunEvent, RunEventType } from '@/types/database';
+
+// Partial Chat text is written in chunks rather than once per token
+const TOKEN_FLUSH_MS = 250;
+
+export const RUN_EVENTS_PAGE_SIZE = 500;
+
+// Event IDs come from a sequence, so a concurrent insert can commit after a
+// higher ID is already visible. Readers keep re-reading events this recent.
+const CURSOR_LAG_MS = 5000;
+
+// Record a progress event. Failing to record one never fails the run.
+export async function recordRunEvent(
+  supabase: SupabaseClient,
+  runId: string,
+  eventType: RunEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase
+    .from('run_events')
+    .insert({ run_id: runId, event_type: eventType, data });
+
+  if (error) {
+    console.error(`Failed to record ${eventType} event for run ${runId}:`, error.message);
+  }
+}
+
+// Buffer streamed Chat text and record it as step.token events. push() is
+// passed to the runner as onToken; flush() before the step's next event.
+export function createTokenRecorder(supabase: SupabaseClient, runId: string, promptRunId: string) {
+  let buffer = '';
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pending = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (buffer) {
+      const delta = buffer;
+      buffer = '';
+      // Chain writes so chunks are recorded in order
+      pending = pending.then(() => recordRunEvent(supabase, runId, 'step.token', { prompt_run_id: promptRunId, delta }));
+    }
+    return pending;
+  };
+
+  const push = (delta: string) => {
+    buffer += delta;
+    if (!timer) {
+      timer = setTimeout(flush, TOKEN_FLUSH_MS);
+    }
+  };
+
+  return { push, flush };
+}
+
+// Events recorded after the given event ID, oldest first
+export async function listRunEvents(supabase: SupabaseClient, runId: string, afterId: number): Promise<RunEvent[]> {
+  const { data, error } = await supabase
+    .from('run_events')
+    .select('*')
+    .eq('run_id', runId)
+    .gt('id', afterId)
+    .order('id', { ascending: true })
+    .limit(RUN_EVENTS_PAGE_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to load run events: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Track which events a reader has sent. afterId() stays behind events sent
+// in the last few seconds so one committed late is still read; take() drops
+// the events re-read from that window that were already sent.
+export function createEventCursor(lastEventId: number) {
+  let settledId = lastEventId;
+  let recent: Array<{ id: number; sentAt: number }> = [];
+
+  const afterId = () => {
+    const now = Date.now();
+    for (const event of recent) {
+      if (now - event.sentAt >= CURSOR_LAG_MS) settledId = Math.max(settledId, event.id);
+    }
+    recent = recent.filter((event) => event.id > settledId);
+    return settledId;
+  };
+
+  const take = (events: RunEvent[]): RunEvent[] => {
+    const sentIds = new Set(recent.map((event) => event.id));
+    const unsent = events.filter((event) => !sentIds.has(event.id));
+    const now = Date.now();
+    recent.push(...unsent.map((event) => ({ id: event.id, sentAt: now })));
+    return unsent;
+  };
+
+  return { afterId, take };
+}
+
+// Format one server-sent event. Events without an ID don't move Last-Event-ID.
+export function formatServerSentEvent(event: string, data: unknown, id?: number): string {
+  return `${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,106 @@
+// Dependency graph helpers for executing a flow's prompts as a DAG.
+//
+// A prompt's `depends_on` lists the prompt IDs it waits for:
+// - null/undefined: legacy linear behaviour, depends on the previous prompt by position
+// - []: root step, reads the run's own inputs
+// - [ids]: waits for every listed prompt and receives their outputs
+
+export interface FlowStep {
+  id: string;
+  prompt: Record<string, unknown>;
+  dependsOn: string[];
+}
+
+// Sort prompts by position and resolve each prompt's dependencies.
+// Throws if a prompt references an unknown prompt or the graph has a cycle.
+export function buildFlowGraph(prompts: Array<Record<string, unknown>>): FlowStep[] {
+  const sorted = [...prompts].sort(
+    (a, b) => ((a.position as number) || 0) - ((b.position as number) || 0)
+  );
+
+  const ids = new Set(sorted.map((prompt) => prompt.id as string));
+
+  const steps: FlowStep[] = sorted.map((prompt, index) => {
+    const declared = prompt.depends_on as string[] | null | undefined;
+    let dependsOn: string[];
+
+    if (declared === null || declared === undefined) {
+      dependsOn = index > 0 ? [sorted[index - 1].id as string] : [];
+    } else {
+      dependsOn = [...new Set(declared)];
+    }
+
+    for (const dependencyId of dependsOn) {
+      if (dependencyId === prompt.id) {
+        throw new Error(`Prompt ${prompt.id} cannot depend on itself`);
+      }
+      if (!ids.has(dependencyId)) {
+        throw new Error(`Prompt ${prompt.id} depends on unknown prompt ${dependencyId}`);
+      }
+    }
+
+    return { id: prompt.id as string, prompt, dependsOn };
+  });
+
+  assertAcyclic(steps);
+
+  return steps;
+}
+
+export interface StepState {
+  skipped: boolean;
+  // Set by router steps: the dependent prompt IDs chosen to run
+  selectedPromptIds?: string[];
+}
+
+// A step is skipped when a router it depends on didn't select it, or when
+// every one of its dependencies was skipped
+export function isStepSkipped(step: FlowStep, states: Map<string, StepState>): boolean {
+  if (step.dependsOn.length === 0) return false;
+
+  const parents = step.dependsOn.map((id) => states.get(id)!);
+  if (parents.every((parent) => parent.skipped)) return true;
+
+  return parents.some(
+    (parent) => !parent.skipped && parent.selectedPromptIds && !parent.selectedPromptIds.includes(step.id)
+  );
+}
+
+// Return the steps whose dependencies have all finished
+export function getReadySteps(steps: FlowStep[], finished: Set<string>): FlowStep[] {
+  return steps.filter(
+    (step) => !finished.has(step.id) && step.dependsOn.every((id) => finished.has(id))
+  );
+}
+
+// IDs of every step that finishes before the given step: its dependencies,
+// their dependencies, and so on
+export function getUpstreamStepIds(steps: FlowStep[], stepId: string): Set<string> {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const upstream = new Set<string>();
+  const pending = [...(byId.get(stepId)?.dependsOn || [])];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (upstream.has(id)) continue;
+    upstream.add(id);
+    pending.push(...(byId.get(id)?.dependsOn || []));
+  }
+  return upstream;
+}
+
+// Kahn's algorithm - if we can't visit every step, the remainder forms a cycle
+function assertAcyclic(steps: FlowStep[]) {
+  const finished = new Set<string>();
+
+  while (finished.size < steps.length) {
+    const ready = getReadySteps(steps, finished);
+    if (ready.length === 0) {
+      const cyclic = steps.filter((step) => !finished.has(step.id)).map((step) => step.id);
+      throw new Error(`Flow has a dependency cycle between prompts: ${cyclic.join(', ')}`);
+    }
+    for (const step of ready) {
+      finished.add(step.id);
+    }
+  }
+}
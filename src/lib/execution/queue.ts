@@ -0,0 +1,73 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Runs with a higher priority are dispatched first. Interactive callers can
+// pass a positive priority to jump ahead of batch work.
+export const DEFAULT_RUN_PRIORITY = 0;
+
+// Maximum queued runs examined per dispatch
+const DISPATCH_BATCH_SIZE = 100;
+
+// How long a trigger waits on the execute request before leaving it running
+const TRIGGER_TIMEOUT_MS = 5000;
+
+// Claim queued runs that fit within their providers' concurrency limits and
+// mark them dispatched. Runs are taken in priority order, then oldest first.
+// A run whose providers are all below their max_concurrency is claimed even if
+// an earlier run is still waiting on a different provider. The claim_queued_runs
+// function counts and claims in one locked transaction, so concurrent
+// dispatchers can't exceed a limit.
+export async function claimQueuedRuns(supabase: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabase.rpc('claim_queued_runs', { batch_size: DISPATCH_BATCH_SIZE });
+
+  if (error) {
+    throw new Error(`Failed to claim queued runs: ${error.message}`);
+  }
+  return (data as string[] | null) || [];
+}
+
+// Start a dispatched run, from after(). The execute request only returns once
+// the run has finished, so stop waiting after TRIGGER_TIMEOUT_MS and leave it
+// running rather than holding this function open for the whole run.
+export async function triggerRunExecution(baseUrl: string, runId: string): Promise<void> {
+  try {
+    const response = await fetch(`${baseUrl}/api/runs/${runId}/execute`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal: AbortSignal.timeout(TRIGGER_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error(`Execute trigger failed for run ${runId}: ${response.status}`);
+    }
+  } catch (err) {
+    if (err instanceof Error && err.name === 'TimeoutError') return;
+    console.error(`Error triggering run execution for ${runId}:`, err);
+  }
+}
+
+// Claim whatever the queue has capacity for and execute it
+export async function dispatchQueuedRuns(supabase: SupabaseClient, baseUrl: string): Promise<void> {
+  try {
+    const runIds = await claimQueuedRuns(supabase);
+    await Promise.all(runIds.map((runId) => triggerRunExecution(baseUrl, runId)));
+  } catch (err) {
+    console.error('Error dispatching queued runs:', err);
+  }
+}
+
+// 1-based position of a queued run, or null once it has been dispatched
+export async function getQueuePosition(
+  supabase: SupabaseClient,
+  run: Record<string, unknown>
+): Promise<number | null> {
+  if (run.status !== 'pending' || run.dispatched_at) return null;
+
+  const priority = (run.priority as number | null) ?? DEFAULT_RUN_PRIORITY;
+  const { count } = await supabase
+    .from('runs')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'pending')
+    .is('dispatched_at', null)
+    .or(`priority.gt.${priority},and(priority.eq.${priority},created_at.lt."${run.created_at}")`);
+
+  return (count || 0) + 1;
+}
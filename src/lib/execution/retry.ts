@@ -0,0 +1,55 @@
+import { ErrorClass, RetryPolicy } from '@/types/database';
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  max_attempts: 3,
+  initial_delay_ms: 1000,
+  backoff_multiplier: 2,
+  max_delay_ms: 30000,
+  retry_on: ['rate_limit', 'server_error', 'timeout', 'network', 'invalid_output'],
+};
+
+// Fill in any settings the prompt's retry_policy leaves out
+export function resolveRetryPolicy(policy: RetryPolicy | null | undefined): Required<RetryPolicy> {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...Object.fromEntries(Object.entries(policy || {}).filter(([, value]) => value !== undefined && value !== null)),
+  };
+}
+
+// Work out what kind of failure an error from a runner represents. SDK errors
+// carry an HTTP status; fetch-based runners put it in the message as
+// "... API error: 429 - ..."
+export function classifyError(error: unknown): ErrorClass {
+  const message = error instanceof Error ? error.message : String(error);
+  const code = (error as { code?: unknown })?.code;
+  let status = (error as { status?: unknown })?.status;
+
+  if (typeof status !== 'number') {
+    const match = message.match(/error: (\d{3})\b/i);
+    status = match ? Number(match[1]) : undefined;
+  }
+
+  if (message.startsWith('Invalid structured output')) return 'invalid_output';
+  if (code === 'content_policy_violation' || /content.?polic|CONTENT_FILTERED|safety/i.test(message)) {
+    return 'content_policy';
+  }
+  if (status === 429) return 'rate_limit';
+  if (status === 408 || /timed? ?out|timeout|ETIMEDOUT/i.test(message)) return 'timeout';
+  if (typeof status === 'number' && status >= 500) return 'server_error';
+  if (typeof status === 'number' && status >= 400) return 'client_error';
+  if (/fetch failed|ECONNRESET|ECONNREFUSED|ENOTFOUND|socket hang up|network/i.test(message)) {
+    return 'network';
+  }
+  return 'unknown';
+}
+
+export function shouldRetry(policy: Required<RetryPolicy>, errorClass: ErrorClass, attempt: number): boolean {
+  return attempt < policy.max_attempts && policy.retry_on.includes(errorClass);
+}
+
+// Exponential backoff: initial delay after the first attempt, multiplied for
+// each further attempt and capped at max_delay_ms
+export function getBackoffDelay(policy: Required<RetryPolicy>, attempt: number): number {
+  const delay = policy.initial_delay_ms * Math.pow(policy.backoff_multiplier, attempt - 1);
+  return Math.min(delay, policy.max_delay_ms);
+}
@@ -0,0 +1,75 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { deliverRunWebhook } from '@/lib/webhooks';
+import { completeBatchIfDone } from '@/lib/batches';
+
+// Deadline for flows that don't set timeout_seconds. The execute route is
+// limited to 300 seconds (vercel.json), so a run still pending after that
+// plus a margin has lost its execution.
+export const DEFAULT_RUN_TIMEOUT_SECONDS = 330;
+
+// Maximum runs examined per sweep
+const SWEEP_BATCH_SIZE = 200;
+
+export interface SweepResult {
+  checked: number;
+  timed_out: string[];
+}
+
+// Mark dispatched runs that have passed their flow's deadline (and their
+// pending prompt runs) as timed out, and send run.timed_out webhooks. Catches
+// runs whose /execute trigger never fired as well as executions that died
+// mid-run. The deadline counts from dispatch, so time spent queued is free.
+export async function sweepStuckRuns(supabase: SupabaseClient, now = new Date()): Promise<SweepResult> {
+  const { data: runs, error } = await supabase
+    .from('runs')
+    .select('id, dispatched_at, flow:flows(timeout_seconds)')
+    .eq('status', 'pending')
+    .not('dispatched_at', 'is', null)
+    .order('dispatched_at', { ascending: true })
+    .limit(SWEEP_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to fetch pending runs: ${error.message}`);
+  }
+
+  const timedOut: string[] = [];
+
+  for (const run of runs || []) {
+    const flow = run.flow as { timeout_seconds: number | null } | { timeout_seconds: number | null }[] | null;
+    const timeoutSeconds =
+      (Array.isArray(flow) ? flow[0]?.timeout_seconds : flow?.timeout_seconds) || DEFAULT_RUN_TIMEOUT_SECONDS;
+    const dispatchedAt = new Date(run.dispatched_at);
+
+    if (now.getTime() - dispatchedAt.getTime() < timeoutSeconds * 1000) continue;
+
+    // Only update runs that are still pending so we don't race a finishing run
+    const { data: updatedRun } = await supabase
+      .from('runs')
+      .update({
+        status: 'timed-out',
+        data: { error: `Run exceeded its ${timeoutSeconds} second deadline` },
+        completed_at: now.toISOString(),
+      })
+      .eq('id', run.id)
+      .eq('status', 'pending')
+      .select()
+      .single();
+
+    if (!updatedRun) continue;
+
+    await supabase
+      .from('prompt_runs')
+      .update({
+        status: 'timed-out',
+        completed_at: now.toISOString(),
+      })
+      .eq('run_id', run.id)
+      .eq('status', 'pending');
+
+    await deliverRunWebhook(updatedRun, 'run.timed_out');
+    await completeBatchIfDone(supabase, updatedRun.batch_id);
+    timedOut.push(run.id);
+  }
+
+  return { checked: runs?.length || 0, timed_out: timedOut };
+}
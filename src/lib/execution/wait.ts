@@ -0,0 +1,44 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Longest a caller can block on POST /api/runs?wait=
+export const MAX_WAIT_SECONDS = 60;
+
+const POLL_INTERVAL_MS = 1000;
+
+// Parse the ?wait= query parameter into seconds, capped at MAX_WAIT_SECONDS.
+// Returns null when it isn't set.
+export function parseWaitSeconds(value: string | null): number | null {
+  if (value === null) return null;
+
+  const seconds = Number(value);
+  if (!value.trim() || !Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error('wait must be a positive number of seconds');
+  }
+
+  return Math.min(seconds, MAX_WAIT_SECONDS);
+}
+
+// Poll a run until it leaves pending or the timeout elapses, and return the
+// latest row. The caller falls back to the pending response if it times out.
+export async function waitForRun(
+  supabase: SupabaseClient,
+  run: Record<string, unknown>,
+  timeoutMs: number
+): Promise<Record<string, unknown>> {
+  const deadline = Date.now() + timeoutMs;
+  let latest = run;
+
+  while (latest.status === 'pending' && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, Math.min(POLL_INTERVAL_MS, deadline - Date.now())));
+
+    const { data } = await supabase
+      .from('runs')
+      .select('*')
+      .eq('id', run.id)
+      .single();
+
+    if (data) latest = data;
+  }
+
+  return latest;
+}
@@ -0,0 +1,40 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// How long a retried request returns the original run instead of creating a new one
+export const IDEMPOTENCY_WINDOW_HOURS = 24;
+
+// Postgres unique_violation, raised when two requests with the same key race
+export const UNIQUE_VIOLATION = '23505';
+
+// The key a run creation request is deduplicated on: the Idempotency-Key
+// header, or else the run's external_id
+export function getIdempotencyKey(headerValue: string | null, externalId: string | null | undefined): string | null {
+  return headerValue?.trim() || externalId?.trim() || null;
+}
+
+// Find the run created with this key inside the window. A run outside the
+// window gives up its key so a new run can be created with it.
+export async function findIdempotentRun(
+  supabase: SupabaseClient,
+  key: string
+): Promise<Record<string, unknown> | null> {
+  const cutoff = new Date(Date.now() - IDEMPOTENCY_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+
+  await supabase
+    .from('runs')
+    .update({ idempotency_key: null })
+    .eq('idempotency_key', key)
+    .lt('created_at', cutoff);
+
+  const { data: run, error } = await supabase
+    .from('runs')
+    .select('*')
+    .eq('idempotency_key', key)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up idempotency key: ${error.message}`);
+  }
+
+  return run;
+}
@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import { buildFlowGraph, FlowStep, getUpstreamStepIds } from '@/lib/execution/graph';
+import { validateRouterConfig } from '@/lib/runners/router/local';
+import { findStepReferences } from '@/lib/template';
+
+// Prompt fields rendered with renderTemplate
+export const PROMPT_TEMPLATE_FIELDS = ['system_prompt', 'background_prompt', 'foreground_prompt', 'negative_prompt'];
+
+// Stands in for the ID of a prompt that hasn't been inserted yet
+export const NEW_PROMPT_ID = '00000000-0000-0000-0000-000000000000';
+
+const VIDEO_OPTION_NUMBERS = ['trim_start', 'trim_end', 'crossfade', 'width', 'height', 'fps', 'max_duration'];
+
+// Check a prompt's video_options. The numbers end up in an ffmpeg filter
+// graph, so anything but a plain number is refused. Throws with a message for
+// a 400 response.
+export function validateVideoOptions(options: unknown): void {
+  if (options === null || options === undefined) return;
+  if (typeof options !== 'object' || Array.isArray(options)) {
+    throw new Error('video_options must be an object');
+  }
+
+  const values = options as Record<string, unknown>;
+  for (const field of VIDEO_OPTION_NUMBERS) {
+    const value = values[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`video_options.${field} must be a non-negative number`);
+    }
+  }
+  if (values.strip_audio !== undefined && values.strip_audio !== null && typeof values.strip_audio !== 'boolean') {
+    throw new Error('video_options.strip_audio must be true or false');
+  }
+}
+
+// Check that the rest of the flow still holds together once a prompt is
+// deleted and removed from the depends_on of the prompts that waited for it.
+// Throws with a message for a 400 response.
+export function validatePromptRemoval(flowPrompts: Array<Record<string, unknown>>, promptId: string): void {
+  const prompts = flowPrompts
+    .filter((p) => p.id !== promptId)
+    .map((p) => Array.isArray(p.depends_on)
+      ? { ...p, depends_on: (p.depends_on as string[]).filter((id) => id !== promptId) }
+      : p);
+
+  validateRouters(buildFlowGraph(prompts));
+}
+
+// Routers can only select prompts that run after them. Changing one prompt's
+// dependencies can break another prompt's router, so every router is checked.
+function validateRouters(steps: FlowStep[], savedPromptId?: string): void {
+  for (const step of steps) {
+    if (step.prompt.endpoint_type !== 'Router' || !step.prompt.router_rules) continue;
+
+    const dependentIds = steps
+      .filter((candidate) => candidate.dependsOn.includes(step.id))
+      .map((candidate) => candidate.id);
+    try {
+      validateRouterConfig(step.prompt.router_rules, dependentIds);
+    } catch (error) {
+      if (step.id === savedPromptId) throw error;
+      const name = (step.prompt.step_key as string | null) || step.id;
+      throw new Error(`Router ${name} would be left invalid: ${(error as Error).message}`);
+    }
+  }
+}
+
+// Structured output is validated with z.fromJSONSchema at run time, so a
+// schema it can't compile would fail every run. Anthropic receives the schema
+// as a tool's input_schema, which must describe an object.
+function validateResponseSchema(schema: unknown): void {
+  if (schema === null || schema === undefined) return;
+  if (typeof schema !== 'object' || Array.isArray(schema) || (schema as Record<string, unknown>).type !== 'object') {
+    throw new Error('response_schema must be a JSON Schema with type "object"');
+  }
+
+  try {
+    z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]);
+  } catch (error) {
+    throw new Error(`response_schema is not a valid JSON Schema: ${(error as Error).message}`);
+  }
+}
+
+// Check a prompt against the rest of its flow before it is saved, so mistakes
+// fail the request instead of every later run. `prompt` is the prompt as it
+// will be stored. Throws with a message for a 400 response.
+export function validatePromptInFlow(
+  flowPrompts: Array<Record<string, unknown>>,
+  prompt: Record<string, unknown>
+): void {
+  const prompts = [...flowPrompts.filter((p) => p.id !== prompt.id), prompt];
+
+  validateResponseSchema(prompt.response_schema);
+
+  const dependsOn = prompt.depends_on;
+  if (dependsOn !== null && dependsOn !== undefined) {
+    if (!Array.isArray(dependsOn) || dependsOn.some((id) => typeof id !== 'string')) {
+      throw new Error('depends_on must be an array of prompt IDs');
+    }
+    const ids = new Set(prompts.map((p) => p.id));
+    const unknown = dependsOn.find((id) => !ids.has(id));
+    if (unknown) {
+      throw new Error(`depends_on references prompt ${unknown}, which is not in this flow`);
+    }
+  }
+
+  const steps = buildFlowGraph(prompts);
+  validateRouters(steps, prompt.id as string);
+
+  // Templates can only read steps that finish before this one
+  const operations = Array.isArray(prompt.image_operations) ? prompt.image_operations : [];
+  const templates = [
+    ...PROMPT_TEMPLATE_FIELDS.map((field) => prompt[field]),
+    ...operations.map((operation) => (operation as { text?: unknown } | null)?.text),
+  ].filter((template): template is string => typeof template === 'string');
+  const references = templates.flatMap(findStepReferences);
+
+  if (references.length > 0) {
+    const upstream = getUpstreamStepIds(steps, prompt.id as string);
+    for (const reference of references) {
+      const step = /^\d+$/.test(reference)
+        ? steps[Number(reference)]
+        : steps.find((candidate) => candidate.prompt.step_key === reference);
+      if (!step) {
+        throw new Error(`Template references unknown step ${reference}`);
+      }
+      if (!upstream.has(step.id)) {
+        throw new Error(`Template references step ${reference}, which this prompt does not depend on`);
+      }
+    }
+  }
+}
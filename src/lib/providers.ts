@@ -0,0 +1,37 @@
+import { ProviderAdapter } from '@/types/database';
+
+const VALID_ADAPTERS: ProviderAdapter[] = ['openai-compatible'];
+
+// Providers configured in settings can only read keys from variables named
+// for them, so a provider can't be pointed at secrets such as
+// SUPABASE_SERVICE_ROLE_KEY and send them to its base URL
+export const API_KEY_ENV_PATTERN = /^PROVIDER_[A-Z0-9_]+_API_KEY$/;
+
+// Returns an error message for an invalid adapter configuration, or null
+export function validateAdapterConfig(config: {
+  adapter?: string | null;
+  base_url?: string | null;
+  api_key_env?: string | null;
+}): string | null {
+  if (config.adapter && !VALID_ADAPTERS.includes(config.adapter as ProviderAdapter)) {
+    return `Invalid adapter: ${config.adapter}`;
+  }
+  if (config.adapter && !config.base_url) {
+    return 'Base URL is required for providers with an adapter';
+  }
+  if (config.base_url) {
+    let url: URL;
+    try {
+      url = new URL(config.base_url);
+    } catch {
+      return 'Base URL must be a valid URL';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'Base URL must use http or https';
+    }
+  }
+  if (config.api_key_env && !API_KEY_ENV_PATTERN.test(config.api_key_env)) {
+    return 'API key environment variable must be named PROVIDER_<NAME>_API_KEY';
+  }
+  return null;
+}
@@ -0,0 +1,121 @@
+import OpenAI, { toFile } from 'openai';
+import { RunPromptParams, RunPromptResult, renderTemplate, getTemplateVariables, getContentTypeFromUrl, uploadToStorage } from '../index';
+
+const DEFAULT_VOICE = 'alloy';
+
+const SPEECH_CONTENT_TYPES = {
+  mp3: 'audio/mpeg',
+  opus: 'audio/opus',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+} as const;
+
+type SpeechFormat = keyof typeof SPEECH_CONTENT_TYPES;
+
+function getOpenAI() {
+  return new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+  });
+}
+
+// Transcribes the step's first audio input. The rendered system prompt is
+// passed as a hint for names and vocabulary.
+export async function runAudioToTextOpenAI(params: RunPromptParams): Promise<RunPromptResult> {
+  const openai = getOpenAI();
+  const { prompt, inputImageUrl, inputUrls } = params;
+
+  const audioUrl = [...(inputUrls || []), inputImageUrl].find((url): url is string => !!url && isAudioUrl(url));
+  if (!audioUrl) {
+    throw new Error('AudioToText needs an audio input, such as an audio attachment or a TextToAudio step');
+  }
+
+  const response = await fetch(audioUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download audio: ${response.status}`);
+  }
+  const filename = audioUrl.split('?')[0].split('/').pop() || 'audio.mp3';
+  const file = await toFile(Buffer.from(await response.arrayBuffer()), filename);
+
+  const model = (prompt.selected_model as string) || 'gpt-4o-mini-transcribe';
+  const hint = renderTemplate(prompt.system_prompt as string || '', getTemplateVariables(params));
+
+  try {
+    const transcription = await openai.audio.transcriptions.create({
+      file,
+      model,
+      prompt: hint || undefined,
+    });
+
+    const usage = transcription.usage?.type === 'tokens' ? transcription.usage : undefined;
+
+    return {
+      response: {
+        model,
+        text: transcription.text,
+        usage: transcription.usage,
+      },
+      tokens: usage
+        ? { input: usage.input_tokens, output: usage.output_tokens, total: usage.total_tokens }
+        : undefined,
+      text: transcription.text,
+    };
+  } catch (error) {
+    console.error('OpenAI transcription error:', error);
+    throw error;
+  }
+}
+
+// Speaks the previous step's text, or the run's message for a first step.
+// gpt-4o TTS models also take the rendered system prompt as voice instructions.
+export async function runTextToAudioOpenAI(params: RunPromptParams): Promise<RunPromptResult> {
+  const openai = getOpenAI();
+  const { prompt, run, inputText, supabase } = params;
+
+  const text = inputText || (run.message as string) || '';
+  if (!text.trim()) {
+    throw new Error('Text is required for speech synthesis');
+  }
+
+  const model = (prompt.selected_model as string) || 'gpt-4o-mini-tts';
+  const voice = (prompt.voice as string) || DEFAULT_VOICE;
+  const format: SpeechFormat = Object.hasOwn(SPEECH_CONTENT_TYPES, prompt.output_format as string)
+    ? prompt.output_format as SpeechFormat
+    : 'mp3';
+  const instructions = renderTemplate(prompt.system_prompt as string || '', getTemplateVariables(params));
+
+  try {
+    const response = await openai.audio.speech.create({
+      model,
+      voice,
+      input: text,
+      response_format: format,
+      instructions: instructions && model.startsWith('gpt-4o') ? instructions : undefined,
+    });
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const filename = `speech_${Date.now()}.${format}`;
+    const { url: outputUrl, mediaId } = await uploadToStorage(supabase, buffer, filename, SPEECH_CONTENT_TYPES[format]);
+
+    return {
+      response: {
+        model,
+        voice,
+        format,
+        characters: text.length,
+      },
+      outputUrl,
+      outputMediaId: mediaId,
+      outputType: 'audio',
+      attachmentUrls: [outputUrl],
+      outputMediaIds: [mediaId],
+    };
+  } catch (error) {
+    console.error('OpenAI speech error:', error);
+    throw error;
+  }
+}
+
+function isAudioUrl(url: string): boolean {
+  return getContentTypeFromUrl(url.split('?')[0]).startsWith('audio/');
+}
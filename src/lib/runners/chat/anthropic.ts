@@ -1,5 +1,18 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { RunPromptParams, RunPromptResult, renderTemplate, imageUrlToBase64, getContentTypeFromUrl } from '../index';
+import { RunPromptParams, RunPromptResult, renderTemplate, getTemplateVariables, imageUrlToBase64, getContentTypeFromUrl, isImageInput, getUserMessage } from '../index';
+import { parseStructuredOutput, STRUCTURED_OUTPUT_NAME } from './structured-output';
+import { loadConversationHistory } from './history';
+import {
+  ToolCall,
+  getPromptTools,
+  getMaxToolIterations,
+  canExecuteToolCalls,
+  assertToolIterationsLeft,
+  executeToolCalls,
+  recordFinalMessage,
+} from './tools';
+
+export const MAX_OUTPUT_TOKENS = 1024;
 
 function getAnthropic() {
   return new Anthropic({
@@ -13,18 +26,19 @@ export async function runChatAnthropic(params: RunPromptParams): Promise<RunProm
 
   const systemPrompt = renderTemplate(
     prompt.system_prompt as string || '',
-    (run.variables as Record<string, unknown>) || {}
+    getTemplateVariables(params)
   );
 
   const content: Anthropic.MessageParam['content'] = [];
 
   // Add text message if present
-  if (run.message) {
-    content.push({ type: 'text', text: run.message as string });
+  const userMessage = getUserMessage(params);
+  if (userMessage) {
+    content.push({ type: 'text', text: userMessage });
   }
 
   // Add input image if available
-  if (inputImageUrl) {
+  if (inputImageUrl && isImageInput(inputImageUrl)) {
     const base64 = await imageUrlToBase64(inputImageUrl);
     const mediaType = getContentTypeFromUrl(inputImageUrl) as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
     content.push({
@@ -39,7 +53,7 @@ export async function runChatAnthropic(params: RunPromptParams): Promise<RunProm
 
   // Add attachment images
   const attachmentUrls = (run.attachment_urls as string[]) || [];
-  for (const url of attachmentUrls) {
+  for (const url of attachmentUrls.filter(isImageInput)) {
     const base64 = await imageUrlToBase64(url);
     const mediaType = getContentTypeFromUrl(url) as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
     content.push({
@@ -57,52 +71,111 @@ export async function runChatAnthropic(params: RunPromptParams): Promise<RunProm
     content.push({ type: 'text', text: 'Hello' });
   }
 
+  // Replay earlier turns of the conversation
+  const history = await loadConversationHistory(params);
   const messages: Anthropic.MessageParam[] = [
+    ...history.map((turn): Anthropic.MessageParam => ({ role: turn.role, content: turn.text })),
     { role: 'user', content },
   ];
 
   // Prepare tools if defined
-  const promptTools = (prompt.tools as Array<Record<string, unknown>>) || [];
-  const tools: Anthropic.Tool[] | undefined = promptTools.length > 0
-    ? promptTools.map((tool) => ({
-        name: tool.name as string,
-        description: tool.description as string,
-        input_schema: tool.parameters as Anthropic.Tool.InputSchema,
-      }))
+  const promptTools = getPromptTools(prompt);
+  const tools: Anthropic.Tool[] = promptTools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+  }));
+
+  // Structured output: force a tool call whose input schema is the response schema.
+  // With bound tools the model may call those first, so any tool is required instead.
+  const responseSchema = prompt.response_schema as Record<string, unknown> | null;
+  if (responseSchema) {
+    tools.push({
+      name: STRUCTURED_OUTPUT_NAME,
+      description: 'Respond with output matching this schema',
+      input_schema: responseSchema as Anthropic.Tool.InputSchema,
+    });
+  }
+  const toolChoice: Anthropic.ToolChoice | undefined = responseSchema
+    ? promptTools.some((tool) => tool.handler)
+      ? { type: 'any' }
+      : { type: 'tool', name: STRUCTURED_OUTPUT_NAME }
     : undefined;
 
+  const maxIterations = getMaxToolIterations(prompt);
+  const tokens = { input: 0, output: 0, total: 0 };
+
   try {
-    const message = await anthropic.messages.create({
-      model: (prompt.selected_model as string) || 'claude-3-5-sonnet-20240620',
-      max_tokens: 1024,
-      system: systemPrompt || undefined,
-      messages,
-      tools,
-    });
+    // Tool loop: execute the calls the model makes and send back the results
+    // until it answers without calling a bound tool
+    for (let iteration = 1; ; iteration++) {
+      const stream = anthropic.messages.stream({
+        model: (prompt.selected_model as string) || 'claude-3-5-sonnet-20240620',
+        max_tokens: MAX_OUTPUT_TOKENS,
+        system: systemPrompt || undefined,
+        messages,
+        tools: tools.length > 0 ? tools : undefined,
+        tool_choice: toolChoice,
+      });
+      if (params.onToken) {
+        stream.on('text', (delta) => params.onToken!(delta));
+      }
+      const message = await stream.finalMessage();
+
+      tokens.input += message.usage?.input_tokens || 0;
+      tokens.output += message.usage?.output_tokens || 0;
+      tokens.total += (message.usage?.input_tokens || 0) + (message.usage?.output_tokens || 0);
 
-    // Extract text from content blocks
-    let text = '';
-    for (const block of message.content) {
-      if (block.type === 'text') {
-        text += block.text;
+      // Extract text from content blocks
+      let text = '';
+      let hasStructuredOutput = false;
+      const toolCalls: ToolCall[] = [];
+      for (const block of message.content) {
+        if (block.type === 'text') {
+          text += block.text;
+        } else if (block.type === 'tool_use' && responseSchema && block.name === STRUCTURED_OUTPUT_NAME) {
+          text = JSON.stringify(block.input);
+          hasStructuredOutput = true;
+        } else if (block.type === 'tool_use') {
+          toolCalls.push({ id: block.id, name: block.name, arguments: block.input as Record<string, unknown> });
+        }
       }
-    }
 
-    return {
-      response: {
-        id: message.id,
-        model: message.model,
-        content: message.content,
-        usage: message.usage,
-        stop_reason: message.stop_reason,
-      },
-      tokens: {
-        input: message.usage?.input_tokens,
-        output: message.usage?.output_tokens,
-        total: (message.usage?.input_tokens || 0) + (message.usage?.output_tokens || 0),
-      },
-      text: text || undefined,
-    };
+      if (!hasStructuredOutput && canExecuteToolCalls(promptTools, toolCalls)) {
+        assertToolIterationsLeft(iteration, maxIterations);
+        const results = await executeToolCalls(params, promptTools, toolCalls, message.id);
+        messages.push({ role: 'assistant', content: message.content });
+        messages.push({
+          role: 'user',
+          content: toolCalls.map((toolCall, index) => ({
+            type: 'tool_result' as const,
+            tool_use_id: toolCall.id!,
+            content: results[index].content,
+            is_error: results[index].isError,
+          })),
+        });
+        continue;
+      }
+
+      if (promptTools.some((tool) => tool.handler)) {
+        await recordFinalMessage(params, message.id, text || undefined);
+      }
+      const json = responseSchema ? parseStructuredOutput(text, responseSchema) : undefined;
+
+      return {
+        response: {
+          id: message.id,
+          model: message.model,
+          content: message.content,
+          usage: message.usage,
+          stop_reason: message.stop_reason,
+          tool_iterations: iteration - 1,
+        },
+        tokens,
+        text: text || undefined,
+        json,
+      };
+    }
   } catch (error) {
     console.error('Anthropic chat error:', error);
     throw error;
@@ -1,6 +1,18 @@
-import { RunPromptParams, RunPromptResult, renderTemplate, imageUrlToBase64, getContentTypeFromUrl } from '../index';
+import { RunPromptParams, RunPromptResult, renderTemplate, getTemplateVariables, imageUrlToBase64, getContentTypeFromUrl, isImageInput, getUserMessage } from '../index';
+import { parseStructuredOutput } from './structured-output';
+import { loadConversationHistory } from './history';
+import {
+  ToolCall,
+  getPromptTools,
+  getMaxToolIterations,
+  canExecuteToolCalls,
+  assertToolIterationsLeft,
+  executeToolCalls,
+  recordFinalMessage,
+} from './tools';
 
 const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta';
+export const MAX_OUTPUT_TOKENS = 4096;
 
 interface GeminiPart {
   text?: string;
@@ -9,9 +21,15 @@ interface GeminiPart {
     data: string;
   };
   functionCall?: {
+    id?: string;
     name: string;
     args: Record<string, unknown>;
   };
+  functionResponse?: {
+    id?: string;
+    name: string;
+    response: Record<string, unknown>;
+  };
 }
 
 interface GeminiContent {
@@ -19,6 +37,66 @@ interface GeminiContent {
   parts: GeminiPart[];
 }
 
+interface GeminiResponse {
+  candidates?: Array<{ content?: GeminiContent; finishReason?: string }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  modelVersion?: string;
+  responseId?: string;
+}
+
+// Read a streamGenerateContent SSE response into a single response, passing
+// text to onToken as it arrives. Adjacent text parts are joined.
+async function readGeminiStream(
+  response: Response,
+  onToken?: (delta: string) => void
+): Promise<GeminiResponse> {
+  const merged: GeminiResponse = {};
+  const parts: GeminiPart[] = [];
+  let finishReason: string | undefined;
+
+  const handleChunk = (chunk: GeminiResponse) => {
+    merged.usageMetadata = chunk.usageMetadata || merged.usageMetadata;
+    merged.modelVersion = chunk.modelVersion || merged.modelVersion;
+    merged.responseId = chunk.responseId || merged.responseId;
+
+    const candidate = chunk.candidates?.[0];
+    finishReason = candidate?.finishReason || finishReason;
+    for (const part of candidate?.content?.parts || []) {
+      const last = parts[parts.length - 1];
+      if (part.text !== undefined && Object.keys(part).length === 1 && last?.text !== undefined && Object.keys(last).length === 1) {
+        last.text += part.text;
+      } else {
+        parts.push({ ...part });
+      }
+      if (part.text) onToken?.(part.text);
+    }
+  };
+
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+    for (const line of lines) {
+      if (line.startsWith('data:')) {
+        handleChunk(JSON.parse(line.slice(5)));
+      }
+    }
+    if (done) break;
+  }
+
+  merged.candidates = [{ content: { role: 'model', parts }, finishReason }];
+  return merged;
+}
+
 export async function runChatGemini(params: RunPromptParams): Promise<RunPromptResult> {
   const { prompt, run, inputImageUrl } = params;
 
@@ -29,18 +107,19 @@ export async function runChatGemini(params: RunPromptParams): Promise<RunPromptR
 
   const systemPrompt = renderTemplate(
     prompt.system_prompt as string || '',
-    (run.variables as Record<string, unknown>) || {}
+    getTemplateVariables(params)
   );
 
   const parts: GeminiPart[] = [];
 
   // Add text message if present
-  if (run.message) {
-    parts.push({ text: run.message as string });
+  const userMessage = getUserMessage(params);
+  if (userMessage) {
+    parts.push({ text: userMessage });
   }
 
   // Add input image if available
-  if (inputImageUrl) {
+  if (inputImageUrl && isImageInput(inputImageUrl)) {
     const base64 = await imageUrlToBase64(inputImageUrl);
     parts.push({
       inlineData: {
@@ -52,7 +131,7 @@ export async function runChatGemini(params: RunPromptParams): Promise<RunPromptR
 
   // Add attachment images
   const attachmentUrls = (run.attachment_urls as string[]) || [];
-  for (const url of attachmentUrls) {
+  for (const url of attachmentUrls.filter(isImageInput)) {
     const base64 = await imageUrlToBase64(url);
     parts.push({
       inlineData: {
@@ -67,12 +146,15 @@ export async function runChatGemini(params: RunPromptParams): Promise<RunPromptR
     parts.push({ text: 'Hello' });
   }
 
+  // Replay earlier turns of the conversation
+  const history = await loadConversationHistory(params);
   const contents: GeminiContent[] = [
+    ...history.map((turn) => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.text }] })),
     { role: 'user', parts },
   ];
 
   // Prepare tools if defined
-  const promptTools = (prompt.tools as Array<Record<string, unknown>>) || [];
+  const promptTools = getPromptTools(prompt);
   const tools = promptTools.length > 0
     ? {
         functionDeclarations: promptTools.map((tool) => ({
@@ -84,12 +166,17 @@ export async function runChatGemini(params: RunPromptParams): Promise<RunPromptR
     : undefined;
 
   const model = (prompt.selected_model as string) || 'gemini-2.5-flash';
-  const url = `${GEMINI_API_URL}/models/${model}:generateContent?key=${apiKey}`;
+  const url = `${GEMINI_API_URL}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`;
+
+  const responseSchema = prompt.response_schema as Record<string, unknown> | null;
 
   const requestBody: Record<string, unknown> = {
     contents,
     generationConfig: {
-      maxOutputTokens: 4096,
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+      // responseJsonSchema takes standard JSON Schema; responseSchema only
+      // accepts Gemini's OpenAPI subset
+      ...(responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema } : {}),
     },
   };
 
@@ -103,52 +190,87 @@ export async function runChatGemini(params: RunPromptParams): Promise<RunPromptR
     requestBody.tools = [tools];
   }
 
+  const maxIterations = getMaxToolIterations(prompt);
+  const tokens = { input: 0, output: 0, total: 0 };
+
   try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
+    // Tool loop: execute the calls the model makes and send back the results
+    // until it answers without calling a bound tool
+    for (let iteration = 1; ; iteration++) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+      });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
-    }
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+      }
+
+      const data = await readGeminiStream(response, params.onToken);
+
+      // Extract usage metadata
+      const usageMetadata = data.usageMetadata || {};
+      tokens.input += usageMetadata.promptTokenCount || 0;
+      tokens.output += usageMetadata.candidatesTokenCount || 0;
+      tokens.total += usageMetadata.totalTokenCount || 0;
 
-    const data = await response.json();
-
-    // Extract text from response
-    let text = '';
-    const candidates = data.candidates || [];
-    if (candidates.length > 0) {
-      const content = candidates[0].content;
-      if (content && content.parts) {
-        for (const part of content.parts) {
-          if (part.text) {
-            text += part.text;
-          }
+      // Extract text and function calls from response
+      let text = '';
+      const toolCalls: ToolCall[] = [];
+      const content = data.candidates?.[0]?.content;
+      for (const part of content?.parts || []) {
+        if (part.text) {
+          text += part.text;
+        }
+        if (part.functionCall) {
+          toolCalls.push({
+            id: part.functionCall.id || null,
+            name: part.functionCall.name,
+            arguments: part.functionCall.args || {},
+          });
         }
       }
-    }
 
-    // Extract usage metadata
-    const usageMetadata = data.usageMetadata || {};
+      if (content && canExecuteToolCalls(promptTools, toolCalls)) {
+        assertToolIterationsLeft(iteration, maxIterations);
+        const results = await executeToolCalls(params, promptTools, toolCalls, data.responseId || null);
+        contents.push(content);
+        contents.push({
+          role: 'user',
+          parts: toolCalls.map((toolCall, index) => ({
+            functionResponse: {
+              id: toolCall.id || undefined,
+              name: toolCall.name,
+              response: results[index].isError
+                ? { error: results[index].content }
+                : { result: results[index].content },
+            },
+          })),
+        });
+        continue;
+      }
 
-    return {
-      response: {
-        candidates: data.candidates,
-        usageMetadata: data.usageMetadata,
-        modelVersion: data.modelVersion,
-      },
-      tokens: {
-        input: usageMetadata.promptTokenCount,
-        output: usageMetadata.candidatesTokenCount,
-        total: usageMetadata.totalTokenCount,
-      },
-      text: text || undefined,
-    };
+      if (promptTools.some((tool) => tool.handler)) {
+        await recordFinalMessage(params, data.responseId || null, text || undefined);
+      }
+      const json = responseSchema ? parseStructuredOutput(text, responseSchema) : undefined;
+
+      return {
+        response: {
+          candidates: data.candidates,
+          usageMetadata: data.usageMetadata,
+          modelVersion: data.modelVersion,
+          tool_iterations: iteration - 1,
+        },
+        tokens,
+        text: text || undefined,
+        json,
+      };
+    }
   } catch (error) {
     console.error('Gemini chat error:', error);
     throw error;
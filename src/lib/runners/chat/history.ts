@@ -0,0 +1,66 @@
+import { RunPromptParams } from '../index';
+import { estimateTokens } from '@/lib/tokens';
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 8000;
+// Earlier runs read per step, before the budget is applied
+const MAX_HISTORY_RUNS = 50;
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export function getHistoryTokenBudget(prompt: Record<string, unknown>): number {
+  const budget = prompt.history_token_budget as number | null;
+  return budget ?? DEFAULT_HISTORY_TOKEN_BUDGET;
+}
+
+// Earlier turns of the run's conversation, oldest first: each completed run's
+// message and this step's reply in it (or the run's output when the step
+// didn't run). Whole exchanges are kept newest first until the budget is spent.
+export async function loadConversationHistory(params: RunPromptParams): Promise<ConversationTurn[]> {
+  const { supabase, prompt, run } = params;
+  const budget = getHistoryTokenBudget(prompt);
+  if (!run.conversation_id || budget === 0) {
+    return [];
+  }
+
+  const { data: runs, error } = await supabase
+    .from('runs')
+    .select('id, message, data, prompt_runs(prompt_id, output)')
+    .eq('conversation_id', run.conversation_id as string)
+    .eq('status', 'completed')
+    .neq('id', run.id as string)
+    .lt('created_at', run.created_at as string)
+    .order('created_at', { ascending: false })
+    .limit(MAX_HISTORY_RUNS);
+
+  if (error) {
+    throw new Error(`Failed to load conversation history: ${error.message}`);
+  }
+
+  const turns: ConversationTurn[] = [];
+  let remaining = budget;
+  for (const previous of runs || []) {
+    const message = previous.message as string | null;
+    const reply = getReplyText(previous, prompt.id as string);
+    if (!message || !reply) continue;
+
+    const cost = estimateTokens(message) + estimateTokens(reply);
+    if (cost > remaining) break;
+    remaining -= cost;
+    turns.unshift({ role: 'user', text: message }, { role: 'assistant', text: reply });
+  }
+
+  return turns;
+}
+
+function getReplyText(run: Record<string, unknown>, promptId: string): string | null {
+  const promptRuns = (run.prompt_runs as Array<{ prompt_id: string; output: { text?: string | null } | null }>) || [];
+  const stepText = promptRuns.find((promptRun) => promptRun.prompt_id === promptId)?.output?.text;
+  if (stepText) return stepText;
+
+  const data = (run.data as Record<string, unknown> | null) || {};
+  if (typeof data.text === 'string') return data.text;
+  return data.json !== undefined ? JSON.stringify(data.json) : null;
+}
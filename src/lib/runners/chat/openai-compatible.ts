@@ -0,0 +1,35 @@
+import OpenAI from 'openai';
+import { RunPromptParams, RunPromptResult } from '../index';
+import { runChatCompletions } from './openai';
+import { ProviderRecord } from '@/types/database';
+import { API_KEY_ENV_PATTERN } from '@/lib/providers';
+
+// Chat for providers configured in settings with the 'openai-compatible'
+// adapter: vLLM, Ollama, LiteLLM and other servers speaking Chat Completions
+export async function runChatOpenAICompatible(
+  params: RunPromptParams,
+  provider: ProviderRecord
+): Promise<RunPromptResult> {
+  return runChatCompletions(getClient(provider), params);
+}
+
+function getClient(provider: ProviderRecord): OpenAI {
+  let apiKey: string | undefined;
+  if (provider.api_key_env) {
+    // Also checked on save; records written before that rule are refused here
+    if (!API_KEY_ENV_PATTERN.test(provider.api_key_env)) {
+      throw new Error(`Provider ${provider.name} must read its key from a PROVIDER_<NAME>_API_KEY variable`);
+    }
+    apiKey = process.env[provider.api_key_env];
+    if (!apiKey) {
+      throw new Error(`Environment variable ${provider.api_key_env} for provider ${provider.name} is not set`);
+    }
+  }
+
+  return new OpenAI({
+    baseURL: provider.base_url!,
+    // Local servers often take no key. Pass a placeholder so the client
+    // never falls back to OPENAI_API_KEY and sends it to another host.
+    apiKey: apiKey || 'not-needed',
+  });
+}
@@ -1,5 +1,19 @@
 import OpenAI from 'openai';
-import { RunPromptParams, RunPromptResult, renderTemplate } from '../index';
+import { RunPromptParams, RunPromptResult, renderTemplate, getTemplateVariables, isImageInput, getUserMessage } from '../index';
+import { parseStructuredOutput, STRUCTURED_OUTPUT_NAME } from './structured-output';
+import { loadConversationHistory } from './history';
+import {
+  ToolCall,
+  getPromptTools,
+  getMaxToolIterations,
+  canExecuteToolCalls,
+  assertToolIterationsLeft,
+  executeToolCalls,
+  parseToolArguments,
+  recordFinalMessage,
+} from './tools';
+
+export const MAX_OUTPUT_TOKENS = 4096;
 
 function getOpenAI() {
   return new OpenAI({
@@ -8,12 +22,19 @@ function getOpenAI() {
 }
 
 export async function runChatOpenAI(params: RunPromptParams): Promise<RunPromptResult> {
-  const openai = getOpenAI();
+  return runChatCompletions(getOpenAI(), params);
+}
+
+// Chat Completions against any client, so OpenAI-compatible providers share it
+export async function runChatCompletions(
+  openai: OpenAI,
+  params: RunPromptParams
+): Promise<RunPromptResult> {
   const { prompt, run, inputImageUrl } = params;
 
   const systemPrompt = renderTemplate(
     prompt.system_prompt as string || '',
-    (run.variables as Record<string, unknown>) || {}
+    getTemplateVariables(params)
   );
 
   const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
@@ -23,15 +44,21 @@ export async function runChatOpenAI(params: RunPromptParams): Promise<RunPromptR
     messages.push({ role: 'system', content: systemPrompt });
   }
 
+  // Replay earlier turns of the conversation
+  for (const turn of await loadConversationHistory(params)) {
+    messages.push({ role: turn.role, content: turn.text });
+  }
+
   // Build user message with optional image
   const userContent: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [];
 
-  if (run.message) {
-    userContent.push({ type: 'text', text: run.message as string });
+  const userMessage = getUserMessage(params);
+  if (userMessage) {
+    userContent.push({ type: 'text', text: userMessage });
   }
 
   // Add input image if available
-  if (inputImageUrl) {
+  if (inputImageUrl && isImageInput(inputImageUrl)) {
     userContent.push({
       type: 'image_url',
       image_url: { url: inputImageUrl },
@@ -40,7 +67,7 @@ export async function runChatOpenAI(params: RunPromptParams): Promise<RunPromptR
 
   // Add attachment images
   const attachmentUrls = (run.attachment_urls as string[]) || [];
-  for (const url of attachmentUrls) {
+  for (const url of attachmentUrls.filter(isImageInput)) {
     userContent.push({
       type: 'image_url',
       image_url: { url },
@@ -52,35 +79,79 @@ export async function runChatOpenAI(params: RunPromptParams): Promise<RunPromptR
   }
 
   // Prepare tools if defined
-  const tools = (prompt.tools as OpenAI.Chat.Completions.ChatCompletionTool[]) || undefined;
+  const promptTools = getPromptTools(prompt);
+  const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = promptTools.map((tool) => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+  const responseSchema = prompt.response_schema as Record<string, unknown> | null;
+  const maxIterations = getMaxToolIterations(prompt);
+  const tokens = { input: 0, output: 0, total: 0 };
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: (prompt.selected_model as string) || 'gpt-4o',
-      messages,
-      tools: tools && tools.length > 0 ? tools : undefined,
-      max_tokens: 4096,
-    });
+    // Tool loop: execute the calls the model makes and send back the results
+    // until it answers without calling a bound tool
+    for (let iteration = 1; ; iteration++) {
+      const stream = openai.chat.completions.stream({
+        model: (prompt.selected_model as string) || 'gpt-4o',
+        messages,
+        tools: tools.length > 0 ? tools : undefined,
+        response_format: responseSchema
+          ? { type: 'json_schema', json_schema: { name: STRUCTURED_OUTPUT_NAME, schema: responseSchema } }
+          : undefined,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        stream_options: { include_usage: true },
+      });
+      if (params.onToken) {
+        stream.on('content', (delta) => params.onToken!(delta));
+      }
+      const completion = await stream.finalChatCompletion();
+
+      tokens.input += completion.usage?.prompt_tokens || 0;
+      tokens.output += completion.usage?.completion_tokens || 0;
+      tokens.total += completion.usage?.total_tokens || 0;
+
+      const choice = completion.choices[0];
+      const message = choice?.message;
+      const toolCalls: ToolCall[] = (message?.tool_calls || [])
+        .filter((toolCall) => toolCall.type === 'function')
+        .map((toolCall) => ({
+          id: toolCall.id,
+          name: toolCall.function.name,
+          ...parseToolArguments(toolCall.function.arguments),
+        }));
+
+      if (message && canExecuteToolCalls(promptTools, toolCalls)) {
+        assertToolIterationsLeft(iteration, maxIterations);
+        const results = await executeToolCalls(params, promptTools, toolCalls, completion.id);
+        messages.push(message);
+        toolCalls.forEach((toolCall, index) => {
+          messages.push({ role: 'tool', tool_call_id: toolCall.id!, content: results[index].content });
+        });
+        continue;
+      }
+
+      const text = message?.content || undefined;
+      if (promptTools.some((tool) => tool.handler)) {
+        await recordFinalMessage(params, completion.id, text);
+      }
+      const json = responseSchema ? parseStructuredOutput(text, responseSchema) : undefined;
 
-    const choice = completion.choices[0];
-    const message = choice?.message;
-
-    return {
-      response: {
-        id: completion.id,
-        model: completion.model,
-        choices: completion.choices,
-        usage: completion.usage,
-      },
-      tokens: {
-        input: completion.usage?.prompt_tokens,
-        output: completion.usage?.completion_tokens,
-        total: completion.usage?.total_tokens,
-      },
-      text: message?.content || undefined,
-    };
+      return {
+        response: {
+          id: completion.id,
+          model: completion.model,
+          choices: completion.choices,
+          usage: completion.usage,
+          tool_iterations: iteration - 1,
+        },
+        tokens,
+        text,
+        json,
+      };
+    }
   } catch (error) {
-    console.error('OpenAI chat error:', error);
+    console.error(`Chat completions error (${openai.baseURL}):`, error);
     throw error;
   }
 }
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+// Name used for the schema in provider requests (OpenAI json_schema name,
+// Anthropic forced tool name)
+export const STRUCTURED_OUTPUT_NAME = 'structured_output';
+
+// Parse a Chat step's text and validate it against the prompt's JSON Schema.
+// Errors start with "Invalid structured output" so the retry policy can
+// classify them as invalid_output and try again.
+export function parseStructuredOutput(text: string | undefined, schema: Record<string, unknown>): unknown {
+  let data: unknown;
+  try {
+    // Tolerate models that wrap JSON in a ```json fence despite the schema
+    data = JSON.parse((text || '').trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch {
+    throw new Error('Invalid structured output: response is not valid JSON');
+  }
+
+  const result = z.fromJSONSchema(schema).safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 5)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid structured output: ${issues}`);
+  }
+
+  return data;
+}
@@ -0,0 +1,285 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RunPromptParams } from '../index';
+import { assertRunNotStopped } from '@/lib/execution/cancellation';
+
+export const DEFAULT_MAX_TOOL_ITERATIONS = 5;
+const TOOL_TIMEOUT_MS = 30000;
+// Maximum flow tool runs nested inside one another
+const MAX_FLOW_TOOL_DEPTH = 3;
+
+// Where a tool call is sent. Tools without a handler are only forwarded to
+// the provider, and a call to one ends the tool loop.
+export type ToolHandler =
+  | { type: 'http'; url: string; method?: string; headers?: Record<string, string> }
+  | { type: 'flow'; flow_id: string };
+
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+  handler?: ToolHandler;
+}
+
+export interface ToolCall {
+  id: string | null;
+  name: string;
+  arguments: Record<string, unknown>;
+  // The raw arguments when the model sent text that isn't a JSON object
+  invalidArguments?: string;
+}
+
+export interface ToolCallResult {
+  content: string;
+  contentType: string;
+  isError: boolean;
+}
+
+// prompt.tools accepts both the flat { name, description, parameters } shape
+// and OpenAI's { type: 'function', function: { ... } } shape
+export function getPromptTools(prompt: Record<string, unknown>): ToolDefinition[] {
+  const tools = (prompt.tools as Array<Record<string, unknown>>) || [];
+  return tools.map((tool) => {
+    const fn = (tool.function as Record<string, unknown>) || tool;
+    return {
+      name: fn.name as string,
+      description: fn.description as string | undefined,
+      parameters: fn.parameters as Record<string, unknown> | undefined,
+      handler: (tool.handler || fn.handler) as ToolHandler | undefined,
+    };
+  });
+}
+
+// OpenAI sends arguments as JSON text written by the model, which may not parse
+export function parseToolArguments(raw: string | null | undefined): Pick<ToolCall, 'arguments' | 'invalidArguments'> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return { arguments: parsed };
+    }
+  } catch {
+    // Returned to the model as an error below
+  }
+  return { arguments: {}, invalidArguments: raw || '' };
+}
+
+export function getMaxToolIterations(prompt: Record<string, unknown>): number {
+  return (prompt.max_tool_iterations as number | null) || DEFAULT_MAX_TOOL_ITERATIONS;
+}
+
+// True when the model asked for tools we can execute. Calls to tools without a
+// handler are returned to the caller as before.
+export function canExecuteToolCalls(tools: ToolDefinition[], calls: ToolCall[]): boolean {
+  return calls.length > 0 && calls.every((call) => tools.find((tool) => tool.name === call.name)?.handler);
+}
+
+export function assertToolIterationsLeft(iteration: number, maxIterations: number): void {
+  if (iteration > maxIterations) {
+    throw new Error(`Tool call limit reached after ${maxIterations} iterations`);
+  }
+}
+
+// Run each call in order and record the call and its result in the
+// responses and outputs tables. Failures are returned to the model as
+// error results so it can recover.
+export async function executeToolCalls(
+  params: RunPromptParams,
+  tools: ToolDefinition[],
+  calls: ToolCall[],
+  providerId: string | null
+): Promise<ToolCallResult[]> {
+  const { supabase, promptRun, run } = params;
+  await assertRunNotStopped(supabase, run.id as string);
+
+  const results: ToolCallResult[] = [];
+  for (const call of calls) {
+    const tool = tools.find((t) => t.name === call.name)!;
+    await recordResponse(supabase, promptRun.id as string, {
+      provider_id: providerId,
+      role: 'assistant',
+      response_type: 'function_call',
+      status: 'completed',
+      call_id: call.id,
+      name: call.name,
+      arguments: call.invalidArguments ?? JSON.stringify(call.arguments),
+    });
+
+    let result: ToolCallResult;
+    try {
+      if (call.invalidArguments !== undefined) {
+        throw new Error('Tool arguments must be a JSON object');
+      }
+      result = await executeToolCall(tool.handler!, call.arguments, params);
+    } catch (error) {
+      result = {
+        content: `Error: ${error instanceof Error ? error.message : 'Tool call failed'}`,
+        contentType: 'text/plain',
+        isError: true,
+      };
+    }
+
+    await recordResponse(supabase, promptRun.id as string, {
+      provider_id: providerId,
+      role: 'tool',
+      response_type: 'function_call_output',
+      status: result.isError ? 'failed' : 'completed',
+      call_id: call.id,
+      name: call.name,
+      output: { text: result.content, content_type: result.contentType },
+    });
+    results.push(result);
+  }
+
+  return results;
+}
+
+// Record the model's final message once the tool loop has finished
+export async function recordFinalMessage(
+  params: RunPromptParams,
+  providerId: string | null,
+  text: string | undefined
+): Promise<void> {
+  await recordResponse(params.supabase, params.promptRun.id as string, {
+    provider_id: providerId,
+    role: 'assistant',
+    response_type: 'message',
+    status: 'completed',
+    output: text ? { text, content_type: 'text/plain' } : undefined,
+  });
+}
+
+async function executeToolCall(
+  handler: ToolHandler,
+  args: Record<string, unknown>,
+  params: RunPromptParams
+): Promise<ToolCallResult> {
+  if (handler.type === 'flow') {
+    return executeFlowTool(handler.flow_id, args, params);
+  }
+
+  const method = (handler.method || 'POST').toUpperCase();
+  let url = handler.url;
+  if (method === 'GET') {
+    const query = new URLSearchParams(
+      Object.entries(args).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])
+    );
+    url += (url.includes('?') ? '&' : '?') + query.toString();
+  }
+
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...handler.headers },
+    body: method === 'GET' ? undefined : JSON.stringify(args),
+    signal: AbortSignal.timeout(TOOL_TIMEOUT_MS),
+  });
+  const content = await response.text();
+
+  return {
+    content: response.ok ? content : `Error: ${response.status} - ${content}`,
+    contentType: response.headers.get('content-type') || 'text/plain',
+    isError: !response.ok,
+  };
+}
+
+// Run another flow with the call's arguments as its variables and return the
+// finished run's data
+async function executeFlowTool(
+  flowId: string,
+  args: Record<string, unknown>,
+  params: RunPromptParams
+): Promise<ToolCallResult> {
+  const { supabase, run, baseUrl } = params;
+
+  // Flows already running further up this chain of tool calls, so A -> B -> A
+  // is stopped as well as A -> A
+  const chain = [...((run.tool_call_flow_ids as string[] | null) || []), run.flow_id as string];
+  if (chain.includes(flowId)) {
+    throw new Error('A flow cannot call itself as a tool, directly or through another flow');
+  }
+  if (chain.length > MAX_FLOW_TOOL_DEPTH) {
+    throw new Error(`Flow tools can only be nested ${MAX_FLOW_TOOL_DEPTH} deep`);
+  }
+  if (!baseUrl) {
+    throw new Error('Flow tools need the app URL to start a run');
+  }
+
+  const { data: toolRun, error: createError } = await supabase
+    .from('runs')
+    .insert({
+      flow_id: flowId,
+      variables: args,
+      message: typeof args.message === 'string' ? args.message : null,
+      attachment_urls: Array.isArray(args.attachment_urls) ? args.attachment_urls : [],
+      status: 'pending',
+      started_at: new Date().toISOString(),
+      // Skips the queue: the calling run is already holding its slots and waits on this one
+      dispatched_at: new Date().toISOString(),
+      tool_call_flow_ids: chain,
+      data: {},
+    })
+    .select('id')
+    .single();
+
+  if (createError || !toolRun) {
+    throw new Error(`Failed to create tool run: ${createError?.message}`);
+  }
+
+  // The execute endpoint returns once the run has finished
+  await fetch(`${baseUrl}/api/runs/${toolRun.id}/execute`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  const { data: finishedRun } = await supabase
+    .from('runs')
+    .select('status, data')
+    .eq('id', toolRun.id)
+    .single();
+
+  if (finishedRun?.status !== 'completed') {
+    const error = (finishedRun?.data as { error?: string } | null)?.error;
+    throw new Error(`Tool run ${toolRun.id} ${finishedRun?.status || 'failed'}${error ? `: ${error}` : ''}`);
+  }
+
+  return {
+    content: JSON.stringify(finishedRun.data),
+    contentType: 'application/json',
+    isError: false,
+  };
+}
+
+async function recordResponse(
+  supabase: SupabaseClient,
+  promptRunId: string,
+  entry: {
+    provider_id: string | null;
+    role: string;
+    response_type: string;
+    status: string;
+    call_id?: string | null;
+    name?: string;
+    arguments?: string;
+    output?: { text: string; content_type: string };
+  }
+): Promise<void> {
+  const { output, ...response } = entry;
+
+  const { data, error } = await supabase
+    .from('responses')
+    .insert({ prompt_run_id: promptRunId, ...response })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('Failed to record tool response:', error);
+    return;
+  }
+
+  if (output) {
+    const { error: outputError } = await supabase
+      .from('outputs')
+      .insert({ response_id: data.id, provider_id: entry.provider_id, ...output });
+    if (outputError) {
+      console.error('Failed to record tool output:', outputError);
+    }
+  }
+}
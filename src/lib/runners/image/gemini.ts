@@ -1,4 +1,4 @@
-import { RunPromptParams, RunPromptResult, renderTemplate, imageUrlToBase64, getContentTypeFromUrl, uploadToStorage } from '../index';
+import { RunPromptParams, RunPromptResult, renderTemplate, getTemplateVariables, imageUrlToBase64, getContentTypeFromUrl, uploadToStorage } from '../index';
 
 const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta';
 
@@ -12,7 +12,7 @@ export async function runImageGemini(params: RunPromptParams): Promise<RunPrompt
 
   const imagePrompt = renderTemplate(
     prompt.system_prompt as string || prompt.background_prompt as string || 'Generate an image',
-    (run.variables as Record<string, unknown>) || {}
+    getTemplateVariables(params)
   );
 
   const model = (prompt.selected_model as string) || 'gemini-2.5-flash-image-preview';
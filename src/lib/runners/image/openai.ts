@@ -1,5 +1,5 @@
 import OpenAI from 'openai';
-import { RunPromptParams, RunPromptResult, renderTemplate, uploadToStorage } from '../index';
+import { RunPromptParams, RunPromptResult, renderTemplate, getTemplateVariables, uploadToStorage } from '../index';
 
 function getOpenAI() {
   return new OpenAI({
@@ -14,11 +14,11 @@ function isGptImageModel(model: string): boolean {
 
 export async function runImageOpenAI(params: RunPromptParams): Promise<RunPromptResult> {
   const openai = getOpenAI();
-  const { prompt, run, inputImageUrl, attachmentUrls, supabase } = params;
+  const { prompt, inputImageUrl, attachmentUrls, supabase } = params;
 
   const imagePrompt = renderTemplate(
     prompt.system_prompt as string || prompt.background_prompt as string || 'Generate an image',
-    (run.variables as Record<string, unknown>) || {}
+    getTemplateVariables(params)
   );
 
   const model = (prompt.selected_model as string) || 'dall-e-3';
@@ -1,4 +1,5 @@
-import { RunPromptParams, RunPromptResult, renderTemplate, uploadToStorage } from '../index';
+import { RunPromptParams, RunPromptResult, renderTemplate, getTemplateVariables, uploadToStorage } from '../index';
+import { assertRunNotStopped } from '@/lib/execution/cancellation';
 
 const STABILITY_API_URL = 'https://api.stability.ai/v2beta';
 
@@ -100,7 +101,7 @@ async function runReplaceBackgroundAndRelight(
   apiKey: string
 ): Promise<RunPromptResult> {
   const { prompt, run, supabase } = params;
-  const variables = (run.variables as Record<string, unknown>) || {};
+  const variables = getTemplateVariables(params);
 
   // Render prompts with variables
   const backgroundPrompt = renderTemplate(
@@ -182,7 +183,7 @@ async function runReplaceBackgroundAndRelight(
     // Check if generation is complete or needs polling
     if (data.id && data.status === 'pending') {
       // Need to poll for results
-      const result = await pollForResult(apiKey, data.id, supabase, outputFormat);
+      const result = await pollForResult(apiKey, data.id, supabase, run.id as string, outputFormat);
       return result;
     }
 
@@ -231,6 +232,7 @@ async function pollForResult(
   apiKey: string,
   generationId: string,
   supabase: Parameters<typeof uploadToStorage>[0],
+  runId: string,
   outputFormat: string,
   maxAttempts = 60,
   intervalMs = 5000
@@ -238,6 +240,7 @@ async function pollForResult(
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     // Wait before polling
     await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    await assertRunNotStopped(supabase, runId);
 
     const response = await fetch(`${STABILITY_API_URL}/results/${generationId}`, {
       method: 'GET',
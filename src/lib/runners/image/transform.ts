@@ -0,0 +1,445 @@
+import sharp from 'sharp';
+import { inArray } from 'drizzle-orm';
+import { RunPromptParams, RunPromptResult, renderTemplate, getTemplateVariables, uploadToStorage } from '../index';
+import { db, media } from '@/lib/db';
+import { ImageFormat, ImageOperation, ImagePosition } from '@/types/database';
+
+const IMAGE_FORMATS: ImageFormat[] = ['png', 'jpeg', 'webp', 'avif'];
+const RESIZE_FITS = ['inside', 'cover', 'fill'];
+const CROP_GRAVITIES = ['center', 'top', 'bottom', 'left', 'right'];
+const POSITIONS: ImagePosition[] = [
+  'center',
+  'top',
+  'bottom',
+  'left',
+  'right',
+  'top-left',
+  'top-right',
+  'bottom-left',
+  'bottom-right',
+];
+const MAX_DIMENSION = 8192;
+const DEFAULT_PAD_COLOR = '#ffffff';
+// A color name (including transparent) or hex code
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|[a-z]+)$/i;
+const DEFAULT_TEXT_COLOR = '#ffffff';
+const DEFAULT_FONT = 'sans';
+// Default font size as a share of the image height
+const DEFAULT_TEXT_SCALE = 0.05;
+// At 72 dpi a font point is one pixel, so font_size is in pixels
+const TEXT_DPI = 72;
+
+// Decoded pixels handed from one operation to the next, so only the final
+// output is encoded
+interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  channels: sharp.Channels;
+}
+
+// An encoded overlay or text image to composite onto the step's image
+interface Layer {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+type OverlayOperation = Extract<ImageOperation, { type: 'overlay' }>;
+type TextOperation = Extract<ImageOperation, { type: 'text' }>;
+
+// ImageTransform steps run locally: they apply the prompt's image_operations
+// in order to the step's input image and save the result to the library.
+export async function runImageTransformLocal(params: RunPromptParams): Promise<RunPromptResult> {
+  const { prompt, inputImageUrl, supabase } = params;
+
+  const operations = parseOperations(renderImageOperations(prompt.image_operations, getTemplateVariables(params)));
+  if (!inputImageUrl) {
+    throw new Error('ImageTransform needs an image input');
+  }
+  const overlayUrls = await findOverlayUrls(operations);
+
+  const response = await fetch(inputImageUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download image: ${response.status}`);
+  }
+  const source = Buffer.from(await response.arrayBuffer());
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(source).metadata();
+  } catch {
+    throw new Error('Input is not an image');
+  }
+
+  // Apply the EXIF orientation so crops and pads match what viewers show
+  let image = await toRaw(sharp(source).rotate());
+  let format = IMAGE_FORMATS.find((f) => f === metadata.format) || 'png';
+  let quality: number | undefined;
+
+  for (const operation of operations) {
+    switch (operation.type) {
+      case 'resize':
+        image = await toRaw(load(image).resize({
+          width: operation.width,
+          height: operation.height,
+          fit: operation.fit || 'inside',
+        }));
+        break;
+      case 'crop':
+        image = await toRaw(load(image).extract(cropBox(image, operation)));
+        break;
+      case 'pad':
+        image = await pad(image, operation);
+        break;
+      case 'convert':
+        format = operation.format;
+        quality = operation.quality;
+        break;
+      case 'overlay':
+        image = await placeLayer(
+          image,
+          await overlayLayer(image, operation, overlayUrls.get(operation.media_id)!),
+          operation.position || 'bottom-right',
+          operation
+        );
+        break;
+      case 'text':
+        image = await placeLayer(image, await textLayer(image, operation), operation.position || 'bottom', operation);
+        break;
+    }
+  }
+
+  let output = load(image);
+  if (format === 'jpeg' && (image.channels === 2 || image.channels === 4)) {
+    // JPEG has no alpha channel, so transparent areas become white
+    output = output.flatten({ background: DEFAULT_PAD_COLOR });
+  }
+  const buffer = await output
+    .toFormat(format, format !== 'png' && quality ? { quality } : {})
+    .toBuffer();
+
+  const extension = format === 'jpeg' ? 'jpg' : format;
+  const { url, mediaId } = await uploadToStorage(
+    supabase,
+    buffer,
+    `transform_${Date.now()}.${extension}`,
+    `image/${format}`,
+    { width: image.width, height: image.height }
+  );
+
+  return {
+    response: {
+      model: prompt.selected_model,
+      operations: operations.map((operation) => operation.type),
+      source: { width: metadata.width, height: metadata.height, format: metadata.format },
+      width: image.width,
+      height: image.height,
+      format,
+    },
+    outputUrl: url,
+    outputMediaId: mediaId,
+    outputType: 'image',
+    attachmentUrls: [url],
+    outputMediaIds: [mediaId],
+  };
+}
+
+// Text operations can use {{variables}} like the prompt templates. Also used
+// for cache keys, so a changed variable misses the cache.
+export function renderImageOperations(value: unknown, variables: Record<string, unknown>): unknown {
+  if (!Array.isArray(value)) return value ?? null;
+  return value.map((operation) =>
+    operation?.type === 'text' && typeof operation.text === 'string'
+      ? { ...operation, text: renderTemplate(operation.text, variables) }
+      : operation
+  );
+}
+
+// Check a prompt's image_operations when it is saved. A step without
+// operations can be saved and fails when run. Throws with a message for a 400
+// response.
+export function validateImageOperations(value: unknown): void {
+  if (value === null || value === undefined) return;
+  parseOperations(value);
+}
+
+// Check the stored operations up front so a bad step fails before downloading
+function parseOperations(value: unknown): ImageOperation[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('ImageTransform step has no image operations configured');
+  }
+
+  return value.map((operation: ImageOperation, index) => {
+    const fail = (message: string): never => {
+      throw new Error(`Image operation ${index + 1} (${operation?.type}): ${message}`);
+    };
+    const checkSize = (width?: number, height?: number) => {
+      for (const size of [width, height]) {
+        if (size !== undefined && (!Number.isInteger(size) || size < 1 || size > MAX_DIMENSION)) {
+          fail(`width and height must be whole numbers from 1 to ${MAX_DIMENSION}`);
+        }
+      }
+    };
+    const checkLayer = (layer: OverlayOperation | TextOperation) => {
+      if (layer.position && !POSITIONS.includes(layer.position)) fail(`position must be one of ${POSITIONS.join(', ')}`);
+      if (layer.margin !== undefined && (!Number.isInteger(layer.margin) || layer.margin < 0)) {
+        fail('margin must be a whole number of pixels');
+      }
+      if (layer.opacity !== undefined && (typeof layer.opacity !== 'number' || layer.opacity < 0 || layer.opacity > 1)) {
+        fail('opacity must be from 0 to 1');
+      }
+    };
+
+    switch (operation?.type) {
+      case 'resize':
+        checkSize(operation.width, operation.height);
+        if (!operation.width && !operation.height) fail('width or height is required');
+        if (operation.fit && !RESIZE_FITS.includes(operation.fit)) fail(`fit must be one of ${RESIZE_FITS.join(', ')}`);
+        break;
+      case 'crop':
+      case 'pad':
+        checkSize(operation.width, operation.height);
+        if (operation.aspect_ratio !== undefined) {
+          if (!parseAspectRatio(operation.aspect_ratio)) fail('aspect_ratio must look like "4:5"');
+        } else if (!operation.width && !operation.height) {
+          fail('aspect_ratio, width or height is required');
+        }
+        if (operation.type === 'crop' && operation.gravity && !CROP_GRAVITIES.includes(operation.gravity)) {
+          fail(`gravity must be one of ${CROP_GRAVITIES.join(', ')}`);
+        }
+        if (operation.type === 'pad' && operation.color !== undefined && !COLOR_PATTERN.test(operation.color)) {
+          fail('color must be a color name, hex code or transparent');
+        }
+        break;
+      case 'convert':
+        if (!IMAGE_FORMATS.includes(operation.format)) fail(`format must be one of ${IMAGE_FORMATS.join(', ')}`);
+        if (operation.quality !== undefined && (!Number.isInteger(operation.quality) || operation.quality < 1 || operation.quality > 100)) {
+          fail('quality must be a whole number from 1 to 100');
+        }
+        break;
+      case 'overlay':
+        checkLayer(operation);
+        if (typeof operation.media_id !== 'string' || !operation.media_id.startsWith('img_')) {
+          fail('media_id must be the img_ ID of a library image');
+        }
+        if (operation.scale !== undefined && (typeof operation.scale !== 'number' || operation.scale <= 0 || operation.scale > 1)) {
+          fail('scale must be greater than 0 and at most 1');
+        }
+        break;
+      case 'text':
+        checkLayer(operation);
+        if (typeof operation.text !== 'string' || !operation.text.trim()) fail('text is required');
+        if (operation.font_size !== undefined && (!Number.isInteger(operation.font_size) || operation.font_size < 1 || operation.font_size > MAX_DIMENSION)) {
+          fail('font_size must be a whole number of pixels');
+        }
+        // Both end up in Pango markup
+        if (operation.color !== undefined && !COLOR_PATTERN.test(operation.color)) {
+          fail('color must be a color name or hex code');
+        }
+        if (operation.font !== undefined && !/^[\w ,-]+$/.test(operation.font)) {
+          fail('font must be a font family name');
+        }
+        break;
+      default:
+        fail('type must be one of resize, crop, pad, convert, overlay, text');
+    }
+    return operation;
+  });
+}
+
+// "4:5" -> 0.8, or null if the ratio is malformed
+function parseAspectRatio(value: string): number | null {
+  const match = typeof value === 'string' ? value.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/) : null;
+  const ratio = match ? Number(match[1]) / Number(match[2]) : NaN;
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : null;
+}
+
+function cropBox(image: RawImage, operation: Extract<ImageOperation, { type: 'crop' }>) {
+  let width = Math.min(operation.width || image.width, image.width);
+  let height = Math.min(operation.height || image.height, image.height);
+  if (operation.aspect_ratio) {
+    const ratio = parseAspectRatio(operation.aspect_ratio)!;
+    if (image.width / image.height > ratio) {
+      height = image.height;
+      width = Math.max(1, Math.round(height * ratio));
+    } else {
+      width = image.width;
+      height = Math.max(1, Math.round(width / ratio));
+    }
+  }
+
+  const gravity = operation.gravity || 'center';
+  const left = gravity === 'left' ? 0
+    : gravity === 'right' ? image.width - width
+    : Math.floor((image.width - width) / 2);
+  const top = gravity === 'top' ? 0
+    : gravity === 'bottom' ? image.height - height
+    : Math.floor((image.height - height) / 2);
+
+  return { left, top, width, height };
+}
+
+async function pad(image: RawImage, operation: Extract<ImageOperation, { type: 'pad' }>): Promise<RawImage> {
+  let width = operation.width || image.width;
+  let height = operation.height || image.height;
+  if (operation.aspect_ratio) {
+    const ratio = parseAspectRatio(operation.aspect_ratio)!;
+    if (image.width / image.height > ratio) {
+      width = image.width;
+      height = Math.round(width / ratio);
+    } else {
+      height = image.height;
+      width = Math.round(height * ratio);
+    }
+  }
+
+  if (width < image.width || height < image.height) {
+    throw new Error(`Pad canvas ${width}x${height} is smaller than the ${image.width}x${image.height} image; resize it first`);
+  }
+  // A narrow ratio on a large image can ask for an enormous canvas
+  if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw new Error(`Pad canvas ${width}x${height} is larger than ${MAX_DIMENSION}px; resize the image first`);
+  }
+
+  const color = operation.color || DEFAULT_PAD_COLOR;
+  let pipeline = load(image);
+  if (color === 'transparent') {
+    pipeline = pipeline.ensureAlpha();
+  }
+
+  const top = Math.floor((height - image.height) / 2);
+  const left = Math.floor((width - image.width) / 2);
+  return toRaw(pipeline.extend({
+    top,
+    bottom: height - image.height - top,
+    left,
+    right: width - image.width - left,
+    background: color === 'transparent' ? { r: 0, g: 0, b: 0, alpha: 0 } : color,
+  }));
+}
+
+// Overlays come from the media library, checked before the input is downloaded
+async function findOverlayUrls(operations: ImageOperation[]): Promise<Map<string, string>> {
+  const ids = [...new Set(operations.flatMap((operation) => (operation.type === 'overlay' ? [operation.media_id] : [])))];
+  if (ids.length === 0) return new Map();
+
+  const records = await db
+    .select({ id: media.id, type: media.type, url: media.url })
+    .from(media)
+    .where(inArray(media.id, ids));
+
+  for (const id of ids) {
+    const record = records.find((r) => r.id === id);
+    if (!record) {
+      throw new Error(`Overlay media ${id} not found`);
+    }
+    if (record.type !== 'image') {
+      throw new Error(`Overlay media ${id} is not an image`);
+    }
+  }
+
+  return new Map(records.map((record) => [record.id, record.url]));
+}
+
+async function overlayLayer(image: RawImage, operation: OverlayOperation, url: string): Promise<Layer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download overlay ${operation.media_id}: ${response.status}`);
+  }
+
+  let pipeline = sharp(Buffer.from(await response.arrayBuffer())).rotate();
+  if (operation.scale) {
+    pipeline = pipeline.resize({ width: Math.max(1, Math.round(image.width * operation.scale)) });
+  }
+  const layer = await toLayer(pipeline);
+  if (layer.width <= image.width && layer.height <= image.height) return layer;
+
+  // Layers can't extend past the image
+  return toLayer(sharp(layer.data).resize({ width: image.width, height: image.height, fit: 'inside' }));
+}
+
+// Text is wrapped to the image width, less the margins
+async function textLayer(image: RawImage, operation: TextOperation): Promise<Layer> {
+  const margin = operation.margin ?? 0;
+  const fontSize = operation.font_size || Math.max(12, Math.round(image.height * DEFAULT_TEXT_SCALE));
+  const { horizontal } = splitPosition(operation.position || 'bottom');
+
+  const layer = await toLayer(sharp({
+    text: {
+      text: `<span foreground="${operation.color || DEFAULT_TEXT_COLOR}">${escapeMarkup(operation.text)}</span>`,
+      font: `${operation.font || DEFAULT_FONT} ${fontSize}`,
+      dpi: TEXT_DPI,
+      rgba: true,
+      width: Math.max(1, image.width - 2 * margin),
+      wrap: 'word',
+      align: horizontal === 'center' ? 'centre' : horizontal,
+    },
+  }));
+
+  if (layer.height > image.height) {
+    throw new Error(`Text is taller than the ${image.width}x${image.height} image`);
+  }
+  return layer;
+}
+
+// Composite a layer at its position, inset by the margin and faded to its opacity
+async function placeLayer(
+  image: RawImage,
+  layer: Layer,
+  position: ImagePosition,
+  operation: { margin?: number; opacity?: number }
+): Promise<RawImage> {
+  let input = layer.data;
+  const opacity = operation.opacity ?? 1;
+  if (opacity < 1) {
+    // dest-in keeps the layer's pixels, scaling its alpha by the tile's
+    input = await sharp(input)
+      .ensureAlpha()
+      .composite([{
+        input: Buffer.from([0, 0, 0, Math.round(255 * opacity)]),
+        raw: { width: 1, height: 1, channels: 4 },
+        tile: true,
+        blend: 'dest-in',
+      }])
+      .png()
+      .toBuffer();
+  }
+
+  const margin = operation.margin ?? 0;
+  const { vertical, horizontal } = splitPosition(position);
+  const offset = (side: string, start: string, end: string, space: number) =>
+    Math.min(Math.max(0, side === start ? margin : side === end ? space - margin : Math.floor(space / 2)), space);
+
+  return toRaw(load(image).composite([{
+    input,
+    left: offset(horizontal, 'left', 'right', image.width - layer.width),
+    top: offset(vertical, 'top', 'bottom', image.height - layer.height),
+  }]));
+}
+
+// 'top-left' -> top, left; 'top' -> top, center; 'left' -> center, left
+function splitPosition(position: ImagePosition): { vertical: string; horizontal: 'left' | 'center' | 'right' } {
+  const [first, second] = position.split('-');
+  if (second) return { vertical: first, horizontal: second as 'left' | 'right' };
+  if (first === 'left' || first === 'right') return { vertical: 'center', horizontal: first };
+  return { vertical: first, horizontal: 'center' };
+}
+
+function escapeMarkup(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function load(image: RawImage): sharp.Sharp {
+  return sharp(image.data, { raw: { width: image.width, height: image.height, channels: image.channels } });
+}
+
+async function toRaw(pipeline: sharp.Sharp): Promise<RawImage> {
+  const { data, info } = await pipeline.raw().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height, channels: info.channels };
+}
+
+async function toLayer(pipeline: sharp.Sharp): Promise<Layer> {
+  const { data, info } = await pipeline.png().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
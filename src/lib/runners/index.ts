@@ -1,22 +1,59 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { runChatOpenAI } from './chat/openai';
+import { runChatOpenAICompatible } from './chat/openai-compatible';
 import { runChatAnthropic } from './chat/anthropic';
 import { runChatGemini } from './chat/gemini';
 import { runImageOpenAI } from './image/openai';
 import { runImageGemini } from './image/gemini';
 import { runImageStability } from './image/stability';
+import { runImageTransformLocal } from './image/transform';
 import { runVideoGemini } from './video/gemini';
+import { runVideoFFmpeg } from './video/ffmpeg';
+import { runAudioToTextOpenAI, runTextToAudioOpenAI } from './audio/openai';
+import { runRouterLocal } from './router/local';
+import {
+  runChatMock,
+  runImageMock,
+  runVideoMock,
+  runAudioToTextMock,
+  runTextToAudioMock,
+  runRouterMock,
+  runImageTransformMock,
+} from './mock/mock';
+import { isStepReference, resolvePath, TEMPLATE_PLACEHOLDER } from '@/lib/template';
 import { db, media } from '@/lib/db';
+import { ProviderAdapter, ProviderRecord } from '@/types/database';
 
 export interface RunPromptParams {
   prompt: Record<string, unknown>;
   promptRun: Record<string, unknown>;
   run: Record<string, unknown>;
   inputImageUrl: string | null;
+  inputText?: string | null;
   attachmentUrls?: string[];
+  // Outputs of finished steps, keyed by step_key and position, for templates
+  steps?: Record<string, StepTemplateOutput>;
+  // App origin, used by tools that call other flows
+  baseUrl?: string;
+  // Media forwarded by every dependency, in order, for steps that combine them
+  inputUrls?: string[];
+  // Text of AudioToText dependencies; Chat runners send it after the message
+  inputTranscript?: string | null;
+  // Chat runners stream their text through this as it arrives
+  onToken?: (delta: string) => void;
   supabase: SupabaseClient;
 }
 
+export interface StepTemplateOutput {
+  text?: string;
+  json?: unknown;
+  image_url?: string;
+  video_url?: string;
+  audio_url?: string;
+  skipped?: boolean;
+  items?: Array<{ text?: string; json?: unknown; image_url?: string; video_url?: string; audio_url?: string }>; // Map steps
+}
+
 export interface RunPromptResult {
   response: Record<string, unknown>;
   tokens?: {
@@ -30,6 +67,10 @@ export interface RunPromptResult {
   attachmentUrls?: string[];
   outputMediaIds?: string[];
   text?: string;
+  // Chat steps with a response_schema: the validated, parsed output
+  json?: unknown;
+  // Router steps: dependent prompt IDs chosen to run
+  selectedPromptIds?: string[];
 }
 
 type RunnerFunction = (params: RunPromptParams) => Promise<RunPromptResult>;
@@ -40,17 +81,48 @@ const runners: Record<string, Record<string, RunnerFunction>> = {
     OpenAI: runChatOpenAI,
     Anthropic: runChatAnthropic,
     Gemini: runChatGemini,
+    Mock: runChatMock,
   },
   ImageToImage: {
     OpenAI: runImageOpenAI,
     Gemini: runImageGemini,
     Stability: runImageStability,
+    Mock: runImageMock,
   },
   ImageToVideo: {
     Gemini: runVideoGemini,
+    Mock: runVideoMock,
   },
   VideoToVideo: {
-    // Rails ffmpeg concat - would need server-side implementation
+    Local: runVideoFFmpeg,
+    // Prompts saved before FFmpeg moved in-process from the Rails service
+    Rails: runVideoFFmpeg,
+    Mock: runVideoMock,
+  },
+  AudioToText: {
+    OpenAI: runAudioToTextOpenAI,
+    Mock: runAudioToTextMock,
+  },
+  TextToAudio: {
+    OpenAI: runTextToAudioOpenAI,
+    Mock: runTextToAudioMock,
+  },
+  Router: {
+    Local: runRouterLocal,
+    Mock: runRouterMock,
+  },
+  ImageTransform: {
+    Local: runImageTransformLocal,
+    Mock: runImageTransformMock,
+  },
+};
+
+type AdapterRunnerFunction = (params: RunPromptParams, provider: ProviderRecord) => Promise<RunPromptResult>;
+
+// Map adapters of providers configured in settings to runner functions
+const adapterRunners: Record<ProviderAdapter, Record<string, AdapterRunnerFunction>> = {
+  'openai-compatible': {
+    Chat: runChatOpenAICompatible,
   },
 };
 
@@ -65,26 +137,80 @@ export async function runPrompt(params: RunPromptParams): Promise<RunPromptResul
   }
 
   const runner = runnerMap[provider];
-  if (!runner) {
+  if (runner) {
+    return runner(params);
+  }
+
+  // Not a built-in provider: route by the adapter configured on its record
+  const record = await findAdapterProvider(params.supabase, provider);
+  if (!record) {
     throw new Error(`Unknown provider ${provider} for endpoint ${endpointType}`);
   }
 
-  return runner(params);
+  const adapterRunner = adapterRunners[record.adapter!]?.[endpointType];
+  if (!adapterRunner) {
+    throw new Error(`Provider ${provider} (${record.adapter}) does not support endpoint ${endpointType}`);
+  }
+
+  return adapterRunner(params, record);
+}
+
+// Prompts store the provider name; match the slug too, like the run queue does.
+// Disabled providers don't run.
+async function findAdapterProvider(supabase: SupabaseClient, provider: string): Promise<ProviderRecord | null> {
+  if (!provider) return null;
+
+  const { data: providers, error } = await supabase
+    .from('providers')
+    .select('*')
+    .not('adapter', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to load provider ${provider}: ${error.message}`);
+  }
+
+  const records = (providers || []) as ProviderRecord[];
+  const record = records.find((record) => record.name === provider)
+    || records.find((record) => record.slug === provider.toLowerCase());
+
+  if (record && !record.enabled) {
+    throw new Error(`Provider ${provider} is disabled`);
+  }
+  return record || null;
 }
 
-// Helper to render template variables in prompts using Mustache-style syntax
+// Helper to render template variables in prompts using Mustache-style syntax.
+// Supports paths such as {{steps.caption.text}} or {{input.attachments[1]}}.
+// Step references that don't resolve (a skipped step, a missing field) render
+// empty; other placeholders that don't resolve are left untouched.
 export function renderTemplate(
   template: string,
   variables: Record<string, unknown>
 ): string {
   if (!template) return template;
 
-  let result = template;
-  for (const [key, value] of Object.entries(variables)) {
-    const regex = new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`, 'g');
-    result = result.replace(regex, String(value));
-  }
-  return result;
+  return template.replace(TEMPLATE_PLACEHOLDER, (placeholder, path: string) => {
+    const value = Object.hasOwn(variables, path) ? variables[path] : resolvePath(variables, path);
+    if (value === undefined) return isStepReference(path) ? '' : placeholder;
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  });
+}
+
+// Everything a prompt template can reference: the run's variables at the top
+// level, prior step outputs under `steps` and the run's inputs under `input`
+export function getTemplateVariables(params: RunPromptParams): Record<string, unknown> {
+  const { run, steps } = params;
+  const variables = (run.variables as Record<string, unknown>) || {};
+
+  return {
+    ...variables,
+    steps: steps || {},
+    input: {
+      message: run.message ?? null,
+      attachments: (run.attachment_urls as string[]) || [],
+      variables,
+    },
+  };
 }
 
 // Helper to download image from URL and convert to base64
@@ -106,13 +232,33 @@ export function getContentTypeFromUrl(url: string): string {
     webp: 'image/webp',
     mp4: 'video/mp4',
     webm: 'video/webm',
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    m4a: 'audio/mp4',
+    ogg: 'audio/ogg',
+    opus: 'audio/opus',
+    flac: 'audio/flac',
+    aac: 'audio/aac',
   };
   return mimeTypes[extension || ''] || 'application/octet-stream';
 }
 
-// Generate custom ID: img_xxxxxxxx or vdo_xxxxxxxx
-function generateMediaId(type: 'image' | 'video'): string {
-  const prefix = type === 'image' ? 'img' : 'vdo';
+// Chat runners send image inputs only. Audio reaches them as a transcript.
+export function isImageInput(url: string): boolean {
+  const contentType = getContentTypeFromUrl(url.split('?')[0]);
+  return !contentType.startsWith('audio/') && !contentType.startsWith('video/');
+}
+
+// The run's message followed by any transcript from AudioToText dependencies
+export function getUserMessage(params: RunPromptParams): string {
+  return [params.run.message as string | null, params.inputTranscript]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// Generate custom ID: img_xxxxxxxx, vdo_xxxxxxxx or aud_xxxxxxxx
+function generateMediaId(type: 'image' | 'video' | 'audio'): string {
+  const prefix = type === 'image' ? 'img' : type === 'video' ? 'vdo' : 'aud';
   const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
   let id = '';
   for (let i = 0; i < 8; i++) {
@@ -126,15 +272,23 @@ export interface UploadResult {
   mediaId: string;
 }
 
+// Optional metadata recorded on the media row
+export interface MediaDetails {
+  width?: number;
+  height?: number;
+  duration?: number; // seconds
+}
+
 // Helper to upload file to Supabase storage and create media record
 export async function uploadToStorage(
   supabase: SupabaseClient,
   buffer: Buffer,
   filename: string,
-  contentType: string
+  contentType: string,
+  details: MediaDetails = {}
 ): Promise<UploadResult> {
   const isVideo = contentType.startsWith('video/');
-  const type = isVideo ? 'video' : 'image';
+  const type = isVideo ? 'video' : contentType.startsWith('audio/') ? 'audio' : 'image';
   const mediaId = generateMediaId(type);
 
   // Get file extension
@@ -167,6 +321,9 @@ export async function uploadToStorage(
     url,
     mimeType: contentType,
     size: buffer.length,
+    width: details.width,
+    height: details.height,
+    duration: details.duration,
   });
 
   return { url, mediaId };
@@ -0,0 +1,233 @@
+import { createHash } from 'crypto';
+import { RunPromptParams, RunPromptResult, renderTemplate, getTemplateVariables, getUserMessage, uploadToStorage } from '../index';
+import { parseStructuredOutput } from '../chat/structured-output';
+import { runRouterLocal } from '../router/local';
+import { runImageTransformLocal } from '../image/transform';
+import { estimateTokens } from '@/lib/tokens';
+import { MockOptions } from '@/types/database';
+import { colorFromSeed, createPlaceholderAvi, createPlaceholderPng, createPlaceholderWav } from './placeholders';
+
+// The Mock provider runs every endpoint type offline. Output depends only on
+// the request, so the same run gives the same text and placeholder colors.
+// Behaviour is set per prompt with mock_options.
+
+const DEFAULT_ERROR_STATUS = 503;
+const DEFAULT_IMAGE_SIZE = 512;
+const MAX_IMAGE_SIZE = 1024;
+const VIDEO_WIDTH = 160;
+const VIDEO_HEIGHT = 90;
+const DEFAULT_VIDEO_SECONDS = 8;
+// Spoken words per second for TextToAudio placeholder length
+const WORDS_PER_SECOND = 2.5;
+const MAX_AUDIO_SECONDS = 30;
+
+export async function runChatMock(params: RunPromptParams): Promise<RunPromptResult> {
+  await simulateProvider(params);
+  const { prompt } = params;
+
+  const systemPrompt = renderTemplate(prompt.system_prompt as string || '', getTemplateVariables(params));
+  const message = getUserMessage(params) || params.inputText || '';
+  const responseSchema = prompt.response_schema as Record<string, unknown> | null;
+  const options = getMockOptions(prompt);
+
+  const text = responseSchema
+    ? JSON.stringify(sampleFromSchema(responseSchema))
+    : options.text ?? `Mock response ${requestHash(params)} to: ${message || '(no message)'}`;
+  const json = responseSchema ? parseStructuredOutput(text, responseSchema) : undefined;
+
+  // Stream word by word like the real chat runners
+  if (params.onToken) {
+    for (const word of text.match(/\S+\s*/g) || []) {
+      params.onToken(word);
+    }
+  }
+
+  const input = estimateTokens(systemPrompt) + estimateTokens(message);
+  const output = estimateTokens(text);
+
+  return {
+    response: { id: `mock_${requestHash(params)}`, model: prompt.selected_model, text },
+    tokens: { input, output, total: input + output },
+    text,
+    json,
+  };
+}
+
+export async function runImageMock(params: RunPromptParams): Promise<RunPromptResult> {
+  await simulateProvider(params);
+  const { prompt, supabase } = params;
+
+  const [width, height] = parseSize(prompt.size as string | null);
+  const hash = requestHash(params);
+  const buffer = createPlaceholderPng(width, height, colorFromSeed(hash));
+  const { url, mediaId } = await uploadToStorage(supabase, buffer, `mock_${hash}.png`, 'image/png');
+
+  return {
+    response: { id: `mock_${hash}`, model: prompt.selected_model, width, height },
+    outputUrl: url,
+    outputMediaId: mediaId,
+    outputType: 'image',
+    attachmentUrls: [url],
+    outputMediaIds: [mediaId],
+  };
+}
+
+// ImageToVideo and VideoToVideo
+export async function runVideoMock(params: RunPromptParams): Promise<RunPromptResult> {
+  await simulateProvider(params);
+  const { prompt, supabase } = params;
+
+  const seconds = (prompt.video_duration as number | null) || DEFAULT_VIDEO_SECONDS;
+  const hash = requestHash(params);
+  const buffer = createPlaceholderAvi(VIDEO_WIDTH, VIDEO_HEIGHT, seconds, colorFromSeed(hash));
+  const { url, mediaId } = await uploadToStorage(supabase, buffer, `mock_${hash}.avi`, 'video/x-msvideo');
+
+  return {
+    response: { id: `mock_${hash}`, model: prompt.selected_model, duration: seconds },
+    outputUrl: url,
+    outputMediaId: mediaId,
+    outputType: 'video',
+    attachmentUrls: [url],
+    outputMediaIds: [mediaId],
+  };
+}
+
+export async function runAudioToTextMock(params: RunPromptParams): Promise<RunPromptResult> {
+  await simulateProvider(params);
+  const { prompt, inputImageUrl } = params;
+
+  const source = inputImageUrl?.split('?')[0].split('/').pop() || 'input';
+  const text = getMockOptions(prompt).text ?? `Mock transcript ${requestHash(params)} of ${source}`;
+
+  return {
+    response: { id: `mock_${requestHash(params)}`, model: prompt.selected_model, text },
+    text,
+  };
+}
+
+export async function runTextToAudioMock(params: RunPromptParams): Promise<RunPromptResult> {
+  await simulateProvider(params);
+  const { prompt, run, supabase } = params;
+
+  const text = params.inputText || (run.message as string) || '';
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const seconds = Math.min(Math.max(1, words / WORDS_PER_SECOND), MAX_AUDIO_SECONDS);
+  const hash = requestHash(params);
+  const buffer = createPlaceholderWav(seconds);
+  const { url, mediaId } = await uploadToStorage(supabase, buffer, `mock_${hash}.wav`, 'audio/wav');
+
+  return {
+    response: { id: `mock_${hash}`, model: prompt.selected_model, duration: seconds },
+    outputUrl: url,
+    outputMediaId: mediaId,
+    outputType: 'audio',
+    attachmentUrls: [url],
+    outputMediaIds: [mediaId],
+  };
+}
+
+// Router steps evaluate their rules locally, with the Mock latency and failures
+export async function runRouterMock(params: RunPromptParams): Promise<RunPromptResult> {
+  await simulateProvider(params);
+  return runRouterLocal(params);
+}
+
+// ImageTransform steps apply their operations locally, like Router steps
+export async function runImageTransformMock(params: RunPromptParams): Promise<RunPromptResult> {
+  await simulateProvider(params);
+  return runImageTransformLocal(params);
+}
+
+function getMockOptions(prompt: Record<string, unknown>): MockOptions {
+  return (prompt.mock_options as MockOptions | null) || {};
+}
+
+// Wait for the configured latency, then fail if this attempt should. Errors
+// read like provider HTTP errors so the retry policy classifies them.
+async function simulateProvider(params: RunPromptParams): Promise<void> {
+  const { prompt, promptRun, supabase } = params;
+  const options = getMockOptions(prompt);
+
+  const latency = options.latency_ms ?? Number(process.env.MOCK_LATENCY_MS || 0);
+  if (latency > 0) {
+    await new Promise((resolve) => setTimeout(resolve, latency));
+  }
+
+  if (!options.fail_attempts && !options.failure_rate) return;
+
+  // Failed attempts are recorded on the prompt run before the next one starts
+  const { data } = await supabase
+    .from('prompt_runs')
+    .select('attempt_count')
+    .eq('id', promptRun.id as string)
+    .maybeSingle();
+  const attempt = ((data?.attempt_count as number | undefined) || 0) + 1;
+
+  const roll = parseInt(createHash('sha256').update(`${promptRun.id}:${attempt}`).digest('hex').slice(0, 8), 16) / 0xffffffff;
+  if (attempt <= (options.fail_attempts || 0) || roll < (options.failure_rate || 0)) {
+    const status = options.error_status || DEFAULT_ERROR_STATUS;
+    throw new Error(`Mock API error: ${status} - Injected failure on attempt ${attempt}`);
+  }
+}
+
+// Short hash of what the step was asked to do
+function requestHash(params: RunPromptParams): string {
+  const { prompt, run, inputImageUrl, inputText } = params;
+  const variables = getTemplateVariables(params);
+  const material = JSON.stringify([
+    prompt.endpoint_type,
+    prompt.selected_model,
+    renderTemplate(prompt.system_prompt as string || '', variables),
+    renderTemplate(prompt.background_prompt as string || '', variables),
+    run.message ?? null,
+    inputText ?? null,
+    inputImageUrl,
+    prompt.seed ?? null,
+  ]);
+  return createHash('sha256').update(material).digest('hex').slice(0, 8);
+}
+
+function parseSize(size: string | null): [number, number] {
+  const match = size?.match(/^(\d+)x(\d+)$/);
+  if (!match) return [DEFAULT_IMAGE_SIZE, DEFAULT_IMAGE_SIZE];
+  return [
+    Math.min(Number(match[1]), MAX_IMAGE_SIZE) || DEFAULT_IMAGE_SIZE,
+    Math.min(Number(match[2]), MAX_IMAGE_SIZE) || DEFAULT_IMAGE_SIZE,
+  ];
+}
+
+// A minimal value that satisfies a JSON Schema, for Chat steps with a response_schema
+function sampleFromSchema(schema: Record<string, unknown>): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  for (const key of ['anyOf', 'oneOf', 'allOf']) {
+    const options = schema[key] as Record<string, unknown>[] | undefined;
+    if (options?.length) return sampleFromSchema(options[0]);
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object': {
+      const properties = (schema.properties as Record<string, Record<string, unknown>>) || {};
+      return Object.fromEntries(
+        Object.entries(properties).map(([name, property]) => [name, sampleFromSchema(property)])
+      );
+    }
+    case 'array': {
+      const count = (schema.minItems as number) || 0;
+      const items = (schema.items as Record<string, unknown>) || {};
+      return Array.from({ length: count }, () => sampleFromSchema(items));
+    }
+    case 'string':
+      return 'mock'.padEnd((schema.minLength as number) || 0, '-');
+    case 'integer':
+    case 'number':
+      return (schema.minimum as number | undefined) ?? 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return schema.properties ? sampleFromSchema({ ...schema, type: 'object' }) : null;
+  }
+}
@@ -0,0 +1,181 @@
+import { deflateSync } from 'zlib';
+
+// Placeholder media for the Mock provider, encoded without native
+// dependencies. Colors come from a seed so the same request gives the same file.
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export function colorFromSeed(seed: string): Rgb {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) >>> 0;
+  }
+  return { r: hash & 0xff, g: (hash >>> 8) & 0xff, b: (hash >>> 16) & 0xff };
+}
+
+// A PNG with a solid fill and a darker diagonal band, so images are visibly placeholders
+export function createPlaceholderPng(width: number, height: number, color: Rgb): Buffer {
+  const raw = Buffer.alloc((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (width * 3 + 1);
+    raw[row] = 0; // No filter
+    for (let x = 0; x < width; x++) {
+      const shade = Math.abs(x - y * (width / height)) < width / 16 ? 0.6 : 1;
+      raw[row + 1 + x * 3] = Math.round(color.r * shade);
+      raw[row + 2 + x * 3] = Math.round(color.g * shade);
+      raw[row + 3 + x * 3] = Math.round(color.b * shade);
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 2; // Truecolor RGB
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// An uncompressed AVI at one frame per second that fades from the color to
+// black. Desktop players and ffmpeg read it; browsers may not play it inline.
+export function createPlaceholderAvi(width: number, height: number, seconds: number, color: Rgb): Buffer {
+  const frameCount = Math.max(1, Math.round(seconds));
+  const rowSize = Math.ceil((width * 3) / 4) * 4;
+  const frameSize = rowSize * height;
+
+  const frames: Buffer[] = [];
+  for (let i = 0; i < frameCount; i++) {
+    const level = 1 - i / frameCount;
+    const frame = Buffer.alloc(frameSize);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        // Rows are stored bottom-up in BGR order
+        const offset = y * rowSize + x * 3;
+        frame[offset] = Math.round(color.b * level);
+        frame[offset + 1] = Math.round(color.g * level);
+        frame[offset + 2] = Math.round(color.r * level);
+      }
+    }
+    frames.push(riffChunk('00db', frame));
+  }
+
+  const mainHeader = Buffer.alloc(56);
+  mainHeader.writeUInt32LE(1000000, 0); // Microseconds per frame
+  mainHeader.writeUInt32LE(frameSize, 4); // Max bytes per second
+  mainHeader.writeUInt32LE(0x10, 12); // AVIF_HASINDEX
+  mainHeader.writeUInt32LE(frameCount, 16);
+  mainHeader.writeUInt32LE(1, 24); // Streams
+  mainHeader.writeUInt32LE(frameSize, 28); // Suggested buffer size
+  mainHeader.writeUInt32LE(width, 32);
+  mainHeader.writeUInt32LE(height, 36);
+
+  const streamHeader = Buffer.alloc(56);
+  streamHeader.write('vids', 0, 'ascii');
+  streamHeader.write('DIB ', 4, 'ascii');
+  streamHeader.writeUInt32LE(1, 20); // Scale
+  streamHeader.writeUInt32LE(1, 24); // Rate: 1 frame per second
+  streamHeader.writeUInt32LE(frameCount, 32); // Length
+  streamHeader.writeUInt32LE(frameSize, 36); // Suggested buffer size
+  streamHeader.writeInt32LE(-1, 40); // Quality
+  streamHeader.writeUInt16LE(width, 52);
+  streamHeader.writeUInt16LE(height, 54);
+
+  const bitmapInfo = Buffer.alloc(40);
+  bitmapInfo.writeUInt32LE(40, 0);
+  bitmapInfo.writeInt32LE(width, 4);
+  bitmapInfo.writeInt32LE(height, 8);
+  bitmapInfo.writeUInt16LE(1, 12); // Planes
+  bitmapInfo.writeUInt16LE(24, 14); // Bits per pixel
+  bitmapInfo.writeUInt32LE(frameSize, 20);
+
+  const index = Buffer.alloc(16 * frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    index.write('00db', i * 16, 'ascii');
+    index.writeUInt32LE(0x10, i * 16 + 4); // AVIIF_KEYFRAME
+    index.writeUInt32LE(4 + i * (frameSize + 8), i * 16 + 8); // Offset from 'movi'
+    index.writeUInt32LE(frameSize, i * 16 + 12);
+  }
+
+  const headerList = riffList('hdrl', [
+    riffChunk('avih', mainHeader),
+    riffList('strl', [riffChunk('strh', streamHeader), riffChunk('strf', bitmapInfo)]),
+  ]);
+  const body = Buffer.concat([
+    Buffer.from('AVI ', 'ascii'),
+    headerList,
+    riffList('movi', frames),
+    riffChunk('idx1', index),
+  ]);
+
+  return Buffer.concat([Buffer.from('RIFF', 'ascii'), uint32LE(body.length), body]);
+}
+
+// A 16-bit mono WAV of a sine tone
+export function createPlaceholderWav(seconds: number, frequency = 440, sampleRate = 8000): Buffer {
+  const sampleCount = Math.max(1, Math.round(seconds * sampleRate));
+  const samples = Buffer.alloc(sampleCount * 2);
+  for (let i = 0; i < sampleCount; i++) {
+    samples.writeInt16LE(Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 8000), i * 2);
+  }
+
+  const format = Buffer.alloc(16);
+  format.writeUInt16LE(1, 0); // PCM
+  format.writeUInt16LE(1, 2); // Mono
+  format.writeUInt32LE(sampleRate, 4);
+  format.writeUInt32LE(sampleRate * 2, 8); // Bytes per second
+  format.writeUInt16LE(2, 12); // Block align
+  format.writeUInt16LE(16, 14); // Bits per sample
+
+  const body = Buffer.concat([Buffer.from('WAVE', 'ascii'), riffChunk('fmt ', format), riffChunk('data', samples)]);
+  return Buffer.concat([Buffer.from('RIFF', 'ascii'), uint32LE(body.length), body]);
+}
+
+function riffChunk(id: string, data: Buffer): Buffer {
+  const padding = data.length % 2 ? Buffer.alloc(1) : Buffer.alloc(0);
+  return Buffer.concat([Buffer.from(id, 'ascii'), uint32LE(data.length), data, padding]);
+}
+
+function riffList(type: string, chunks: Buffer[]): Buffer {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), ...chunks]);
+  return Buffer.concat([Buffer.from('LIST', 'ascii'), uint32LE(body.length), body]);
+}
+
+function uint32LE(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
@@ -0,0 +1,128 @@
+import { RunPromptParams, RunPromptResult } from '../index';
+import { RouterConfig, RouterOperator, RouterRule } from '@/types/database';
+import { resolvePath } from '@/lib/template';
+
+const ROUTER_OPERATORS: RouterOperator[] = ['equals', 'not_equals', 'contains', 'matches', 'gt', 'lt', 'exists'];
+
+// Router steps run locally: they evaluate the previous step's text against
+// the prompt's rules and pick which of the dependent prompts execute.
+export async function runRouterLocal(params: RunPromptParams): Promise<RunPromptResult> {
+  const { prompt, inputText } = params;
+
+  const config = prompt.router_rules as RouterConfig | null;
+  validateRouterConfig(config);
+
+  const value = config.field ? extractField(inputText, config.field) : inputText;
+
+  const matchedRules: number[] = [];
+  for (const [index, rule] of config.rules.entries()) {
+    if (matchesRule(value, rule)) {
+      matchedRules.push(index);
+      if (config.match !== 'all') break;
+    }
+  }
+
+  const selectedPromptIds = matchedRules.length > 0
+    ? [...new Set(matchedRules.flatMap((index) => config.rules[index].targets || []))]
+    : config.default_targets || [];
+
+  return {
+    response: {
+      field: config.field || null,
+      value: value ?? null,
+      matched_rules: matchedRules,
+      selected_prompt_ids: selectedPromptIds,
+    },
+    selectedPromptIds,
+  };
+}
+
+// Check routing rules. With dependentIds (the prompts that depend on the
+// router), every target must be one of them. Throws with a message for a 400
+// response when a prompt is saved.
+export function validateRouterConfig(config: unknown, dependentIds?: string[]): asserts config is RouterConfig {
+  if (!config || typeof config !== 'object' || !Array.isArray((config as RouterConfig).rules)) {
+    throw new Error('Router step has no routing rules configured');
+  }
+  const { field, match, rules, default_targets: defaultTargets } = config as RouterConfig;
+
+  if (field !== undefined && typeof field !== 'string') {
+    throw new Error('router_rules.field must be a string path');
+  }
+  if (match !== undefined && match !== 'first' && match !== 'all') {
+    throw new Error('router_rules.match must be first or all');
+  }
+
+  const checkTargets = (targets: unknown, label: string) => {
+    if (!Array.isArray(targets) || targets.some((target) => typeof target !== 'string')) {
+      throw new Error(`${label} must be an array of prompt IDs`);
+    }
+    const unknown = dependentIds && targets.find((target) => !dependentIds.includes(target));
+    if (unknown) {
+      throw new Error(`${label} includes ${unknown}, which does not depend on this router`);
+    }
+  };
+
+  rules.forEach((rule, index) => {
+    const label = `Router rule ${index + 1}`;
+    if (!rule || !ROUTER_OPERATORS.includes(rule.operator)) {
+      throw new Error(`${label}: operator must be one of ${ROUTER_OPERATORS.join(', ')}`);
+    }
+    if (rule.operator === 'matches') {
+      try {
+        new RegExp(String(rule.value ?? ''), 'i');
+      } catch {
+        throw new Error(`${label}: ${JSON.stringify(rule.value)} is not a valid regular expression`);
+      }
+    }
+    if ((rule.operator === 'gt' || rule.operator === 'lt') && !Number.isFinite(Number(rule.value))) {
+      throw new Error(`${label}: ${rule.operator} needs a numeric value`);
+    }
+    checkTargets(rule.targets, `${label} targets`);
+  });
+
+  if (defaultTargets !== undefined) {
+    checkTargets(defaultTargets, 'router_rules.default_targets');
+  }
+}
+
+// Parse the text as JSON (tolerating ```json fences) and walk a path like
+// "result.labels[0].name"
+function extractField(text: string | null | undefined, path: string): unknown {
+  if (!text) return undefined;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch {
+    return undefined;
+  }
+
+  return resolvePath(data, path);
+}
+
+// String comparisons are trimmed and case-insensitive so classifier output
+// like "Product\n" still matches "product"
+function matchesRule(value: unknown, rule: RouterRule): boolean {
+  const actual = value === undefined || value === null ? '' : String(value).trim().toLowerCase();
+  const expected = rule.value === undefined ? '' : String(rule.value).trim().toLowerCase();
+
+  switch (rule.operator) {
+    case 'equals':
+      return actual === expected;
+    case 'not_equals':
+      return actual !== expected;
+    case 'contains':
+      return actual.includes(expected);
+    case 'matches':
+      return new RegExp(String(rule.value ?? ''), 'i').test(String(value ?? ''));
+    case 'gt':
+      return Number(value) > Number(rule.value);
+    case 'lt':
+      return Number(value) < Number(rule.value);
+    case 'exists':
+      return actual !== '';
+    default:
+      throw new Error(`Unknown router operator: ${rule.operator}`);
+  }
+}
@@ -0,0 +1,229 @@
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import ffmpegStatic from 'ffmpeg-static';
+import { path as ffprobeStaticPath } from 'ffprobe-static';
+import { RunPromptParams, RunPromptResult, getContentTypeFromUrl, uploadToStorage } from '../index';
+import { assertRunNotStopped } from '@/lib/execution/cancellation';
+import { VideoOptions } from '@/types/database';
+import { validateVideoOptions } from '@/lib/prompts';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_FPS = 30;
+// Leaves time to download and upload within the execute route's 300s limit
+const DEFAULT_TIMEOUT_MS = 4 * 60 * 1000;
+const AUDIO_SAMPLE_RATE = 44100;
+// ffmpeg and ffprobe write progress to stderr; keep enough to report errors
+const MAX_OUTPUT_BUFFER = 10 * 1024 * 1024;
+
+interface ClipInfo {
+  path: string;
+  duration: number;
+  width: number;
+  height: number;
+  hasAudio: boolean;
+}
+
+// Joins the step's video inputs in order: the outputs of its dependencies, or
+// the run's attachments for root steps. Runs the ffmpeg-static and
+// ffprobe-static binaries on this server unless FFMPEG_PATH and FFPROBE_PATH
+// point at others.
+export async function runVideoFFmpeg(params: RunPromptParams): Promise<RunPromptResult> {
+  const { prompt, run, supabase } = params;
+  validateVideoOptions(prompt.video_options);
+  const options = (prompt.video_options as VideoOptions | null) || {};
+
+  const sources = (params.inputUrls ?? ((run.attachment_urls as string[]) || []))
+    .filter((url) => !getContentTypeFromUrl(url.split('?')[0]).startsWith('image/'));
+  if (sources.length === 0) {
+    throw new Error('VideoToVideo needs at least one video input');
+  }
+
+  const workDir = await mkdtemp(join(tmpdir(), 'conductor-ffmpeg-'));
+  try {
+    const clips: ClipInfo[] = [];
+    for (const [index, url] of sources.entries()) {
+      const path = join(workDir, `input_${index}`);
+      await downloadFile(url, path);
+      clips.push(await probeClip(path));
+    }
+
+    await assertRunNotStopped(supabase, run.id as string);
+
+    const outputPath = join(workDir, 'output.mp4');
+    await runFFmpeg([...buildArgs(clips, options), outputPath]);
+    const output = await probeClip(outputPath);
+
+    const buffer = await readFile(outputPath);
+    const { url, mediaId } = await uploadToStorage(
+      supabase,
+      buffer,
+      `ffmpeg_${Date.now()}.mp4`,
+      'video/mp4',
+      { width: output.width, height: output.height, duration: output.duration }
+    );
+
+    return {
+      response: {
+        model: prompt.selected_model,
+        clips: clips.length,
+        duration: output.duration,
+        width: output.width,
+        height: output.height,
+      },
+      outputUrl: url,
+      outputMediaId: mediaId,
+      outputType: 'video',
+      attachmentUrls: [url],
+      outputMediaIds: [mediaId],
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// Trim each clip, scale it onto a canvas of the output size, then join the
+// clips with concat or a chain of crossfades
+function buildArgs(clips: ClipInfo[], options: VideoOptions): string[] {
+  const width = even(Number(options.width) || clips[0].width);
+  const height = even(Number(options.height) || clips[0].height);
+  const fps = Number(options.fps) || DEFAULT_FPS;
+  const trimStart = Number(options.trim_start) || 0;
+  const trimEnd = Number(options.trim_end) || 0;
+  const crossfade = Number(options.crossfade) || 0;
+  const maxDuration = Number(options.max_duration) || 0;
+  const withAudio = !options.strip_audio && clips.some((clip) => clip.hasAudio);
+
+  const durations = clips.map((clip) => clip.duration - trimStart - trimEnd);
+  durations.forEach((duration, index) => {
+    if (duration <= 0) {
+      throw new Error(`Trim removes all of clip ${index + 1} (${clips[index].duration.toFixed(2)}s)`);
+    }
+    if (clips.length > 1 && crossfade >= duration) {
+      throw new Error(`Crossfade of ${crossfade}s is longer than clip ${index + 1} after trimming`);
+    }
+  });
+
+  const filters: string[] = [];
+  clips.forEach((clip, index) => {
+    const end = trimStart + durations[index];
+    filters.push(
+      `[${index}:v]trim=start=${trimStart}:end=${end},setpts=PTS-STARTPTS,` +
+      `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${fps},format=yuv420p[v${index}]`
+    );
+    if (!withAudio) return;
+    // Clips without sound get silence so every segment has an audio stream
+    filters.push(clip.hasAudio
+      ? `[${index}:a]atrim=start=${trimStart}:end=${end},asetpts=PTS-STARTPTS,` +
+        `aformat=sample_rates=${AUDIO_SAMPLE_RATE}:channel_layouts=stereo[a${index}]`
+      : `anullsrc=r=${AUDIO_SAMPLE_RATE}:cl=stereo,atrim=duration=${durations[index]}[a${index}]`
+    );
+  });
+
+  if (clips.length === 1) {
+    filters.push('[v0]null[vout]');
+    if (withAudio) filters.push('[a0]anull[aout]');
+  } else if (crossfade > 0) {
+    // Each fade starts crossfade seconds before the joined video so far ends
+    let offset = 0;
+    let video = 'v0';
+    let audio = 'a0';
+    for (let index = 1; index < clips.length; index++) {
+      offset += durations[index - 1] - crossfade;
+      const last = index === clips.length - 1;
+      const nextVideo = last ? 'vout' : `vx${index}`;
+      filters.push(`[${video}][v${index}]xfade=transition=fade:duration=${crossfade}:offset=${offset}[${nextVideo}]`);
+      video = nextVideo;
+      if (withAudio) {
+        const nextAudio = last ? 'aout' : `ax${index}`;
+        filters.push(`[${audio}][a${index}]acrossfade=d=${crossfade}[${nextAudio}]`);
+        audio = nextAudio;
+      }
+    }
+  } else {
+    const segments = clips.map((_, index) => (withAudio ? `[v${index}][a${index}]` : `[v${index}]`)).join('');
+    filters.push(
+      `${segments}concat=n=${clips.length}:v=1:a=${withAudio ? 1 : 0}[vout]${withAudio ? '[aout]' : ''}`
+    );
+  }
+
+  return [
+    '-y',
+    ...clips.flatMap((clip) => ['-i', clip.path]),
+    '-filter_complex', filters.join(';'),
+    '-map', '[vout]',
+    ...(withAudio ? ['-map', '[aout]', '-c:a', 'aac'] : ['-an']),
+    '-c:v', 'libx264',
+    '-pix_fmt', 'yuv420p',
+    '-movflags', '+faststart',
+    ...(maxDuration ? ['-t', String(maxDuration)] : []),
+  ];
+}
+
+async function downloadFile(url: string, path: string): Promise<void> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download video: ${response.status} ${url}`);
+  }
+  await writeFile(path, Buffer.from(await response.arrayBuffer()));
+}
+
+async function probeClip(path: string): Promise<ClipInfo> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(
+      process.env.FFPROBE_PATH || ffprobeStaticPath,
+      ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', path],
+      { maxBuffer: MAX_OUTPUT_BUFFER }
+    ));
+  } catch (error) {
+    throw new Error(`ffprobe failed: ${lastLine(error)}`);
+  }
+
+  const probe = JSON.parse(stdout) as {
+    format?: { duration?: string };
+    streams?: Array<{ codec_type: string; width?: number; height?: number; duration?: string }>;
+  };
+  const video = probe.streams?.find((stream) => stream.codec_type === 'video');
+  if (!video?.width || !video.height) {
+    throw new Error('Input is not a video');
+  }
+
+  return {
+    path,
+    duration: Number(probe.format?.duration || video.duration || 0),
+    width: video.width,
+    height: video.height,
+    hasAudio: !!probe.streams?.some((stream) => stream.codec_type === 'audio'),
+  };
+}
+
+async function runFFmpeg(args: string[]): Promise<void> {
+  try {
+    await execFileAsync(process.env.FFMPEG_PATH || ffmpegStatic || 'ffmpeg', ['-hide_banner', '-loglevel', 'error', ...args], {
+      maxBuffer: MAX_OUTPUT_BUFFER,
+      timeout: Number(process.env.FFMPEG_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+    });
+  } catch (error) {
+    if ((error as { killed?: boolean }).killed) {
+      throw new Error('ffmpeg timed out');
+    }
+    throw new Error(`ffmpeg failed: ${lastLine(error)}`);
+  }
+}
+
+// The last line ffmpeg printed, which names the problem
+function lastLine(error: unknown): string {
+  const stderr = (error as { stderr?: string }).stderr?.trim();
+  if (stderr) return stderr.split('\n').pop()!;
+  return error instanceof Error ? error.message : String(error);
+}
+
+// libx264 with yuv420p needs even dimensions
+function even(value: number): number {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
@@ -1,4 +1,5 @@
-import { RunPromptParams, RunPromptResult, renderTemplate, imageUrlToBase64, getContentTypeFromUrl, uploadToStorage } from '../index';
+import { RunPromptParams, RunPromptResult, renderTemplate, getTemplateVariables, imageUrlToBase64, getContentTypeFromUrl, uploadToStorage } from '../index';
+import { assertRunNotStopped } from '@/lib/execution/cancellation';
 
 const VERTEX_AI_URL = 'https://us-central1-aiplatform.googleapis.com/v1';
 
@@ -38,7 +39,7 @@ export async function runVideoGemini(params: RunPromptParams): Promise<RunPrompt
     throw new Error('Input image URL is required for video generation');
   }
 
-  const variables = (run.variables as Record<string, unknown>) || {};
+  const variables = getTemplateVariables(params);
   const videoPrompt = renderTemplate(
     prompt.system_prompt as string || 'Generate a video from this image',
     variables
@@ -91,7 +92,7 @@ export async function runVideoGemini(params: RunPromptParams): Promise<RunPrompt
     const operationName = operationData.name;
 
     // Poll for completion
-    const result = await pollForVideoResult(operationName, accessToken, supabase);
+    const result = await pollForVideoResult(operationName, accessToken, supabase, run.id as string);
     return result;
   } catch (error) {
     console.error('Gemini video error:', error);
@@ -103,6 +104,7 @@ async function pollForVideoResult(
   operationName: string,
   accessToken: string,
   supabase: Parameters<typeof uploadToStorage>[0],
+  runId: string,
   maxAttempts = 120, // 10 minutes with 5 second intervals
   intervalMs = 5000
 ): Promise<RunPromptResult> {
@@ -118,6 +120,7 @@ async function pollForVideoResult(
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     // Wait before polling
     await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    await assertRunNotStopped(supabase, runId);
 
     const response = await fetch(pollUrl, {
       method: 'POST',
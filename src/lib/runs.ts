@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { RunResponse, RunStatus } from '@/types/database';
+
+// Format a run to match the Rails API response
+export function formatRunResponse(run: Record<string, unknown>, baseUrl: string): RunResponse {
+  return {
+    id: run.id as string,
+    flow_id: run.flow_id as string,
+    status: run.status as RunStatus,
+    priority: run.priority as number,
+    external_id: run.external_id as string | null,
+    started_at: run.started_at as string | null,
+    completed_at: run.completed_at as string | null,
+    created_at: run.created_at as string,
+    updated_at: run.updated_at as string,
+    data: (run.data as RunResponse['data']) || {},
+    url: `${baseUrl}/api/runs/${run.id}.json`,
+  };
+}
+
+// Base URL for run links, taken from the request's Host header
+export function getBaseUrl(request: NextRequest): string {
+  const host = request.headers.get('host') || 'localhost:3000';
+  const protocol = host.includes('localhost') ? 'http' : 'https';
+  return `${protocol}://${host}`;
+}
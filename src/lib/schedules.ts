@@ -0,0 +1,146 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getNextCronTime } from '@/lib/cron';
+import { CreateScheduleRequest, ScheduleStatus } from '@/types/database';
+
+// Scheduled runs queue behind interactive runs, like batches
+export const DEFAULT_SCHEDULE_PRIORITY = -1;
+
+// Maximum due schedules triggered per call
+const TRIGGER_BATCH_SIZE = 100;
+
+// Maximum runs listed in a schedule's history
+export const SCHEDULE_HISTORY_LIMIT = 50;
+
+// Check a cron expression and return its next run time, as stored in next_run_at
+export function getNextRunAt(cron: string, after: Date = new Date()): string {
+  return getNextCronTime(cron, after).toISOString();
+}
+
+type ScheduleInput = Partial<Omit<CreateScheduleRequest['schedule'], 'flow_id'>> & { status?: ScheduleStatus };
+
+// Validate the writable fields of a schedule and map them to columns. Throws
+// with a message for a 400 response. A new cron expression resets next_run_at.
+export function getScheduleFields(input: ScheduleInput): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+
+  if (input.cron !== undefined) {
+    if (typeof input.cron !== 'string' || !input.cron.trim()) {
+      throw new Error('cron is required');
+    }
+    fields.cron = input.cron.trim();
+    fields.next_run_at = getNextRunAt(fields.cron as string);
+  }
+  if (input.status !== undefined) {
+    if (input.status !== 'active' && input.status !== 'paused') {
+      throw new Error('status must be active or paused');
+    }
+    fields.status = input.status;
+  }
+  if (input.variables !== undefined) {
+    if (!input.variables || typeof input.variables !== 'object' || Array.isArray(input.variables)) {
+      throw new Error('variables must be an object');
+    }
+    fields.variables = input.variables;
+  }
+  if (input.attachment_urls !== undefined) {
+    if (!Array.isArray(input.attachment_urls) || input.attachment_urls.some((url) => typeof url !== 'string')) {
+      throw new Error('attachment_urls must be an array of URLs');
+    }
+    fields.attachment_urls = input.attachment_urls;
+  }
+  if (input.priority !== undefined) {
+    if (!Number.isInteger(input.priority)) {
+      throw new Error('priority must be an integer');
+    }
+    fields.priority = input.priority;
+  }
+  for (const key of ['name', 'message', 'media_folder', 'webhook_url'] as const) {
+    if (input[key] !== undefined) {
+      fields[key] = input[key] || null;
+    }
+  }
+
+  return fields;
+}
+
+// Create a queued run for each active schedule that is due, and move the
+// schedule on to its next time. Occurrences missed while nothing called this
+// are not made up; a schedule runs at most once per call.
+export async function triggerDueSchedules(supabase: SupabaseClient, now: Date = new Date()): Promise<string[]> {
+  const { data: due, error } = await supabase
+    .from('schedules')
+    .select('*')
+    .eq('status', 'active')
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(TRIGGER_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to fetch due schedules: ${error.message}`);
+  }
+
+  const runIds: string[] = [];
+
+  for (const schedule of due || []) {
+    try {
+      // Claim the occurrence so overlapping calls don't both create a run
+      const { data: claimed } = await supabase
+        .from('schedules')
+        .update({ next_run_at: getNextRunAt(schedule.cron, now), last_run_at: now.toISOString() })
+        .eq('id', schedule.id)
+        .eq('status', 'active')
+        .eq('next_run_at', schedule.next_run_at)
+        .select('id')
+        .maybeSingle();
+
+      if (!claimed) continue;
+
+      const folderMedia = schedule.media_folder
+        ? await getFolderMedia(supabase, schedule.media_folder)
+        : [];
+
+      const { data: run, error: runError } = await supabase
+        .from('runs')
+        .insert({
+          flow_id: schedule.flow_id,
+          schedule_id: schedule.id,
+          message: schedule.message || null,
+          webhook_url: schedule.webhook_url || null,
+          variables: schedule.variables || {},
+          attachment_urls: [...(schedule.attachment_urls || []), ...folderMedia.map((item) => item.url)],
+          input_media_ids: folderMedia.map((item) => item.id),
+          priority: schedule.priority,
+          status: 'pending',
+          started_at: now.toISOString(),
+          data: {},
+        })
+        .select('id')
+        .single();
+
+      if (runError || !run) {
+        throw new Error(runError?.message || 'Failed to create run');
+      }
+
+      runIds.push(run.id);
+    } catch (err) {
+      console.error(`Error triggering schedule ${schedule.id}:`, err);
+    }
+  }
+
+  return runIds;
+}
+
+// Media in a library folder, oldest first so attachment order is stable
+async function getFolderMedia(supabase: SupabaseClient, folder: string): Promise<Array<{ id: string; url: string }>> {
+  const { data, error } = await supabase
+    .from('media')
+    .select('id, url')
+    .eq('folder', folder)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load media folder ${folder}: ${error.message}`);
+  }
+
+  return data || [];
+}
@@ -92,6 +92,17 @@ export async function generateUniqueSlug(
   throw new Error('Unable to generate unique slug');
 }
 
+// Numeric flow IDs from the Rails app, kept for backwards compatibility
+const LEGACY_FLOW_IDS: Record<number, string> = {
+  1: '00000000-0000-0000-0000-000000000001',
+  2: '00000000-0000-0000-0000-000000000002',
+  3: '00000000-0000-0000-0000-000000000003',
+};
+
+export function resolveLegacyFlowId(flowId: string | number): string {
+  return typeof flowId === 'number' ? LEGACY_FLOW_IDS[flowId] || flowId.toString() : flowId;
+}
+
 export async function resolveFlowByIdentifier(
   supabase: SupabaseClient,
   identifier: string
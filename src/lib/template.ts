@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+// Step keys name a prompt within its flow so templates can reference its
+// output as {{steps.<key>.text}}
+export const stepKeySchema = z
+  .string()
+  .min(1)
+  .max(50)
+  .regex(/^[a-z][a-z0-9_]*$/, {
+    message: 'Step key must start with a letter and contain only lowercase letters, numbers and underscores',
+  });
+
+export function validateStepKey(stepKey: string): { valid: boolean; error?: string } {
+  const result = stepKeySchema.safeParse(stepKey);
+  if (!result.success) {
+    return { valid: false, error: result.error.issues[0].message };
+  }
+  return { valid: true };
+}
+
+// A {{ }} placeholder. The path may be a variable name containing spaces or
+// other characters, or a path such as steps.caption.text
+export const TEMPLATE_PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+const STEP_REFERENCE = /^steps(?:\.([^.[\]]+)|\[(\w+)\])/;
+
+// The step keys or positions a template reads, e.g. "caption" for
+// {{steps.caption.text}} and "0" for {{steps[0].text}}
+export function findStepReferences(template: string): string[] {
+  const references: string[] = [];
+  for (const [, path] of template.matchAll(TEMPLATE_PLACEHOLDER)) {
+    const match = path.match(STEP_REFERENCE);
+    if (match) references.push(match[1] ?? match[2]);
+  }
+  return references;
+}
+
+export function isStepReference(path: string): boolean {
+  return STEP_REFERENCE.test(path);
+}
+
+// Walk a path like "steps.caption.text", "steps[0].image_url" or
+// "input.attachments[1]". Returns undefined when any segment is missing;
+// inherited properties such as "constructor" count as missing.
+export function resolvePath(data: unknown, path: string): unknown {
+  const segments = path.replace(/\[(\w+)\]/g, '.$1').split('.').filter(Boolean);
+
+  let current = data;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object' || !Object.hasOwn(current, segment)) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
@@ -0,0 +1,6 @@
+// Rough token count: ~4 characters per token
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string | null | undefined): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
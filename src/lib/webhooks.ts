@@ -0,0 +1,92 @@
+import { createServiceClient } from '@/lib/supabase/server';
+
+// Record and deliver a run lifecycle webhook (run.completed, run.failed, ...)
+// to the run's webhook_url, if it has one
+export async function deliverRunWebhook(run: Record<string, unknown>, eventType: string) {
+  if (!run.webhook_url) return;
+
+  const supabase = createServiceClient();
+
+  const payload = {
+    type: eventType,
+    data: {
+      object: {
+        id: run.id,
+        flow_id: run.flow_id,
+        status: run.status,
+        started_at: run.started_at,
+        completed_at: run.completed_at,
+        created_at: run.created_at,
+        updated_at: run.updated_at,
+        data: run.data,
+        url: `/runs/${run.id}.json`,
+      },
+    },
+    created: Math.floor(Date.now() / 1000),
+  };
+
+  // Create webhook record
+  await supabase.from('run_webhooks').insert({
+    run_id: run.id as string,
+    event_type: eventType,
+    payload,
+    status: 'pending',
+    endpoint_url: run.webhook_url as string,
+    attempt_count: 0,
+  });
+
+  // Deliver webhook
+  try {
+    const response = await fetch(run.webhook_url as string, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+
+    await supabase
+      .from('run_webhooks')
+      .update({
+        status: response.ok ? 'delivered' : 'failed',
+        attempt_count: 1,
+        last_attempted_at: new Date().toISOString(),
+        error_message: response.ok ? null : `HTTP ${response.status}`,
+      })
+      .eq('run_id', run.id as string)
+      .eq('event_type', eventType);
+  } catch (error) {
+    await supabase
+      .from('run_webhooks')
+      .update({
+        status: 'failed',
+        attempt_count: 1,
+        last_attempted_at: new Date().toISOString(),
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      })
+      .eq('run_id', run.id as string)
+      .eq('event_type', eventType);
+  }
+}
+
+// Deliver the batch.completed webhook to the batch's webhook_url, if it has one
+export async function deliverBatchWebhook(batch: Record<string, unknown>, object: Record<string, unknown>) {
+  if (!batch.webhook_url) return;
+
+  const payload = {
+    type: 'batch.completed',
+    data: { object },
+    created: Math.floor(Date.now() / 1000),
+  };
+
+  try {
+    const response = await fetch(batch.webhook_url as string, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      console.error(`Batch webhook failed for ${batch.id}: HTTP ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Error delivering batch webhook for ${batch.id}:`, error);
+  }
+}
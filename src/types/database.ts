@@ -1,9 +1,19 @@
 // Database types for Supabase
 
 export type FlowStatus = 'active' | 'inactive';
-export type RunStatus = 'pending' | 'completed' | 'failed' | 'timed-out';
-export type PromptRunStatus = 'pending' | 'completed' | 'failed';
+export type RunStatus = 'pending' | 'completed' | 'failed' | 'timed-out' | 'cancelled';
+export type PromptRunStatus = 'pending' | 'completed' | 'failed' | 'skipped' | 'cancelled' | 'timed-out';
 export type WebhookStatus = 'pending' | 'delivered' | 'failed';
+export type BatchStatus = 'pending' | 'completed';
+export type ScheduleStatus = 'active' | 'paused';
+// The final run.* event is not recorded; the SSE endpoint sends it from the run itself
+export type RunEventType =
+  | 'step.started'
+  | 'step.token'
+  | 'step.retrying'
+  | 'step.completed'
+  | 'step.failed'
+  | 'step.skipped';
 
 export type EndpointType =
   | 'Chat'
@@ -11,7 +21,9 @@ export type EndpointType =
   | 'ImageToVideo'
   | 'VideoToVideo'
   | 'AudioToText'
-  | 'TextToAudio';
+  | 'TextToAudio'
+  | 'Router'
+  | 'ImageTransform';
 
 export type Provider =
   | 'OpenAI'
@@ -19,18 +31,27 @@ export type Provider =
   | 'Replicate'
   | 'Anthropic'
   | 'Gemini'
-  | 'Rails';
+  | 'Rails'
+  | 'Local'
+  | 'Mock';
 
 // ============================================================================
 // CONFIGURABLE MODELS - Database Types
 // ============================================================================
 
+// Adapters let a provider created in settings reuse a built-in API client
+export type ProviderAdapter = 'openai-compatible';
+
 export interface ProviderRecord {
   id: string;
   name: string;
   slug: string;
   enabled: boolean;
   display_order: number;
+  max_concurrency: number | null; // Runs calling this provider at once (null = unlimited)
+  adapter: ProviderAdapter | null; // null for providers with their own runner
+  base_url: string | null;
+  api_key_env: string | null; // Environment variable holding the API key
   created_at: string;
   updated_at: string;
   models?: ModelRecord[];
@@ -50,6 +71,8 @@ export interface ModelRecord {
   default_params: ModelDefaultParams;
   input_price: number | null;
   output_price: number | null;
+  image_price: number | null; // USD per generated image
+  video_second_price: number | null; // USD per second of generated video
   created_at: string;
   updated_at: string;
 }
@@ -104,7 +127,7 @@ export const IMAGE_MODELS = {
  */
 export const VIDEO_MODELS = {
   Gemini: ['veo-3.0-generate-001'],
-  Rails: ['ffmpeg-concat'],
+  Local: ['ffmpeg-concat'],
 } as const;
 
 export interface User {
@@ -119,6 +142,7 @@ export interface Flow {
   slug: string | null;
   name: string;
   description: string | null;
+  timeout_seconds: number | null; // Execution deadline (null = default)
   created_at: string;
   updated_at: string;
   // Virtual fields for UI
@@ -137,6 +161,9 @@ export interface Prompt {
   // Chat configuration
   system_prompt: string | null;
   tools: Record<string, unknown>[] | null;
+  response_schema: Record<string, unknown> | null; // JSON Schema for structured output
+  max_tool_iterations: number | null; // Tool call rounds before failing (null = 5)
+  history_token_budget: number | null; // Conversation history sent to the model (null = 8000 tokens, 0 = none)
   // Image configuration
   background_prompt: string | null;
   foreground_prompt: string | null;
@@ -148,20 +175,148 @@ export interface Prompt {
   light_source_strength: number | null;
   seed: number | null;
   output_format: string | null;
+  voice: string | null; // TextToAudio voice
   size: string | null;
   quality: string | null;
   // Video configuration
   video_duration: number | null;
+  // Router configuration
+  router_rules: RouterConfig | null;
+  // Map configuration - run once per attachment (or per item of a mapped parent)
+  map_over_attachments: boolean;
+  map_concurrency: number | null;
+  // Retry configuration (null = default policy)
+  retry_policy: RetryPolicy | null;
+  cache_results: boolean; // Reuse the result of an identical earlier request
+  mock_options: MockOptions | null; // Mock provider behaviour
+  video_options: VideoOptions | null; // FFmpeg VideoToVideo edits
+  image_operations: ImageOperation[] | null; // ImageTransform steps, applied in order
   // Attachments (stored as URLs in Supabase)
   subject_image_url: string | null;
   background_reference_url: string | null;
   attachment_urls: string[];
+  // Ordering and dependencies
+  position: number;
+  step_key: string | null; // Name used to reference this step's output in templates
+  depends_on: string[] | null; // null = previous prompt by position, [] = root step
   created_at: string;
   updated_at: string;
   // Virtual
   flow?: Flow;
 }
 
+export type RouterOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'matches'
+  | 'gt'
+  | 'lt'
+  | 'exists';
+
+export interface RouterRule {
+  operator: RouterOperator;
+  value?: string | number | boolean;
+  targets: string[]; // Dependent prompt IDs to run when the rule matches
+}
+
+export interface RouterConfig {
+  field?: string; // JSON path into the previous step's text, e.g. "result.label"
+  match?: 'first' | 'all';
+  rules: RouterRule[];
+  default_targets?: string[]; // Prompt IDs to run when no rule matches
+}
+
+export type ErrorClass =
+  | 'rate_limit'
+  | 'server_error'
+  | 'timeout'
+  | 'network'
+  | 'content_policy'
+  | 'invalid_output'
+  | 'client_error'
+  | 'unknown';
+
+export interface RetryPolicy {
+  max_attempts?: number; // Total attempts including the first
+  initial_delay_ms?: number;
+  backoff_multiplier?: number;
+  max_delay_ms?: number;
+  retry_on?: ErrorClass[]; // Error classes worth retrying
+}
+
+// Mock provider behaviour, set per prompt
+export interface MockOptions {
+  latency_ms?: number; // Delay before responding (default MOCK_LATENCY_MS or 0)
+  fail_attempts?: number; // Fail this many attempts before succeeding
+  failure_rate?: number; // Share of attempts that fail, 0-1, chosen per prompt run and attempt
+  error_status?: number; // HTTP status of injected failures (default 503)
+  text?: string; // Chat and AudioToText output instead of the canned text
+}
+
+// FFmpeg VideoToVideo edits, set per prompt. Clips are trimmed, scaled to one
+// size and joined in order.
+export interface VideoOptions {
+  trim_start?: number; // Seconds cut from the start of each clip
+  trim_end?: number; // Seconds cut from the end of each clip
+  crossfade?: number; // Seconds each clip fades into the next (default 0, a hard cut)
+  width?: number; // Output size (default the first clip's size)
+  height?: number;
+  fps?: number; // Output frame rate (default 30)
+  max_duration?: number; // Seconds the output is cut to
+  strip_audio?: boolean; // Drop the audio track
+}
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export type ImagePosition =
+  | 'center'
+  | 'top'
+  | 'bottom'
+  | 'left'
+  | 'right'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+// ImageTransform operations, applied in order by the Local provider.
+// Aspect ratios are written "4:5"; colors take any CSS color.
+export type ImageOperation =
+  // Scale to fit the box; 'cover' fills it and crops the overflow, 'fill' stretches
+  | { type: 'resize'; width?: number; height?: number; fit?: 'inside' | 'cover' | 'fill' }
+  // Cut a width x height box, or the largest region of aspect_ratio, without scaling
+  | { type: 'crop'; width?: number; height?: number; aspect_ratio?: string; gravity?: 'center' | 'top' | 'bottom' | 'left' | 'right' }
+  // Center the image on a width x height canvas, or the smallest canvas of aspect_ratio
+  | { type: 'pad'; width?: number; height?: number; aspect_ratio?: string; color?: string }
+  // Output format (default: the input's); quality is 1-100 for lossy formats
+  | { type: 'convert'; format: ImageFormat; quality?: number }
+  // Layer a library image (img_ ID) on top; scale is its width as a share of the image's
+  | { type: 'overlay'; media_id: string; position?: ImagePosition; margin?: number; scale?: number; opacity?: number }
+  // Draw text, wrapped to the image width; it can use {{variables}} and color is a name or hex code
+  | { type: 'text'; text: string; position?: ImagePosition; margin?: number; font?: string; font_size?: number; color?: string; opacity?: number };
+
+export interface PromptRunAttempt {
+  attempt: number;
+  status: 'completed' | 'failed';
+  error: string | null;
+  error_class: ErrorClass | null;
+  started_at: string;
+  completed_at: string;
+}
+
+// Summary of a completed prompt run's result, kept so resumed runs can reuse it
+export interface PromptRunOutput {
+  output_url: string | null;
+  output_type: 'image' | 'video' | 'audio' | 'text' | null;
+  text: string | null;
+  json?: unknown; // Parsed structured output
+  selected_prompt_ids: string[] | null;
+  // What dependent steps received - the output, or the step's input passed through
+  forwarded_image_url: string | null;
+  forwarded_text: string | null;
+}
+
 export interface Run {
   id: string;
   flow_id: string;
@@ -173,6 +328,15 @@ export interface Run {
   variables: Record<string, unknown>;
   attachment_urls: string[];
   input_media_ids: string[]; // Array of media IDs for inputs
+  priority: number; // Higher priority runs leave the queue first
+  dispatched_at: string | null; // Null while the run is queued
+  batch_id: string | null;
+  batch_index: number | null; // Row within the batch
+  schedule_id: string | null; // Set on runs created by a schedule
+  idempotency_key: string | null; // Released after the idempotency window
+  external_id: string | null; // Caller's own ID for the run
+  bypass_cache: boolean; // Steps call the provider even when a cached result exists
+  tool_call_flow_ids: string[]; // Flows of the runs that called this one as a tool, outermost first
   started_at: string | null;
   completed_at: string | null;
   created_at: string;
@@ -181,13 +345,17 @@ export interface Run {
   data: {
     image_url?: string;
     video_url?: string;
+    audio_url?: string;
     text?: string;
+    json?: unknown; // Parsed output of Chat steps with a response_schema
+    outputs?: Array<{ image_url?: string; video_url?: string; audio_url?: string; text?: string; json?: unknown }>; // Map step items
     [key: string]: unknown;
   };
   // Virtual fields
   flow?: Flow;
   prompt_runs?: PromptRun[];
   input_media?: Media[]; // Populated media objects
+  queue_position?: number | null;
   url?: string;
 }
 
@@ -211,6 +379,14 @@ export interface PromptRun {
   attachment_urls: string[];
   input_media_ids: string[]; // Array of media IDs for inputs
   output_media_ids: string[]; // Array of media IDs for outputs
+  parent_prompt_run_ids: string[]; // Prompt runs whose outputs fed this one
+  map_index: number | null; // Item position for map steps
+  attempt_count: number;
+  attempts: PromptRunAttempt[]; // One entry per execution attempt
+  output: PromptRunOutput | null;
+  reused_from_prompt_run_id: string | null; // Set when copied from a resumed run's source
+  cache_key: string | null; // Set for steps that cache their results
+  cache_hit: boolean; // Output was reused from the result cache
   // Virtual
   prompt?: Prompt;
   run?: Run;
@@ -246,6 +422,86 @@ export interface Output {
   updated_at: string;
 }
 
+export interface Batch {
+  id: string;
+  flow_id: string;
+  status: BatchStatus;
+  webhook_url: string | null;
+  priority: number;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BatchProgress {
+  total: number;
+  pending: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  timed_out: number;
+}
+
+export interface BatchRow {
+  attachment_urls?: string[];
+  variables?: Record<string, unknown>;
+  message?: string;
+}
+
+export interface CreateBatchRequest {
+  batch: {
+    flow_id: string | number;
+    webhook_url?: string;
+    priority?: number; // Default -1, behind interactive runs
+    rows?: BatchRow[];
+    csv?: string; // Alternative to rows
+    column_mapping?: Record<string, string>; // CSV column -> variable, attachment_urls or message
+  };
+}
+
+export interface Schedule {
+  id: string;
+  flow_id: string;
+  name: string | null;
+  cron: string; // Five-field cron expression, evaluated in UTC
+  status: ScheduleStatus;
+  message: string | null;
+  variables: Record<string, unknown>;
+  attachment_urls: string[];
+  media_folder: string | null; // Library folder whose media is added to each run's attachments
+  webhook_url: string | null;
+  priority: number;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Virtual
+  runs?: Run[];
+}
+
+export interface CreateScheduleRequest {
+  schedule: {
+    flow_id: string | number;
+    cron: string;
+    name?: string;
+    message?: string;
+    variables?: Record<string, unknown>;
+    attachment_urls?: string[];
+    media_folder?: string;
+    webhook_url?: string;
+    priority?: number; // Default -1, behind interactive runs
+  };
+}
+
+// Progress recorded while a run executes, streamed by GET /api/runs/[id]/events
+export interface RunEvent {
+  id: number;
+  run_id: string;
+  event_type: RunEventType;
+  data: Record<string, unknown>;
+  created_at: string;
+}
+
 export interface RunWebhook {
   id: string;
   run_id: string;
@@ -261,15 +517,16 @@ export interface RunWebhook {
 }
 
 export interface Media {
-  id: string; // img_xxxxxxxx or vdo_xxxxxxxx
-  type: 'image' | 'video';
+  id: string; // img_xxxxxxxx, vdo_xxxxxxxx or aud_xxxxxxxx
+  type: 'image' | 'video' | 'audio';
   filename: string;
   url: string;
   mime_type: string | null;
   size: number | null;
   width: number | null;
   height: number | null;
-  duration: number | null; // seconds, for videos
+  duration: number | null; // seconds, for videos and audio
+  folder: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -291,7 +548,16 @@ export interface CreateRunRequest {
     webhook_url?: string;
     variables?: Record<string, unknown>;
     attachment_urls?: string[];
-    conversation_id?: string;
+    conversation_id?: string; // Chat steps replay the conversation's earlier turns
+    priority?: number; // Higher runs first (default 0)
+    external_id?: string; // Also deduplicates retries when no Idempotency-Key header is sent
+    bypass_cache?: boolean; // Skip the result cache for this run
+  };
+}
+
+export interface CreateConversationRequest {
+  conversation: {
+    title?: string;
   };
 }
 
@@ -299,6 +565,9 @@ export interface RunResponse {
   id: string;
   flow_id: string;
   status: RunStatus;
+  priority?: number;
+  external_id?: string | null;
+  queue_position?: number | null; // Set while the run waits in the queue
   started_at: string | null;
   completed_at: string | null;
   created_at: string;
@@ -306,6 +575,7 @@ export interface RunResponse {
   data: {
     image_url?: string;
     video_url?: string;
+    audio_url?: string;
     [key: string]: unknown;
   };
   url: string;
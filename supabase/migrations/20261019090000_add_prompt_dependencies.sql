@@ -0,0 +1,11 @@
+-- Add dependency graph columns so a flow's prompts can execute as a DAG
+
+-- Prompt IDs a step waits for. NULL keeps the legacy linear behaviour
+-- (depends on the previous prompt by position); an empty array marks a
+-- root step that reads the run's own inputs.
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS depends_on UUID[];
+
+-- Prompt runs whose outputs fed each prompt run
+ALTER TABLE prompt_runs ADD COLUMN IF NOT EXISTS parent_prompt_run_ids UUID[] DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_prompt_runs_parent_prompt_run_ids ON prompt_runs USING GIN (parent_prompt_run_ids);
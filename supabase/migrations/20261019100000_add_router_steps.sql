@@ -0,0 +1,23 @@
+-- Add router steps that choose which dependent prompts execute
+
+-- Routing rules evaluated against the previous step's text
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS router_rules JSONB;
+
+-- Prompts on branches a router didn't select are recorded as skipped
+ALTER TABLE prompt_runs DROP CONSTRAINT IF EXISTS prompt_runs_status_check;
+ALTER TABLE prompt_runs ADD CONSTRAINT prompt_runs_status_check
+  CHECK (status IN ('pending', 'completed', 'failed', 'skipped'));
+
+ALTER TABLE models DROP CONSTRAINT IF EXISTS valid_endpoint_types;
+ALTER TABLE models ADD CONSTRAINT valid_endpoint_types
+  CHECK (endpoint_types <@ ARRAY['Chat', 'ImageToImage', 'ImageToVideo', 'VideoToVideo', 'AudioToText', 'TextToAudio', 'Router']::TEXT[]);
+
+-- Local provider for steps that run in-process without an external API
+INSERT INTO providers (name, slug, display_order) VALUES
+  ('Local', 'local', 60)
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO models (provider_id, name, model_id, endpoint_types, display_order)
+SELECT p.id, 'Router', 'router', ARRAY['Router'], 10
+FROM providers p WHERE p.slug = 'local'
+ON CONFLICT (provider_id, model_id) DO NOTHING;
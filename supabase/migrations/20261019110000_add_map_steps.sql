@@ -0,0 +1,9 @@
+-- Add map mode so a prompt can run once per attachment in a run
+
+-- Map steps run once per run attachment, or once per item of a mapped parent
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS map_over_attachments BOOLEAN NOT NULL DEFAULT false;
+-- Maximum items of a map step running at the same time (NULL = default of 4)
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS map_concurrency INTEGER CHECK (map_concurrency > 0);
+
+-- Position of the item a prompt run processed within its map step
+ALTER TABLE prompt_runs ADD COLUMN IF NOT EXISTS map_index INTEGER;
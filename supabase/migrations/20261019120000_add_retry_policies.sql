@@ -0,0 +1,9 @@
+-- Add per-prompt retry policies and record every execution attempt
+
+-- max_attempts, initial_delay_ms, backoff_multiplier, max_delay_ms and
+-- retry_on (error classes). NULL uses the default policy.
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS retry_policy JSONB;
+
+ALTER TABLE prompt_runs ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0;
+-- One entry per attempt: status, error, error_class and timings
+ALTER TABLE prompt_runs ADD COLUMN IF NOT EXISTS attempts JSONB NOT NULL DEFAULT '[]';
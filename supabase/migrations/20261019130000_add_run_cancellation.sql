@@ -0,0 +1,9 @@
+-- Allow runs (and their in-flight prompt runs) to be cancelled
+
+ALTER TABLE runs DROP CONSTRAINT IF EXISTS runs_status_check;
+ALTER TABLE runs ADD CONSTRAINT runs_status_check
+  CHECK (status IN ('pending', 'completed', 'failed', 'timed-out', 'cancelled'));
+
+ALTER TABLE prompt_runs DROP CONSTRAINT IF EXISTS prompt_runs_status_check;
+ALTER TABLE prompt_runs ADD CONSTRAINT prompt_runs_status_check
+  CHECK (status IN ('pending', 'completed', 'failed', 'skipped', 'cancelled'));
@@ -0,0 +1,12 @@
+-- Add per-flow execution deadlines so stuck runs can be timed out
+
+-- Seconds a run may stay pending before the sweeper marks it timed-out
+-- (NULL = default of 900)
+ALTER TABLE flows ADD COLUMN IF NOT EXISTS timeout_seconds INTEGER CHECK (timeout_seconds > 0);
+
+ALTER TABLE prompt_runs DROP CONSTRAINT IF EXISTS prompt_runs_status_check;
+ALTER TABLE prompt_runs ADD CONSTRAINT prompt_runs_status_check
+  CHECK (status IN ('pending', 'completed', 'failed', 'skipped', 'cancelled', 'timed-out'));
+
+-- The sweeper scans pending runs oldest first
+CREATE INDEX IF NOT EXISTS idx_runs_pending_created_at ON runs(created_at) WHERE status = 'pending';
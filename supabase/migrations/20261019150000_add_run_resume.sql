@@ -0,0 +1,8 @@
+-- Allow failed runs to be resumed from the step that failed
+
+-- Output summary of a completed prompt run (output URL/type, text, router
+-- selection and what was forwarded to dependent steps)
+ALTER TABLE prompt_runs ADD COLUMN IF NOT EXISTS output JSONB;
+
+-- Set on prompt runs copied into a resumed run from its source run
+ALTER TABLE prompt_runs ADD COLUMN IF NOT EXISTS reused_from_prompt_run_id UUID REFERENCES prompt_runs(id) ON DELETE SET NULL;
@@ -0,0 +1,6 @@
+-- Name prompts within a flow so templates can reference earlier outputs,
+-- e.g. {{steps.caption.text}}
+
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS step_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompts_flow_step_key ON prompts(flow_id, step_key) WHERE step_key IS NOT NULL;
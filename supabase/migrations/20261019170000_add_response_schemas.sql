@@ -0,0 +1,5 @@
+-- Add structured JSON output for Chat steps
+
+-- JSON Schema the Chat step's response must match. The parsed output is
+-- returned as data.json on the run.
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS response_schema JSONB;
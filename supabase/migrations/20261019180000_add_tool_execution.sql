@@ -0,0 +1,4 @@
+-- Execute tool calls made by Chat steps
+
+-- Maximum rounds of tool calls before a Chat step fails (NULL = default of 5)
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS max_tool_iterations INTEGER CHECK (max_tool_iterations > 0);
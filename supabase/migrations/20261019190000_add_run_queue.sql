@@ -0,0 +1,15 @@
+-- Queue runs and limit how many run at once per provider
+
+-- Maximum runs calling a provider at the same time (NULL = unlimited)
+ALTER TABLE providers ADD COLUMN IF NOT EXISTS max_concurrency INTEGER CHECK (max_concurrency > 0);
+
+-- Higher priority runs are dispatched first
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+-- When the run left the queue and started executing (NULL = still queued)
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS dispatched_at TIMESTAMPTZ;
+
+-- Existing runs were started as soon as they were created
+UPDATE runs SET dispatched_at = COALESCE(started_at, created_at) WHERE dispatched_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_runs_queue ON runs(priority DESC, created_at)
+  WHERE status = 'pending' AND dispatched_at IS NULL;
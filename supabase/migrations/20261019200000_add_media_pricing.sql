@@ -0,0 +1,16 @@
+-- Per-image and per-second pricing so run costs can be estimated for media models
+
+-- USD per generated image (ImageToImage)
+ALTER TABLE models ADD COLUMN IF NOT EXISTS image_price DECIMAL(10,6);
+-- USD per second of generated video (ImageToVideo)
+ALTER TABLE models ADD COLUMN IF NOT EXISTS video_second_price DECIMAL(10,6);
+
+-- List prices for the seeded media models
+UPDATE models SET image_price = 0.042 WHERE model_id IN ('gpt-image-1', 'gpt-image-1.5') AND image_price IS NULL;
+UPDATE models SET image_price = 0.04 WHERE model_id = 'dall-e-3' AND image_price IS NULL;
+UPDATE models SET image_price = 0.02 WHERE model_id = 'dall-e-2' AND image_price IS NULL;
+UPDATE models SET image_price = 0.039 WHERE model_id = 'gemini-2.5-flash-image-preview' AND image_price IS NULL;
+UPDATE models SET image_price = 0.134 WHERE model_id = 'gemini-3-pro-image-preview' AND image_price IS NULL;
+UPDATE models SET image_price = 0.02 WHERE model_id = 'remove-background' AND image_price IS NULL;
+UPDATE models SET image_price = 0.08 WHERE model_id = 'replace-background-and-relight' AND image_price IS NULL;
+UPDATE models SET video_second_price = 0.40 WHERE model_id = 'veo-3.0-generate-001' AND video_second_price IS NULL;
@@ -0,0 +1,23 @@
+-- Group runs created together from a JSON or CSV batch
+
+CREATE TABLE IF NOT EXISTS batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  flow_id UUID REFERENCES flows(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed')),
+  webhook_url TEXT,
+  priority INTEGER NOT NULL DEFAULT -1,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER update_batches_updated_at BEFORE UPDATE ON batches FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE batches ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all access to batches" ON batches FOR ALL USING (true);
+
+-- The batch a run belongs to, and its row within the batch
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES batches(id) ON DELETE SET NULL;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS batch_index INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_runs_batch_id ON runs(batch_id);
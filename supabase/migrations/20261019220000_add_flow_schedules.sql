@@ -0,0 +1,32 @@
+-- Cron schedules that create runs of a flow with fixed inputs
+
+CREATE TABLE IF NOT EXISTS schedules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  flow_id UUID NOT NULL REFERENCES flows(id) ON DELETE CASCADE,
+  name TEXT,
+  cron TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')),
+  message TEXT,
+  variables JSONB DEFAULT '{}'::jsonb,
+  attachment_urls JSONB DEFAULT '[]'::jsonb,
+  media_folder TEXT,
+  webhook_url TEXT,
+  priority INTEGER NOT NULL DEFAULT -1,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_flow_id ON schedules(flow_id);
+CREATE INDEX IF NOT EXISTS idx_schedules_next_run_at ON schedules(next_run_at) WHERE status = 'active';
+
+CREATE TRIGGER update_schedules_updated_at BEFORE UPDATE ON schedules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE schedules ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all access to schedules" ON schedules FOR ALL USING (true);
+
+-- The schedule that created a run
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES schedules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_runs_schedule_id ON runs(schedule_id);
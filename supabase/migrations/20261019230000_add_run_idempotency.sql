@@ -0,0 +1,8 @@
+-- Let clients retry run creation without creating duplicate runs
+
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+-- Keys are released once they fall outside the idempotency window
+CREATE UNIQUE INDEX IF NOT EXISTS idx_runs_idempotency_key ON runs(idempotency_key) WHERE idempotency_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_runs_external_id ON runs(external_id);
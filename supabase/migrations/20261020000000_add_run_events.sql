@@ -0,0 +1,14 @@
+-- Progress events for a run, streamed to API clients over SSE
+
+CREATE TABLE IF NOT EXISTS run_events (
+  id BIGSERIAL PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  data JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_run_events_run_id ON run_events(run_id, id);
+
+ALTER TABLE run_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all access to run_events" ON run_events FOR ALL USING (true);
@@ -0,0 +1,6 @@
+-- Chat steps replay earlier turns of a run's conversation, within a token budget
+
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS history_token_budget INTEGER CHECK (history_token_budget >= 0);
+
+-- Turns are loaded in order within a conversation
+CREATE INDEX IF NOT EXISTS idx_runs_conversation_created_at ON runs(conversation_id, created_at);
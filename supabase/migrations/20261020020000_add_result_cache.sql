@@ -0,0 +1,18 @@
+-- Opt-in cache of step results, keyed on a hash of everything sent to the provider
+
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS cache_results BOOLEAN DEFAULT false;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS bypass_cache BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE prompt_runs ADD COLUMN IF NOT EXISTS cache_key TEXT;
+ALTER TABLE prompt_runs ADD COLUMN IF NOT EXISTS cache_hit BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS result_cache (
+  cache_key TEXT PRIMARY KEY,
+  result JSONB NOT NULL,
+  prompt_run_id UUID REFERENCES prompt_runs(id) ON DELETE SET NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE result_cache ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all access to result_cache" ON result_cache FOR ALL USING (true);
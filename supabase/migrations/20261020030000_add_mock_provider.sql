@@ -0,0 +1,20 @@
+-- Mock provider: runs every endpoint type offline with canned text and placeholder media
+
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS mock_options JSONB;
+
+INSERT INTO providers (name, slug, display_order) VALUES
+  ('Mock', 'mock', 70)
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO models (provider_id, name, model_id, endpoint_types, display_order, input_price, output_price, image_price, video_second_price)
+SELECT p.id, m.name, m.model_id, m.endpoint_types, m.display_order, 0, 0, 0, 0
+FROM providers p
+CROSS JOIN (VALUES
+  ('Mock Chat', 'mock-chat', ARRAY['Chat'], 10),
+  ('Mock Image', 'mock-image', ARRAY['ImageToImage'], 20),
+  ('Mock Video', 'mock-video', ARRAY['ImageToVideo', 'VideoToVideo'], 30),
+  ('Mock Audio', 'mock-audio', ARRAY['AudioToText', 'TextToAudio'], 40),
+  ('Mock Router', 'mock-router', ARRAY['Router'], 50)
+) AS m(name, model_id, endpoint_types, display_order)
+WHERE p.slug = 'mock'
+ON CONFLICT (provider_id, model_id) DO NOTHING;
@@ -0,0 +1,10 @@
+-- Provider adapters: providers created in settings that call a compatible API
+-- (vLLM, Ollama, LiteLLM) through a built-in adapter instead of a runner file
+
+ALTER TABLE providers ADD COLUMN IF NOT EXISTS adapter TEXT CHECK (adapter IN ('openai-compatible'));
+ALTER TABLE providers ADD COLUMN IF NOT EXISTS base_url TEXT;
+-- Name of the environment variable holding the API key, never the key itself
+ALTER TABLE providers ADD COLUMN IF NOT EXISTS api_key_env TEXT;
+
+ALTER TABLE providers ADD CONSTRAINT providers_adapter_base_url
+  CHECK (adapter IS NULL OR base_url IS NOT NULL);
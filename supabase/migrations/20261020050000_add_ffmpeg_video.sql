@@ -0,0 +1,33 @@
+-- FFmpeg VideoToVideo: clips are joined in-process by the Local provider
+-- instead of the old Rails ffmpeg concat service
+
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS video_options JSONB;
+
+INSERT INTO providers (name, slug, display_order) VALUES
+  ('Local', 'local', 60)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Move the FFmpeg Concat model from Rails to Local
+UPDATE models
+SET provider_id = (SELECT id FROM providers WHERE slug = 'local'),
+    video_second_price = 0
+WHERE model_id = 'ffmpeg-concat'
+  AND provider_id = (SELECT id FROM providers WHERE slug = 'rails')
+  AND NOT EXISTS (
+    SELECT 1 FROM models m
+    JOIN providers p ON p.id = m.provider_id
+    WHERE p.slug = 'local' AND m.model_id = 'ffmpeg-concat'
+  );
+
+INSERT INTO models (provider_id, name, model_id, endpoint_types, display_order, video_second_price)
+SELECT p.id, 'FFmpeg Concat', 'ffmpeg-concat', ARRAY['VideoToVideo'], 20, 0
+FROM providers p WHERE p.slug = 'local'
+ON CONFLICT (provider_id, model_id) DO NOTHING;
+
+UPDATE prompts SET selected_provider = 'Local'
+WHERE selected_provider = 'Rails' AND endpoint_type = 'VideoToVideo';
+
+-- Rails had no other models
+DELETE FROM providers p
+WHERE p.slug = 'rails'
+  AND NOT EXISTS (SELECT 1 FROM models m WHERE m.provider_id = p.id);
@@ -0,0 +1,18 @@
+-- AudioToText and TextToAudio: OpenAI transcription and speech models, and
+-- the voice used by TextToAudio steps
+
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS voice TEXT;
+
+INSERT INTO models (provider_id, name, model_id, endpoint_types, display_order)
+SELECT p.id, m.name, m.model_id, m.endpoint_types, m.display_order
+FROM providers p
+CROSS JOIN (VALUES
+  ('GPT-4o Mini Transcribe', 'gpt-4o-mini-transcribe', ARRAY['AudioToText'], 310),
+  ('GPT-4o Transcribe', 'gpt-4o-transcribe', ARRAY['AudioToText'], 320),
+  ('Whisper', 'whisper-1', ARRAY['AudioToText'], 330),
+  ('GPT-4o Mini TTS', 'gpt-4o-mini-tts', ARRAY['TextToAudio'], 410),
+  ('TTS-1', 'tts-1', ARRAY['TextToAudio'], 420),
+  ('TTS-1 HD', 'tts-1-hd', ARRAY['TextToAudio'], 430)
+) AS m(name, model_id, endpoint_types, display_order)
+WHERE p.slug = 'openai'
+ON CONFLICT (provider_id, model_id) DO NOTHING;
@@ -0,0 +1,23 @@
+-- ImageTransform: resize, crop, pad and convert images in-process on the
+-- Local provider, with the operations stored on the prompt
+
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS image_operations JSONB;
+
+ALTER TABLE models DROP CONSTRAINT IF EXISTS valid_endpoint_types;
+ALTER TABLE models ADD CONSTRAINT valid_endpoint_types
+  CHECK (endpoint_types <@ ARRAY['Chat', 'ImageToImage', 'ImageToVideo', 'VideoToVideo', 'AudioToText', 'TextToAudio', 'Router', 'ImageTransform']::TEXT[]);
+
+INSERT INTO providers (name, slug, display_order) VALUES
+  ('Local', 'local', 60)
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO models (provider_id, name, model_id, endpoint_types, display_order, image_price)
+SELECT p.id, 'Image Transform', 'image-transform', ARRAY['ImageTransform'], 30, 0
+FROM providers p WHERE p.slug = 'local'
+ON CONFLICT (provider_id, model_id) DO NOTHING;
+
+-- Mock steps apply the same operations after the simulated latency and failures
+UPDATE models SET endpoint_types = array_append(endpoint_types, 'ImageTransform')
+WHERE model_id = 'mock-image'
+  AND provider_id = (SELECT id FROM providers WHERE slug = 'mock')
+  AND NOT 'ImageTransform' = ANY(endpoint_types);
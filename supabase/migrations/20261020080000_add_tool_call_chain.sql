@@ -0,0 +1,5 @@
+-- Track which flows started a run through flow tools, so a chain of flow
+-- tools can't loop (A -> B -> A) or nest without limit
+
+-- Flows of the calling runs, outermost first (empty for runs not started by a tool)
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS tool_call_flow_ids UUID[] NOT NULL DEFAULT '{}';
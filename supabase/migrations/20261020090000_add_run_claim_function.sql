@@ -0,0 +1,48 @@
+-- Claim queued runs inside one transaction so concurrent dispatchers can't
+-- both see spare capacity and exceed a provider's max_concurrency
+
+-- Claims queued runs whose limited providers are all below max_concurrency,
+-- in priority order then oldest first, and returns their IDs. A flow uses a
+-- provider when one of its prompts selects it by name or slug.
+CREATE OR REPLACE FUNCTION claim_queued_runs(batch_size INTEGER DEFAULT 100)
+RETURNS SETOF UUID AS $$
+DECLARE
+  queued RECORD;
+BEGIN
+  -- One dispatcher counts and claims at a time; the lock is released when
+  -- the transaction ends
+  PERFORM pg_advisory_xact_lock(hashtext('claim_queued_runs'));
+
+  FOR queued IN
+    SELECT id, flow_id FROM runs
+    WHERE status = 'pending' AND dispatched_at IS NULL
+    ORDER BY priority DESC, created_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1
+      FROM providers p
+      WHERE p.max_concurrency IS NOT NULL
+        AND EXISTS (
+          SELECT 1 FROM prompts pr
+          WHERE pr.flow_id = queued.flow_id
+            AND (pr.selected_provider = p.name OR LOWER(pr.selected_provider) = p.slug)
+        )
+        AND (
+          SELECT COUNT(*) FROM runs active
+          WHERE active.status = 'pending'
+            AND active.dispatched_at IS NOT NULL
+            AND EXISTS (
+              SELECT 1 FROM prompts ap
+              WHERE ap.flow_id = active.flow_id
+                AND (ap.selected_provider = p.name OR LOWER(ap.selected_provider) = p.slug)
+            )
+        ) >= p.max_concurrency
+    ) THEN
+      UPDATE runs SET dispatched_at = NOW() WHERE id = queued.id;
+      RETURN NEXT queued.id;
+    END IF;
+  END LOOP;
+END;
+$$ language 'plpgsql';
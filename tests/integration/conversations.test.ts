@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { apiRequest } from './test-utils';
+
+describe('Conversations API - /api/conversations', () => {
+  describe('GET /api/conversations/[id]', () => {
+    it('should return 404 for non-existent conversation', async () => {
+      const fakeId = '00000000-0000-0000-0000-000000000000';
+      const { status, data } = await apiRequest<{ error: string }>(`/api/conversations/${fakeId}`);
+
+      expect(status).toBe(404);
+      expect(data.error).toBe('Conversation not found');
+    });
+  });
+
+  describe('POST /api/runs with conversation_id', () => {
+    it('should return 404 for non-existent conversation', async () => {
+      const { status, data } = await apiRequest<{ error: string }>('/api/runs', {
+        method: 'POST',
+        body: {
+          run: {
+            flow_id: '00000000-0000-0000-0000-00000000ffff',
+            conversation_id: '00000000-0000-0000-0000-000000000000',
+          },
+        },
+      });
+
+      expect(status).toBe(404);
+      expect(data.error).toBe('Conversation not found');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { apiRequest, generateSlug } from './test-utils';
+
+interface RunResult {
+  id: string;
+  status: string;
+  data: { image_url?: string };
+}
+
+// Runs a Mock image step followed by a Local ImageTransform step and cleans up
+async function runTransformFlow(
+  imageOperations: unknown,
+  variables: Record<string, string> = {}
+): Promise<RunResult> {
+  const { data: flow } = await apiRequest<{ id: string }>('/api/flows', {
+    method: 'POST',
+    body: { flow: { name: generateSlug('transform-flow') } },
+  });
+
+  try {
+    await apiRequest('/api/prompts', {
+      method: 'POST',
+      body: {
+        prompt: {
+          flow_id: flow.id,
+          endpoint_type: 'ImageToImage',
+          selected_provider: 'Mock',
+          selected_model: 'mock-image',
+          size: '600x400',
+        },
+      },
+    });
+    await apiRequest('/api/prompts', {
+      method: 'POST',
+      body: {
+        prompt: {
+          flow_id: flow.id,
+          endpoint_type: 'ImageTransform',
+          selected_provider: 'Local',
+          selected_model: 'image-transform',
+          image_operations: imageOperations,
+        },
+      },
+    });
+
+    const { status, data } = await apiRequest<RunResult>('/api/runs?wait=20', {
+      method: 'POST',
+      body: { run: { flow_id: flow.id, message: 'Product shot', variables } },
+    });
+    expect(status).toBe(201);
+    return data;
+  } finally {
+    await apiRequest(`/api/flows/${flow.id}`, { method: 'DELETE' });
+  }
+}
+
+describe('ImageTransform steps', () => {
+  it('should crop and convert the previous step image', async () => {
+    const run = await runTransformFlow([
+      { type: 'crop', aspect_ratio: '1:1' },
+      { type: 'resize', width: 200 },
+      { type: 'convert', format: 'webp' },
+    ]);
+
+    expect(run.status).toBe('completed');
+    expect(run.data.image_url).toMatch(/\.webp$/);
+
+    const response = await fetch(run.data.image_url!);
+    expect(response.headers.get('content-type')).toBe('image/webp');
+  });
+
+  it('should draw text with template variables', async () => {
+    const run = await runTransformFlow(
+      [{ type: 'text', text: '{{product_name}}', position: 'bottom-left', margin: 16, opacity: 0.8 }],
+      { product_name: 'Desk Lamp' }
+    );
+
+    expect(run.status).toBe('completed');
+    expect(run.data.image_url).toMatch(/\.png$/);
+  });
+
+  it('should fail when an overlay is not in the library', async () => {
+    const run = await runTransformFlow([{ type: 'overlay', media_id: 'img_missing0' }]);
+
+    expect(run.status).toBe('failed');
+  });
+
+  it('should reject invalid operations when the step is saved', async () => {
+    const { data: flow } = await apiRequest<{ id: string }>('/api/flows', {
+      method: 'POST',
+      body: { flow: { name: generateSlug('transform-flow') } },
+    });
+
+    try {
+      const { status, data } = await apiRequest<{ error: string }>('/api/prompts', {
+        method: 'POST',
+        body: {
+          prompt: {
+            flow_id: flow.id,
+            endpoint_type: 'ImageTransform',
+            selected_provider: 'Local',
+            selected_model: 'image-transform',
+            image_operations: [{ type: 'crop', aspect_ratio: 'square' }],
+          },
+        },
+      });
+
+      expect(status).toBe(400);
+      expect(data.error).toBe('Image operation 1 (crop): aspect_ratio must look like "4:5"');
+    } finally {
+      await apiRequest(`/api/flows/${flow.id}`, { method: 'DELETE' });
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { apiRequest, generateSlug } from './test-utils';
+
+interface RunResult {
+  id: string;
+  status: string;
+  data: { text?: string; json?: unknown };
+}
+
+// Runs a one-step Mock flow end to end and cleans it up
+async function runMockFlow(prompt: Record<string, unknown>, message: string): Promise<RunResult> {
+  const { data: flow } = await apiRequest<{ id: string }>('/api/flows', {
+    method: 'POST',
+    body: { flow: { name: generateSlug('mock-flow') } },
+  });
+
+  try {
+    await apiRequest('/api/prompts', {
+      method: 'POST',
+      body: {
+        prompt: {
+          flow_id: flow.id,
+          endpoint_type: 'Chat',
+          selected_provider: 'Mock',
+          selected_model: 'mock-chat',
+          ...prompt,
+        },
+      },
+    });
+
+    const { status, data } = await apiRequest<RunResult>('/api/runs?wait=20', {
+      method: 'POST',
+      body: { run: { flow_id: flow.id, message } },
+    });
+    expect(status).toBe(201);
+    return data;
+  } finally {
+    await apiRequest(`/api/flows/${flow.id}`, { method: 'DELETE' });
+  }
+}
+
+describe('Mock provider', () => {
+  it('should complete a Chat step without calling a provider', async () => {
+    const run = await runMockFlow({}, 'Hello');
+
+    expect(run.status).toBe('completed');
+    expect(run.data.text).toMatch(/^Mock response \w+ to: Hello$/);
+  });
+
+  it('should return output matching the response schema', async () => {
+    const run = await runMockFlow(
+      {
+        response_schema: {
+          type: 'object',
+          properties: { label: { type: 'string', enum: ['product', 'person'] }, score: { type: 'number' } },
+          required: ['label', 'score'],
+        },
+      },
+      'Classify this'
+    );
+
+    expect(run.status).toBe('completed');
+    expect(run.data.json).toEqual({ label: 'product', score: 0 });
+  });
+
+  it('should retry an injected failure', async () => {
+    const run = await runMockFlow(
+      {
+        mock_options: { fail_attempts: 1, text: 'Recovered' },
+        retry_policy: { initial_delay_ms: 10 },
+      },
+      'Hello'
+    );
+
+    expect(run.status).toBe('completed');
+    expect(run.data.text).toBe('Recovered');
+  });
+});
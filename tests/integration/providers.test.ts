@@ -160,6 +160,61 @@ describe('Providers API - /api/settings/providers', () => {
       expect(data.error).toContain('slug');
     });
 
+    it('should create a provider with an openai-compatible adapter', async () => {
+      const slug = generateSlug('provider');
+      const { status, data } = await apiRequest<TestProvider & {
+        adapter: string;
+        base_url: string;
+        api_key_env: string;
+      }>('/api/settings/providers', {
+        method: 'POST',
+        body: {
+          provider: {
+            name: 'Local vLLM',
+            slug,
+            adapter: 'openai-compatible',
+            base_url: 'http://localhost:8000/v1',
+            api_key_env: 'PROVIDER_VLLM_API_KEY',
+          },
+        },
+      });
+
+      expect(status).toBe(201);
+      expect(data.adapter).toBe('openai-compatible');
+      expect(data.base_url).toBe('http://localhost:8000/v1');
+      expect(data.api_key_env).toBe('PROVIDER_VLLM_API_KEY');
+
+      createdProviderIds.push(data.id);
+    });
+
+    it('should only read API keys from PROVIDER_*_API_KEY variables', async () => {
+      const { status, data } = await apiRequest<{ error: string }>('/api/settings/providers', {
+        method: 'POST',
+        body: {
+          provider: {
+            name: 'Test',
+            slug: generateSlug('provider'),
+            adapter: 'openai-compatible',
+            base_url: 'http://localhost:8000/v1',
+            api_key_env: 'SUPABASE_SERVICE_ROLE_KEY',
+          },
+        },
+      });
+
+      expect(status).toBe(400);
+      expect(data.error).toContain('PROVIDER_<NAME>_API_KEY');
+    });
+
+    it('should require a base URL for providers with an adapter', async () => {
+      const { status, data } = await apiRequest<{ error: string }>('/api/settings/providers', {
+        method: 'POST',
+        body: { provider: { name: 'Test', slug: generateSlug('provider'), adapter: 'openai-compatible' } },
+      });
+
+      expect(status).toBe(400);
+      expect(data.error).toContain('Base URL');
+    });
+
     it('should reject invalid JSON', async () => {
       const response = await fetch('http://localhost:3002/api/settings/providers', {
         method: 'POST',
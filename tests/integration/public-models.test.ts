@@ -314,6 +314,7 @@ describe('Public Models API - /api/models', () => {
       'VideoToVideo',
       'AudioToText',
       'TextToAudio',
+      'ImageTransform',
     ];
 
     for (const endpointType of endpointTypes) {
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { apiRequest, createTestProvider, deleteTestProvider, generateSlug } from './test-utils';
+
+interface QueuedRun {
+  id: string;
+  status: string;
+  queue_position: number | null;
+}
+
+describe('Run queue', () => {
+  it('should not exceed max_concurrency when runs are created at once', async () => {
+    const provider = await createTestProvider();
+    await apiRequest(`/api/settings/providers/${provider.id}`, {
+      method: 'PATCH',
+      body: { provider: { max_concurrency: 1 } },
+    });
+    const { data: flow } = await apiRequest<{ id: string }>('/api/flows', {
+      method: 'POST',
+      body: { flow: { name: generateSlug('queue-flow') } },
+    });
+
+    try {
+      // A slow Mock step holds the slot; the flow counts against the limited
+      // provider because a later prompt selects it
+      await apiRequest('/api/prompts', {
+        method: 'POST',
+        body: {
+          prompt: {
+            flow_id: flow.id,
+            endpoint_type: 'Chat',
+            selected_provider: 'Mock',
+            selected_model: 'mock-chat',
+            mock_options: { latency_ms: 5000 },
+          },
+        },
+      });
+      await apiRequest('/api/prompts', {
+        method: 'POST',
+        body: { prompt: { flow_id: flow.id, endpoint_type: 'Chat', selected_provider: provider.name } },
+      });
+
+      const created = await Promise.all(
+        [1, 2, 3].map(() =>
+          apiRequest<QueuedRun>('/api/runs', { method: 'POST', body: { run: { flow_id: flow.id, message: 'Hi' } } })
+        )
+      );
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+
+      const runs = await Promise.all(created.map(({ data }) => apiRequest<QueuedRun>(`/api/runs/${data.id}`)));
+      const positions = runs.map(({ data }) => data.queue_position);
+
+      expect(positions.filter((position) => position === null)).toHaveLength(1);
+      expect(positions.filter((position) => position !== null).sort()).toEqual([1, 2]);
+
+      await Promise.all(created.map(({ data }) => apiRequest(`/api/runs/${data.id}/cancel`, { method: 'POST' })));
+    } finally {
+      await apiRequest(`/api/flows/${flow.id}`, { method: 'DELETE' });
+      await deleteTestProvider(provider.id);
+    }
+  });
+});
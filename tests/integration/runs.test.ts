@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { apiRequest, generateSlug } from './test-utils';
+
+describe('Runs API - /api/runs', () => {
+  describe('POST /api/runs', () => {
+    it('should reject an invalid wait', async () => {
+      const { status, data } = await apiRequest<{ error: string }>('/api/runs?wait=soon', {
+        method: 'POST',
+        body: { run: { flow_id: '00000000-0000-0000-0000-00000000ffff' } },
+      });
+
+      expect(status).toBe(400);
+      expect(data.error).toBe('wait must be a positive number of seconds');
+    });
+
+    it('should return the original run for a repeated Idempotency-Key', async () => {
+      const { data: flowA } = await apiRequest<{ id: string }>('/api/flows', {
+        method: 'POST',
+        body: { flow: { name: generateSlug('idempotency-flow') } },
+      });
+      const { data: flowB } = await apiRequest<{ id: string }>('/api/flows', {
+        method: 'POST',
+        body: { flow: { name: generateSlug('idempotency-flow') } },
+      });
+      const headers = { 'Idempotency-Key': generateSlug('key') };
+
+      try {
+        const first = await apiRequest<{ id: string }>('/api/runs', {
+          method: 'POST',
+          headers,
+          body: { run: { flow_id: flowA.id } },
+        });
+        expect(first.status).toBe(201);
+
+        const retry = await apiRequest<{ id: string }>('/api/runs', {
+          method: 'POST',
+          headers,
+          body: { run: { flow_id: flowA.id } },
+        });
+        expect(retry.status).toBe(200);
+        expect(retry.data.id).toBe(first.data.id);
+
+        const otherFlow = await apiRequest<{ error: string }>('/api/runs', {
+          method: 'POST',
+          headers,
+          body: { run: { flow_id: flowB.id } },
+        });
+        expect(otherFlow.status).toBe(409);
+        expect(otherFlow.data.error).toBe('Idempotency key was already used for a different flow');
+      } finally {
+        await apiRequest(`/api/flows/${flowA.id}`, { method: 'DELETE' });
+        await apiRequest(`/api/flows/${flowB.id}`, { method: 'DELETE' });
+      }
+    });
+  });
+
+  describe('POST /api/runs/estimate', () => {
+    it('should require a flow ID', async () => {
+      const { status, data } = await apiRequest<{ error: string }>('/api/runs/estimate', {
+        method: 'POST',
+        body: { run: {} },
+      });
+
+      expect(status).toBe(400);
+      expect(data.error).toBe('Flow ID is required');
+    });
+
+    it('should return 404 for non-existent flow', async () => {
+      const { status, data } = await apiRequest<{ error: string }>('/api/runs/estimate', {
+        method: 'POST',
+        body: { run: { flow_id: '00000000-0000-0000-0000-00000000ffff' } },
+      });
+
+      expect(status).toBe(404);
+      expect(data.error).toBe('Flow not found');
+    });
+  });
+
+  describe('POST /api/runs/batch', () => {
+    it('should require a flow ID', async () => {
+      const { status, data } = await apiRequest<{ error: string }>('/api/runs/batch', {
+        method: 'POST',
+        body: { batch: { rows: [{ message: 'Hello' }] } },
+      });
+
+      expect(status).toBe(400);
+      expect(data.error).toBe('Flow ID is required');
+    });
+
+    it('should reject rows that are not objects', async () => {
+      const { status, data } = await apiRequest<{ error: string }>('/api/runs/batch', {
+        method: 'POST',
+        body: { batch: { flow_id: 'any-flow', rows: [{ message: 'Hello' }, null] } },
+      });
+
+      expect(status).toBe(400);
+      expect(data.error).toBe('Row 2 must be an object');
+    });
+
+    it('should return 404 for non-existent batch', async () => {
+      const fakeId = '00000000-0000-0000-0000-000000000000';
+      const { status, data } = await apiRequest<{ error: string }>(`/api/runs/batch/${fakeId}`);
+
+      expect(status).toBe(404);
+      expect(data.error).toBe('Batch not found');
+    });
+  });
+
+  describe('GET /api/runs/[id]/events', () => {
+    it('should return 404 for non-existent run', async () => {
+      const fakeId = '00000000-0000-0000-0000-000000000000';
+      const { status, data } = await apiRequest<{ error: string }>(`/api/runs/${fakeId}/events`);
+
+      expect(status).toBe(404);
+      expect(data.error).toBe('Run not found');
+    });
+  });
+
+  describe('POST /api/runs/sweep', () => {
+    it('should keep a run timed out when its step finishes afterwards', async () => {
+      const { data: flow } = await apiRequest<{ id: string }>('/api/flows', {
+        method: 'POST',
+        body: { flow: { name: generateSlug('sweep-flow'), timeout_seconds: 1 } },
+      });
+
+      try {
+        await apiRequest('/api/prompts', {
+          method: 'POST',
+          body: {
+            prompt: {
+              flow_id: flow.id,
+              endpoint_type: 'Chat',
+              selected_provider: 'Mock',
+              selected_model: 'mock-chat',
+              mock_options: { latency_ms: 4000 },
+            },
+          },
+        });
+        const { data: run } = await apiRequest<{ id: string }>('/api/runs', {
+          method: 'POST',
+          body: { run: { flow_id: flow.id, message: 'Hi' } },
+        });
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+
+        const sweep = await apiRequest<{ timed_out: string[] }>('/api/runs/sweep', { method: 'POST' });
+        expect(sweep.status).toBe(200);
+        expect(sweep.data.timed_out).toContain(run.id);
+
+        // Let the Mock step finish; it must not complete the run
+        await new Promise((resolve) => setTimeout(resolve, 4000));
+
+        const { data: finished } = await apiRequest<{ status: string; data: { error?: string } }>(
+          `/api/runs/${run.id}`
+        );
+        expect(finished.status).toBe('timed-out');
+        expect(finished.data.error).toBe('Run exceeded its 1 second deadline');
+      } finally {
+        await apiRequest(`/api/flows/${flow.id}`, { method: 'DELETE' });
+      }
+    });
+  });
+
+  describe('POST /api/runs/[id]/cancel', () => {
+    it('should return 404 for non-existent run', async () => {
+      const fakeId = '00000000-0000-0000-0000-000000000000';
+      const { status, data } = await apiRequest<{ error: string }>(
+        `/api/runs/${fakeId}/cancel`,
+        { method: 'POST' }
+      );
+
+      expect(status).toBe(404);
+      expect(data.error).toBe('Run not found');
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { apiRequest } from './test-utils';
+
+describe('Schedules API - /api/schedules', () => {
+  describe('POST /api/schedules', () => {
+    it('should require a flow ID', async () => {
+      const { status, data } = await apiRequest<{ error: string }>('/api/schedules', {
+        method: 'POST',
+        body: { schedule: { cron: '0 2 * * *' } },
+      });
+
+      expect(status).toBe(400);
+      expect(data.error).toBe('Flow ID is required');
+    });
+
+    it('should reject an invalid cron expression', async () => {
+      const { status, data } = await apiRequest<{ error: string }>('/api/schedules', {
+        method: 'POST',
+        body: { schedule: { flow_id: '00000000-0000-0000-0000-00000000ffff', cron: '61 * * * *' } },
+      });
+
+      expect(status).toBe(400);
+      expect(data.error).toBe('Invalid cron minute "61"');
+    });
+  });
+
+  describe('GET /api/schedules/[id]', () => {
+    it('should return 404 for non-existent schedule', async () => {
+      const fakeId = '00000000-0000-0000-0000-000000000000';
+      const { status, data } = await apiRequest<{ error: string }>(`/api/schedules/${fakeId}`);
+
+      expect(status).toBe(404);
+      expect(data.error).toBe('Schedule not found');
+    });
+  });
+});
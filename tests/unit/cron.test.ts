@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { parseCron, getNextCronTime } from '@/lib/cron';
+
+function next(expression: string, after: string): string {
+  return getNextCronTime(expression, new Date(after)).toISOString();
+}
+
+describe('parseCron', () => {
+  it('should expand steps, ranges and lists', () => {
+    const schedule = parseCron('*/15 9-17/4 1,15 * *');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+  });
+
+  it('should run a step without a range to the end of the field', () => {
+    expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+  });
+
+  it('should accept month and day names in any case', () => {
+    const schedule = parseCron('0 0 * jan-MAR mon,Fri');
+
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 5]);
+  });
+
+  it('should treat 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect([...parseCron('0 0 * * 5-7').daysOfWeek].sort()).toEqual([0, 5, 6]);
+  });
+
+  it('should expand @ macros', () => {
+    expect(next('@hourly', '2026-03-10T10:20:00Z')).toBe('2026-03-10T11:00:00.000Z');
+    expect(next('@daily', '2026-03-10T10:20:00Z')).toBe('2026-03-11T00:00:00.000Z');
+    expect(next('@weekly', '2026-03-10T10:20:00Z')).toBe('2026-03-15T00:00:00.000Z');
+    expect(next('@monthly', '2026-03-10T10:20:00Z')).toBe('2026-04-01T00:00:00.000Z');
+    expect(next('@YEARLY', '2026-03-10T10:20:00Z')).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('should reject malformed fields', () => {
+    expect(() => parseCron('* * * *')).toThrow('expected 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('Invalid cron minute "60"');
+    expect(() => parseCron('* * * * 8')).toThrow('Invalid cron day of week "8"');
+    expect(() => parseCron('* * * FOO *')).toThrow('Invalid cron month "FOO"');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron step "*/0"');
+    expect(() => parseCron('*/5/2 * * * *')).toThrow('Invalid cron step "*/5/2"');
+    expect(() => parseCron('5-1 * * * *')).toThrow('Invalid cron range "5-1"');
+    expect(() => parseCron('1-2-3 * * * *')).toThrow('Invalid cron range "1-2-3"');
+    expect(() => parseCron('1.5 * * * *')).toThrow('Invalid cron minute "1.5"');
+  });
+});
+
+describe('getNextCronTime', () => {
+  it('should return the first matching minute strictly after the given time', () => {
+    expect(next('30 * * * *', '2026-03-10T10:30:00Z')).toBe('2026-03-10T11:30:00.000Z');
+    expect(next('30 * * * *', '2026-03-10T10:29:59Z')).toBe('2026-03-10T10:30:00.000Z');
+  });
+
+  it('should roll over months and years', () => {
+    expect(next('0 12 31 * *', '2026-04-01T00:00:00Z')).toBe('2026-05-31T12:00:00.000Z');
+    expect(next('0 0 1 JAN *', '2026-12-31T23:59:00Z')).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('should run on either day when both day fields are restricted', () => {
+    // 2026-03-10 is a Tuesday: the next Friday (13th) comes before the 15th
+    expect(next('0 0 15 * FRI', '2026-03-10T00:00:00Z')).toBe('2026-03-13T00:00:00.000Z');
+    expect(next('0 0 15 * FRI', '2026-03-13T00:00:00Z')).toBe('2026-03-15T00:00:00.000Z');
+  });
+
+  it('should use only the day of week when the day of month is *', () => {
+    expect(next('0 0 * * MON', '2026-03-10T00:00:00Z')).toBe('2026-03-16T00:00:00.000Z');
+  });
+
+  it('should find 29 February in a leap year', () => {
+    expect(next('0 0 29 2 *', '2026-03-10T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('should reject an expression that never matches', () => {
+    expect(() => next('0 0 30 2 *', '2026-03-10T00:00:00Z')).toThrow('Cron expression "0 0 30 2 *" never matches');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv } from '@/lib/csv';
+
+describe('parseCsv', () => {
+  it('should map rows to the header columns', () => {
+    expect(parseCsv('message, style\nHello,calm\nBye,')).toEqual([
+      { message: 'Hello', style: 'calm' },
+      { message: 'Bye', style: '' },
+    ]);
+  });
+
+  it('should keep commas inside quoted fields', () => {
+    expect(parseCsv('message,style\n"Hello, world",calm')).toEqual([{ message: 'Hello, world', style: 'calm' }]);
+  });
+
+  it('should keep newlines inside quoted fields', () => {
+    expect(parseCsv('message,style\n"line one\nline two",calm\r\n"a\r\nb",bold')).toEqual([
+      { message: 'line one\nline two', style: 'calm' },
+      { message: 'a\r\nb', style: 'bold' },
+    ]);
+  });
+
+  it('should unescape doubled quotes', () => {
+    expect(parseCsv('message\n"She said ""hi"""')).toEqual([{ message: 'She said "hi"' }]);
+  });
+
+  it('should strip a byte order mark', () => {
+    expect(parseCsv('\uFEFFmessage\nHello')).toEqual([{ message: 'Hello' }]);
+  });
+
+  it('should handle CRLF line endings and skip blank lines', () => {
+    expect(parseCsv('message,style\r\nHello,calm\r\n\r\nBye,bold\r\n')).toEqual([
+      { message: 'Hello', style: 'calm' },
+      { message: 'Bye', style: 'bold' },
+    ]);
+  });
+
+  it('should return no rows for an empty file', () => {
+    expect(parseCsv('')).toEqual([]);
+    expect(parseCsv('message\n')).toEqual([]);
+  });
+
+  it('should reject an unterminated quoted field', () => {
+    expect(() => parseCsv('message\n"Hello')).toThrow('Unterminated quoted field in CSV');
+  });
+});
@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { createEventCursor } from '@/lib/execution/events';
+import { RunEvent } from '@/types/database';
+
+function event(id: number): RunEvent {
+  return { id, run_id: 'run', event_type: 'step.started', data: {}, created_at: '' };
+}
+
+describe('createEventCursor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should re-read recent events and send each one once', () => {
+    const cursor = createEventCursor(0);
+
+    expect(cursor.afterId()).toBe(0);
+    expect(cursor.take([event(1), event(3)]).map((e) => e.id)).toEqual([1, 3]);
+
+    // Event 2 commits after 3 was read
+    vi.advanceTimersByTime(1000);
+    expect(cursor.afterId()).toBe(0);
+    expect(cursor.take([event(1), event(2), event(3)]).map((e) => e.id)).toEqual([2]);
+  });
+
+  it('should move past events once they are old enough', () => {
+    const cursor = createEventCursor(10);
+    cursor.take([event(11), event(12)]);
+
+    vi.advanceTimersByTime(5000);
+    expect(cursor.afterId()).toBe(12);
+    expect(cursor.take([event(13)]).map((e) => e.id)).toEqual([13]);
+  });
+});
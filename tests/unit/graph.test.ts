@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { buildFlowGraph, getReadySteps, isStepSkipped, StepState } from '@/lib/execution/graph';
+import { validatePromptInFlow, NEW_PROMPT_ID } from '@/lib/prompts';
+
+const A = '00000000-0000-0000-0000-00000000000a';
+const B = '00000000-0000-0000-0000-00000000000b';
+const C = '00000000-0000-0000-0000-00000000000c';
+
+function prompt(id: string, position: number, dependsOn: string[] | null = null) {
+  return { id, position, depends_on: dependsOn };
+}
+
+describe('buildFlowGraph', () => {
+  it('should chain prompts without depends_on by position', () => {
+    const steps = buildFlowGraph([prompt(C, 2), prompt(A, 0), prompt(B, 1)]);
+
+    expect(steps.map((step) => [step.id, step.dependsOn])).toEqual([
+      [A, []],
+      [B, [A]],
+      [C, [B]],
+    ]);
+  });
+
+  it('should treat an empty depends_on as a root step', () => {
+    const steps = buildFlowGraph([prompt(A, 0), prompt(B, 1, [])]);
+
+    expect(steps[1].dependsOn).toEqual([]);
+  });
+
+  it('should drop duplicate dependencies', () => {
+    const steps = buildFlowGraph([prompt(A, 0), prompt(B, 1, [A, A])]);
+
+    expect(steps[1].dependsOn).toEqual([A]);
+  });
+
+  it('should reject a dependency on an unknown prompt', () => {
+    expect(() => buildFlowGraph([prompt(A, 0, [B])])).toThrow(`depends on unknown prompt ${B}`);
+  });
+
+  it('should reject a prompt that depends on itself', () => {
+    expect(() => buildFlowGraph([prompt(A, 0, [A])])).toThrow('cannot depend on itself');
+  });
+
+  it('should reject a cycle and name the prompts in it', () => {
+    expect(() => buildFlowGraph([prompt(A, 0, []), prompt(B, 1, [C]), prompt(C, 2, [B])])).toThrow(
+      `dependency cycle between prompts: ${B}, ${C}`
+    );
+  });
+});
+
+describe('getReadySteps', () => {
+  it('should return steps whose dependencies have all finished', () => {
+    const steps = buildFlowGraph([prompt(A, 0, []), prompt(B, 1, []), prompt(C, 2, [A, B])]);
+
+    expect(getReadySteps(steps, new Set()).map((step) => step.id)).toEqual([A, B]);
+    expect(getReadySteps(steps, new Set([A])).map((step) => step.id)).toEqual([B]);
+    expect(getReadySteps(steps, new Set([A, B])).map((step) => step.id)).toEqual([C]);
+  });
+});
+
+describe('isStepSkipped', () => {
+  const steps = buildFlowGraph([prompt(A, 0, []), prompt(B, 1, [A]), prompt(C, 2, [A, B])]);
+
+  it('should skip a step the router parent did not select', () => {
+    const states = new Map<string, StepState>([[A, { skipped: false, selectedPromptIds: [C] }]]);
+
+    expect(isStepSkipped(steps[1], states)).toBe(true);
+  });
+
+  it('should skip a step when every parent was skipped', () => {
+    const states = new Map<string, StepState>([
+      [A, { skipped: true }],
+      [B, { skipped: true }],
+    ]);
+
+    expect(isStepSkipped(steps[2], states)).toBe(true);
+  });
+
+  it('should run a step when a parent ran and no router excluded it', () => {
+    const states = new Map<string, StepState>([
+      [A, { skipped: false, selectedPromptIds: [C] }],
+      [B, { skipped: true }],
+    ]);
+
+    expect(isStepSkipped(steps[2], states)).toBe(false);
+  });
+});
+
+describe('validatePromptInFlow', () => {
+  const flow = [prompt(A, 0, []), prompt(B, 1, [A])];
+
+  it('should accept dependencies on prompts in the flow', () => {
+    expect(() => validatePromptInFlow(flow, prompt(NEW_PROMPT_ID, 2, [A, B]))).not.toThrow();
+  });
+
+  it('should reject a prompt from another flow', () => {
+    expect(() => validatePromptInFlow(flow, prompt(NEW_PROMPT_ID, 2, [C]))).toThrow(
+      `depends_on references prompt ${C}, which is not in this flow`
+    );
+  });
+
+  it('should reject an update that creates a cycle', () => {
+    expect(() => validatePromptInFlow(flow, prompt(A, 0, [B]))).toThrow('dependency cycle');
+  });
+
+  it('should reject depends_on that is not a list of IDs', () => {
+    expect(() => validatePromptInFlow(flow, { ...prompt(B, 1), depends_on: A })).toThrow(
+      'depends_on must be an array of prompt IDs'
+    );
+  });
+});
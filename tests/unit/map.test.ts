@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '@/lib/execution/map';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+describe('mapWithConcurrency', () => {
+  it('should keep results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, index) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return `${index}:${ms}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:10', '2:20']);
+  });
+
+  it('should never run more than the concurrency limit at once', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await tick();
+      inFlight--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it('should run one at a time when concurrency is below one', async () => {
+    let peak = 0;
+    let inFlight = 0;
+
+    await mapWithConcurrency([1, 2, 3], 0, async () => {
+      peak = Math.max(peak, ++inFlight);
+      await tick();
+      inFlight--;
+    });
+
+    expect(peak).toBe(1);
+  });
+
+  it('should return an empty array for no items', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+
+  it('should reject on the first failure and start no new items', async () => {
+    const started: number[] = [];
+
+    await expect(
+      mapWithConcurrency([0, 1, 2, 3, 4], 1, async (item) => {
+        started.push(item);
+        if (item === 1) throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(started).toEqual([0, 1]);
+  });
+});
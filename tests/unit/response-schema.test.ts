@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { validatePromptInFlow, NEW_PROMPT_ID } from '@/lib/prompts';
+
+function chatPrompt(responseSchema: unknown) {
+  return { id: NEW_PROMPT_ID, position: 0, endpoint_type: 'Chat', response_schema: responseSchema };
+}
+
+describe('validatePromptInFlow with a response_schema', () => {
+  it('should accept an object schema without strict-mode constraints', () => {
+    const schema = {
+      type: 'object',
+      properties: { title: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+      required: ['title'],
+    };
+
+    expect(() => validatePromptInFlow([], chatPrompt(schema))).not.toThrow();
+    expect(() => validatePromptInFlow([], chatPrompt(null))).not.toThrow();
+  });
+
+  it('should reject a schema that is not an object schema', () => {
+    expect(() => validatePromptInFlow([], chatPrompt({ type: 'string' }))).toThrow(
+      'response_schema must be a JSON Schema with type "object"'
+    );
+    expect(() => validatePromptInFlow([], chatPrompt('{"type":"object"}'))).toThrow(
+      'response_schema must be a JSON Schema with type "object"'
+    );
+  });
+
+  it('should reject a schema that does not compile', () => {
+    expect(() =>
+      validatePromptInFlow([], chatPrompt({ type: 'object', properties: { title: { type: 'text' } } }))
+    ).toThrow('response_schema is not a valid JSON Schema: Unsupported type: text');
+    expect(() =>
+      validatePromptInFlow([], chatPrompt({ type: 'object', properties: { item: { $ref: '#/$defs/missing' } } }))
+    ).toThrow('response_schema is not a valid JSON Schema');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyError,
+  DEFAULT_RETRY_POLICY,
+  getBackoffDelay,
+  resolveRetryPolicy,
+  shouldRetry,
+} from '@/lib/execution/retry';
+
+describe('classifyError', () => {
+  it('should use the status on SDK errors', () => {
+    expect(classifyError(Object.assign(new Error('Too many requests'), { status: 429 }))).toBe('rate_limit');
+    expect(classifyError(Object.assign(new Error('Bad gateway'), { status: 502 }))).toBe('server_error');
+    expect(classifyError(Object.assign(new Error('Bad request'), { status: 400 }))).toBe('client_error');
+    expect(classifyError(Object.assign(new Error('Request timeout'), { status: 408 }))).toBe('timeout');
+  });
+
+  it('should read the status from fetch runner messages', () => {
+    expect(classifyError(new Error('Replicate API error: 429 - slow down'))).toBe('rate_limit');
+    expect(classifyError(new Error('fal API error: 503 - unavailable'))).toBe('server_error');
+    expect(classifyError(new Error('Runway API error: 401 - unauthorized'))).toBe('client_error');
+  });
+
+  it('should recognise timeouts, network failures and invalid output', () => {
+    expect(classifyError(new Error('Step timed out after 60s'))).toBe('timeout');
+    expect(classifyError(new Error('connect ECONNREFUSED 127.0.0.1:443'))).toBe('network');
+    expect(classifyError(new TypeError('fetch failed'))).toBe('network');
+    expect(classifyError(new Error('Invalid structured output: missing "title"'))).toBe('invalid_output');
+  });
+
+  it('should classify content policy errors before their status', () => {
+    expect(classifyError(Object.assign(new Error('Rejected'), { status: 400, code: 'content_policy_violation' }))).toBe(
+      'content_policy'
+    );
+    expect(classifyError(new Error('Blocked by safety system'))).toBe('content_policy');
+  });
+
+  it('should fall back to unknown', () => {
+    expect(classifyError('something odd')).toBe('unknown');
+  });
+});
+
+describe('resolveRetryPolicy', () => {
+  it('should fill in defaults and ignore null settings', () => {
+    expect(resolveRetryPolicy(null)).toEqual(DEFAULT_RETRY_POLICY);
+    expect(resolveRetryPolicy({ max_attempts: 5, initial_delay_ms: null as unknown as number })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      max_attempts: 5,
+    });
+  });
+});
+
+describe('shouldRetry', () => {
+  const policy = resolveRetryPolicy({ max_attempts: 3 });
+
+  it('should retry listed error classes until attempts run out', () => {
+    expect(shouldRetry(policy, 'rate_limit', 1)).toBe(true);
+    expect(shouldRetry(policy, 'rate_limit', 2)).toBe(true);
+    expect(shouldRetry(policy, 'rate_limit', 3)).toBe(false);
+  });
+
+  it('should not retry classes missing from retry_on', () => {
+    expect(shouldRetry(policy, 'client_error', 1)).toBe(false);
+    expect(shouldRetry(policy, 'content_policy', 1)).toBe(false);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('should grow exponentially from the initial delay', () => {
+    const policy = resolveRetryPolicy({ initial_delay_ms: 500, backoff_multiplier: 3 });
+
+    expect([1, 2, 3].map((attempt) => getBackoffDelay(policy, attempt))).toEqual([500, 1500, 4500]);
+  });
+
+  it('should cap the delay at max_delay_ms', () => {
+    const policy = resolveRetryPolicy({ initial_delay_ms: 1000, backoff_multiplier: 10, max_delay_ms: 5000 });
+
+    expect(getBackoffDelay(policy, 3)).toBe(5000);
+  });
+});
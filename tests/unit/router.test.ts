@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { RunPromptParams } from '@/lib/runners';
+import { runRouterLocal, validateRouterConfig } from '@/lib/runners/router/local';
+import { validatePromptInFlow, validatePromptRemoval } from '@/lib/prompts';
+import { RouterConfig } from '@/types/database';
+
+const ROUTER = '00000000-0000-0000-0000-00000000000a';
+const YES = '00000000-0000-0000-0000-00000000000b';
+const NO = '00000000-0000-0000-0000-00000000000c';
+const OTHER = '00000000-0000-0000-0000-00000000000d';
+
+async function route(routerRules: RouterConfig, inputText: string) {
+  const result = await runRouterLocal({
+    prompt: { router_rules: routerRules },
+    promptRun: {},
+    run: {},
+    inputImageUrl: null,
+    inputText,
+  } as unknown as RunPromptParams);
+  return result.selectedPromptIds;
+}
+
+function single(rule: RouterConfig['rules'][number]): RouterConfig {
+  return { rules: [rule], default_targets: [NO] };
+}
+
+describe('runRouterLocal operators', () => {
+  it('equals should compare trimmed text case-insensitively', async () => {
+    expect(await route(single({ operator: 'equals', value: 'product', targets: [YES] }), 'Product\n')).toEqual([YES]);
+    expect(await route(single({ operator: 'equals', value: 'product', targets: [YES] }), 'products')).toEqual([NO]);
+  });
+
+  it('not_equals should match anything else', async () => {
+    expect(await route(single({ operator: 'not_equals', value: 'spam', targets: [YES] }), 'ham')).toEqual([YES]);
+    expect(await route(single({ operator: 'not_equals', value: 'spam', targets: [YES] }), 'SPAM')).toEqual([NO]);
+  });
+
+  it('contains should match a substring', async () => {
+    expect(await route(single({ operator: 'contains', value: 'urgent', targets: [YES] }), 'Very URGENT ticket')).toEqual([YES]);
+    expect(await route(single({ operator: 'contains', value: 'urgent', targets: [YES] }), 'later')).toEqual([NO]);
+  });
+
+  it('matches should test a case-insensitive regex', async () => {
+    expect(await route(single({ operator: 'matches', value: '^order-\\d+$', targets: [YES] }), 'ORDER-42')).toEqual([YES]);
+    expect(await route(single({ operator: 'matches', value: '^order-\\d+$', targets: [YES] }), 'order-x')).toEqual([NO]);
+  });
+
+  it('gt and lt should compare numbers', async () => {
+    expect(await route(single({ operator: 'gt', value: 0.5, targets: [YES] }), '0.8')).toEqual([YES]);
+    expect(await route(single({ operator: 'gt', value: 0.5, targets: [YES] }), '0.2')).toEqual([NO]);
+    expect(await route(single({ operator: 'lt', value: '10', targets: [YES] }), '3')).toEqual([YES]);
+    expect(await route(single({ operator: 'lt', value: '10', targets: [YES] }), 'ten')).toEqual([NO]);
+  });
+
+  it('exists should match non-empty values', async () => {
+    const config: RouterConfig = { field: 'tag', rules: [{ operator: 'exists', targets: [YES] }], default_targets: [NO] };
+
+    expect(await route(config, '```json\n{"tag": "sale"}\n```')).toEqual([YES]);
+    expect(await route(config, '{"tag": ""}')).toEqual([NO]);
+    expect(await route(config, 'not json')).toEqual([NO]);
+  });
+
+  it('should collect targets of every matching rule with match all', async () => {
+    const config: RouterConfig = {
+      match: 'all',
+      rules: [
+        { operator: 'contains', value: 'a', targets: [YES] },
+        { operator: 'contains', value: 'b', targets: [NO, YES] },
+      ],
+    };
+
+    expect(await route(config, 'ab')).toEqual([YES, NO]);
+  });
+
+  it('should fail clearly on an invalid regex', async () => {
+    await expect(route(single({ operator: 'matches', value: '(', targets: [YES] }), 'x')).rejects.toThrow(
+      'is not a valid regular expression'
+    );
+  });
+});
+
+describe('validateRouterConfig', () => {
+  it('should reject an unknown operator', () => {
+    expect(() =>
+      validateRouterConfig({ rules: [{ operator: 'starts_with', value: 'a', targets: [YES] }] })
+    ).toThrow('operator must be one of');
+  });
+
+  it('should reject a non-numeric gt value', () => {
+    expect(() => validateRouterConfig(single({ operator: 'gt', value: 'high', targets: [YES] }))).toThrow(
+      'gt needs a numeric value'
+    );
+  });
+
+  it('should reject targets that are not dependents', () => {
+    expect(() => validateRouterConfig(single({ operator: 'exists', targets: [YES] }), [YES])).toThrow(
+      `router_rules.default_targets includes ${NO}, which does not depend on this router`
+    );
+  });
+});
+
+describe('validatePromptInFlow with routers', () => {
+  const router = {
+    id: ROUTER,
+    position: 0,
+    depends_on: [],
+    endpoint_type: 'Router',
+    router_rules: single({ operator: 'equals', value: 'yes', targets: [YES] }),
+  };
+
+  it('should accept targets that depend on the router', () => {
+    const flow = [
+      { id: YES, position: 1, depends_on: [ROUTER] },
+      { id: NO, position: 2, depends_on: [ROUTER] },
+    ];
+
+    expect(() => validatePromptInFlow(flow, router)).not.toThrow();
+  });
+
+  it('should reject a target that does not depend on the router', () => {
+    const flow = [
+      { id: YES, position: 1, depends_on: [ROUTER] },
+      { id: NO, position: 2, depends_on: [] },
+    ];
+
+    expect(() => validatePromptInFlow(flow, router)).toThrow('does not depend on this router');
+  });
+
+  it('should reject a dependency change that leaves another router invalid', () => {
+    const flow = [
+      router,
+      { id: YES, position: 1, depends_on: [ROUTER] },
+      { id: NO, position: 2, depends_on: [ROUTER] },
+    ];
+
+    expect(() => validatePromptInFlow(flow, { id: NO, position: 2, depends_on: [] })).toThrow(
+      `Router ${ROUTER} would be left invalid`
+    );
+  });
+
+  it('should reject deleting a prompt a router targets', () => {
+    const flow = [
+      router,
+      { id: YES, position: 1, depends_on: [ROUTER] },
+      { id: NO, position: 2, depends_on: [ROUTER] },
+    ];
+
+    expect(() => validatePromptRemoval(flow, YES)).toThrow('does not depend on this router');
+    expect(() => validatePromptRemoval([...flow, { id: OTHER, position: 3, depends_on: [] }], OTHER)).not.toThrow();
+  });
+});
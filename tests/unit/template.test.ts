@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate } from '@/lib/runners';
+import { findStepReferences, resolvePath } from '@/lib/template';
+import { validatePromptInFlow, NEW_PROMPT_ID } from '@/lib/prompts';
+
+const A = '00000000-0000-0000-0000-00000000000a';
+const B = '00000000-0000-0000-0000-00000000000b';
+const C = '00000000-0000-0000-0000-00000000000c';
+
+describe('renderTemplate', () => {
+  const variables = {
+    name: 'Lamp',
+    'product name': 'Desk Lamp',
+    'price ($)': 25,
+    steps: { caption: { text: 'A lamp', json: { tags: ['desk'] } }, 0: { text: 'first' } },
+    input: { attachments: ['a.png', 'b.png'] },
+  };
+
+  it('should replace variables and step paths', () => {
+    expect(renderTemplate('{{name}}: {{ steps.caption.text }} {{steps[0].text}}', variables)).toBe(
+      'Lamp: A lamp first'
+    );
+    expect(renderTemplate('{{input.attachments[1]}}', variables)).toBe('b.png');
+  });
+
+  it('should support variable names with spaces and other characters', () => {
+    expect(renderTemplate('{{product name}} costs {{ price ($) }}', variables)).toBe('Desk Lamp costs 25');
+  });
+
+  it('should render objects as JSON', () => {
+    expect(renderTemplate('{{steps.caption.json}}', variables)).toBe('{"tags":["desk"]}');
+  });
+
+  it('should leave unknown variables untouched', () => {
+    expect(renderTemplate('Hello {{missing}}', variables)).toBe('Hello {{missing}}');
+  });
+
+  it('should render unresolved step references empty', () => {
+    expect(renderTemplate('[{{steps.skipped.text}}][{{steps.caption.image_url}}]', variables)).toBe('[][]');
+  });
+
+  it('should not resolve inherited properties', () => {
+    expect(renderTemplate('{{constructor}} {{toString}}', variables)).toBe('{{constructor}} {{toString}}');
+    expect(renderTemplate('[{{steps.caption.constructor}}]', variables)).toBe('[]');
+  });
+});
+
+describe('resolvePath', () => {
+  it('should return undefined for missing and inherited segments', () => {
+    expect(resolvePath({ a: { b: 1 } }, 'a.c')).toBeUndefined();
+    expect(resolvePath({ a: [] }, 'a.map')).toBeUndefined();
+    expect(resolvePath({ a: [1, 2] }, 'a[1]')).toBe(2);
+  });
+});
+
+describe('findStepReferences', () => {
+  it('should return step keys and positions', () => {
+    expect(findStepReferences('{{steps.caption.text}} {{ steps[2].image_url }} {{name}} {{steps.3.text}}')).toEqual([
+      'caption',
+      '2',
+      '3',
+    ]);
+  });
+});
+
+describe('validatePromptInFlow step references', () => {
+  const flow = [
+    { id: A, position: 0, depends_on: [], step_key: 'scene' },
+    { id: B, position: 1, depends_on: [A], step_key: 'caption' },
+    { id: C, position: 2, depends_on: [], step_key: 'other' },
+  ];
+
+  it('should accept references to upstream steps', () => {
+    const prompt = {
+      id: NEW_PROMPT_ID,
+      position: 3,
+      depends_on: [B],
+      system_prompt: '{{steps.scene.text}} {{steps.caption.text}} {{steps[1].text}}',
+    };
+
+    expect(() => validatePromptInFlow(flow, prompt)).not.toThrow();
+  });
+
+  it('should reject references to steps the prompt does not depend on', () => {
+    const prompt = { id: NEW_PROMPT_ID, position: 3, depends_on: [B], background_prompt: '{{steps.other.text}}' };
+
+    expect(() => validatePromptInFlow(flow, prompt)).toThrow(
+      'Template references step other, which this prompt does not depend on'
+    );
+  });
+
+  it('should reject references to unknown steps', () => {
+    const prompt = {
+      id: NEW_PROMPT_ID,
+      position: 3,
+      depends_on: [B],
+      image_operations: [{ type: 'text', text: '{{steps.nope.text}}' }],
+    };
+
+    expect(() => validatePromptInFlow(flow, prompt)).toThrow('Template references unknown step nope');
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { validateVideoOptions } from '@/lib/prompts';
+
+describe('validateVideoOptions', () => {
+  it('should accept numbers, booleans and missing options', () => {
+    expect(() => validateVideoOptions(null)).not.toThrow();
+    expect(() =>
+      validateVideoOptions({ trim_start: 0.5, crossfade: 1, width: 1280, height: 720, fps: 24, strip_audio: true })
+    ).not.toThrow();
+  });
+
+  it('should reject strings that would reach the ffmpeg filter graph', () => {
+    expect(() => validateVideoOptions({ trim_start: '0,drawtext=text=x' })).toThrow(
+      'video_options.trim_start must be a non-negative number'
+    );
+  });
+
+  it('should reject negative and non-finite numbers', () => {
+    expect(() => validateVideoOptions({ crossfade: -1 })).toThrow('video_options.crossfade');
+    expect(() => validateVideoOptions({ fps: Infinity })).toThrow('video_options.fps');
+  });
+
+  it('should reject options that are not an object', () => {
+    expect(() => validateVideoOptions([1, 2])).toThrow('video_options must be an object');
+  });
+});